@@ -3,10 +3,19 @@ import { CreateOsoArgs, createOso } from "./oso.js";
 import {
   UserRevokePolicy,
   deduplicatePermissions,
+  findUnmanagedPermissions,
   getRevokeActors,
   parsePermissions,
+  propagatePartitionPermissions,
 } from "./parser.js";
-import { constructFullQuery } from "./sql.js";
+import { RoleDefinition, planRoles } from "./roles.js";
+import {
+  Permission,
+  PermissionChange,
+  RoleChange,
+  SQLActor,
+  constructFullQuery,
+} from "./sql.js";
 
 export interface CompileQueryArgs extends Omit<CreateOsoArgs, "functions"> {
   backend: SQLBackend;
@@ -14,14 +23,27 @@ export interface CompileQueryArgs extends Omit<CreateOsoArgs, "functions"> {
   userRevokePolicy?: UserRevokePolicy;
   includeSetupAndTeardown?: boolean;
   includeTransaction?: boolean;
+  incremental?: boolean;
   strictFields?: boolean;
   allowAnyActor?: boolean;
+  /** Grant permissions on partitioned tables on their partitions as well */
+  propagateToPartitions?: boolean;
+  /** Roles to create or alter before granting permissions */
+  roles?: RoleDefinition[];
+  /** Drop roles other than superusers that aren't defined in `roles` */
+  dropUnmanagedRoles?: boolean;
+  /**
+   * Only revoke and grant permissions on these schemas and the objects in
+   * them. Rules that grant permissions outside of them are errors.
+   */
+  managedSchemas?: string[];
   debug?: boolean;
 }
 
 export interface CompileQuerySuccess {
   type: "success";
   query: string;
+  permissions: Permission[];
 }
 
 export interface CompileQueryError {
@@ -31,27 +53,59 @@ export interface CompileQueryError {
 
 export type CompileQueryResult = CompileQuerySuccess | CompileQueryError;
 
-export async function compileQuery({
+export interface CompilePermissionsSuccess {
+  type: "success";
+  entities: SQLEntities;
+  permissions: Permission[];
+  revokeUsers: SQLActor[];
+  roleChanges: RoleChange[];
+  managedSchemas?: string[];
+}
+
+export type CompilePermissionsResult =
+  | CompilePermissionsSuccess
+  | CompileQueryError;
+
+export async function compilePermissions({
   backend,
   entities,
   userRevokePolicy,
-  includeSetupAndTeardown,
-  includeTransaction,
   debug,
   strictFields,
   allowAnyActor,
+  propagateToPartitions,
+  roles,
+  dropUnmanagedRoles,
+  managedSchemas,
+  incremental,
   paths,
   vars,
-}: CompileQueryArgs): Promise<CompileQueryResult> {
+}: CompileQueryArgs): Promise<CompilePermissionsResult> {
   if (entities === undefined) {
     entities = await backend.fetchEntities();
   }
 
-  const { oso, literalsContext } = await createOso({
-    paths,
-    functions: entities.functions,
-    vars,
-  });
+  let roleChanges: RoleChange[] = [];
+  if (roles || dropUnmanagedRoles) {
+    const rolesResult = planRoles({
+      roles: roles ?? [],
+      entities,
+      dropUnmanagedRoles,
+      setPasswords: !incremental,
+    });
+    if (rolesResult.type !== "success") {
+      return rolesResult;
+    }
+    roleChanges = rolesResult.changes;
+    entities = rolesResult.entities;
+  }
+
+  const { oso, literalsContext, rules, memberRules, settingRules } =
+    await createOso({
+      paths,
+      functions: entities.functions,
+      vars,
+    });
 
   const result = await parsePermissions({
     oso,
@@ -60,13 +114,27 @@ export async function compileQuery({
     strictFields,
     allowAnyActor,
     literalsContext,
+    rules,
+    memberRules,
+    settingRules,
   });
 
   if (result.type !== "success") {
     return result;
   }
 
-  const permissions = deduplicatePermissions(result.permissions);
+  const permissions = deduplicatePermissions(
+    propagateToPartitions
+      ? propagatePartitionPermissions(result.permissions, entities)
+      : result.permissions,
+  );
+
+  if (managedSchemas) {
+    const errors = findUnmanagedPermissions(permissions, managedSchemas);
+    if (errors.length > 0) {
+      return { type: "error", errors };
+    }
+  }
 
   const actorsToRevoke = getRevokeActors({
     userRevokePolicy,
@@ -78,16 +146,93 @@ export async function compileQuery({
     return actorsToRevoke;
   }
 
+  return {
+    type: "success",
+    entities,
+    permissions,
+    revokeUsers: actorsToRevoke.users,
+    roleChanges,
+    managedSchemas,
+  };
+}
+
+export async function compileQuery(
+  args: CompileQueryArgs,
+): Promise<CompileQueryResult> {
+  const { backend, includeSetupAndTeardown, includeTransaction, incremental } =
+    args;
+
+  const result = await compilePermissions(args);
+  if (result.type !== "success") {
+    return result;
+  }
+
+  const { entities, permissions, revokeUsers, roleChanges, managedSchemas } =
+    result;
+
   const context = await backend.getContext(entities);
 
   const fullQuery = constructFullQuery({
     entities,
     context,
     permissions,
-    revokeUsers: actorsToRevoke.users,
+    revokeUsers,
+    roleChanges,
     includeSetupAndTeardown,
     includeTransaction,
+    incremental,
+    managedSchemas,
   });
 
-  return { type: "success", query: fullQuery };
+  return { type: "success", query: fullQuery, permissions };
+}
+
+export interface CheckPermissionsSuccess {
+  type: "success";
+  changes: PermissionChange[];
+}
+
+export type CheckPermissionsResult =
+  | CheckPermissionsSuccess
+  | CompileQueryError;
+
+export async function checkPermissions(
+  args: CompileQueryArgs,
+): Promise<CheckPermissionsResult> {
+  // Passwords can't be compared, so they're treated like an incremental
+  // update and only set for new roles
+  const result = await compilePermissions({ ...args, incremental: true });
+  if (result.type !== "success") {
+    return result;
+  }
+
+  const { entities, permissions, revokeUsers, roleChanges, managedSchemas } =
+    result;
+
+  const context = await args.backend.getContext(entities);
+  if (!context.diffPermissions) {
+    return {
+      type: "error",
+      errors: ["Backend does not support checking existing permissions"],
+    };
+  }
+
+  if (roleChanges.length > 0 && !context.compileRoleChanges) {
+    return {
+      type: "error",
+      errors: ["Backend does not support managing roles"],
+    };
+  }
+
+  const changes = [
+    ...(context.compileRoleChanges?.(roleChanges) ?? []),
+    ...context.diffPermissions(
+      revokeUsers,
+      permissions,
+      entities,
+      managedSchemas,
+    ),
+  ];
+
+  return { type: "success", changes };
 }
@@ -1,13 +1,32 @@
 import {
   Permission,
+  PermissionChange,
+  RoleChange,
   SQLActor,
+  SQLAggregate,
+  SQLDatabase,
+  SQLDefaultPrivilegeGrant,
+  SQLDomain,
+  SQLForeignDataWrapper,
+  SQLForeignServer,
+  SQLForeignTableMetadata,
   SQLFunction,
   SQLGroup,
+  SQLLanguage,
+  SQLLargeObject,
+  SQLMaterializedView,
+  SQLParameter,
+  SQLPrivilegeGrant,
   SQLProcedure,
+  SQLRole,
+  SQLRoleMembership,
+  SQLRoleSetting,
   SQLRowLevelSecurityPolicy,
   SQLSchema,
   SQLSequence,
   SQLTableMetadata,
+  SQLTablespace,
+  SQLType,
   SQLUser,
   SQLView,
 } from "./sql.js";
@@ -15,13 +34,41 @@ import {
 export interface SQLEntities {
   users: SQLUser[];
   groups: SQLGroup[];
+  /** Roles such as `pg_monitor` that can be granted but aren't managed */
+  predefinedRoles: SQLGroup[];
+  /** Attributes of all roles, including superusers */
+  roles: SQLRole[];
   schemas: SQLSchema[];
   tables: SQLTableMetadata[];
   views: SQLView[];
+  materializedViews: SQLMaterializedView[];
   rlsPolicies: SQLRowLevelSecurityPolicy[];
   functions: SQLFunction[];
   procedures: SQLProcedure[];
+  aggregates: SQLAggregate[];
   sequences: SQLSequence[];
+  types: SQLType[];
+  domains: SQLDomain[];
+  foreignDataWrappers: SQLForeignDataWrapper[];
+  foreignServers: SQLForeignServer[];
+  foreignTables: SQLForeignTableMetadata[];
+  /** Only contains the database that is being managed */
+  databases: SQLDatabase[];
+  /** Empty before PostgreSQL 15, which added parameter privileges */
+  parameters: SQLParameter[];
+  tablespaces: SQLTablespace[];
+  languages: SQLLanguage[];
+  largeObjects: SQLLargeObject[];
+  grants: SQLPrivilegeGrant[];
+  defaultPrivileges: SQLDefaultPrivilegeGrant[];
+  memberships: SQLRoleMembership[];
+  settings: SQLRoleSetting[];
+  /**
+   * `current_user` and `session_user` of the connection, or `null` if
+   * entities weren't read from a database
+   */
+  currentUser: string | null;
+  sessionUser: string | null;
 }
 
 export interface SQLBackendContext {
@@ -29,14 +76,26 @@ export interface SQLBackendContext {
   teardownQuery?: string;
   transactionStartQuery?: string;
   transactionCommitQuery?: string;
+  /**
+   * If `managedSchemas` is passed, only permissions on those schemas and the
+   * objects in them are revoked
+   */
   removeAllPermissionsFromActorsQueries: (
     users: SQLActor[],
     entities: SQLEntities,
+    managedSchemas?: string[],
   ) => string[];
   compileGrantQueries: (
     permissions: Permission[],
     entities: SQLEntities,
   ) => string[];
+  diffPermissions?: (
+    users: SQLActor[],
+    permissions: Permission[],
+    entities: SQLEntities,
+    managedSchemas?: string[],
+  ) => PermissionChange[];
+  compileRoleChanges?: (changes: RoleChange[]) => PermissionChange[];
 }
 
 export interface SQLBackend {
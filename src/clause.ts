@@ -538,6 +538,19 @@ export function evaluateClause({
   return evaluate(clause);
 }
 
+/**
+ * Lists, such as the argument types of a function, are equal if their items
+ * are
+ */
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length && a.every((item, idx) => valuesEqual(item, b[idx]))
+    );
+  }
+  return a === b;
+}
+
 export interface SimpleEvaluatorArgs {
   variableName: string;
   errorVariableName: string;
@@ -576,9 +589,12 @@ export function simpleEvaluator({
     }
     let operatorFunc: (a: unknown, b: unknown) => boolean;
     if (expr.operator === "Eq") {
-      operatorFunc = (a, b) => a === b;
+      operatorFunc = valuesEqual;
     } else if (expr.operator === "Neq") {
-      operatorFunc = (a, b) => a !== b;
+      operatorFunc = (a, b) => !valuesEqual(a, b);
+    } else if (expr.operator === "In") {
+      operatorFunc = (a, b) =>
+        Array.isArray(b) && b.some((item) => valuesEqual(a, item));
     } else if (expr.operator === "Geq") {
       operatorFunc = (a, b) => (a as string | number) >= (b as string | number);
     } else if (expr.operator === "Gt") {
@@ -635,6 +651,83 @@ export function simpleEvaluator({
   return func;
 }
 
+/**
+ * Evaluate a column clause, where the `col` variable refers to the
+ * column name
+ */
+export function evaluateColumnClause(clause: Clause, column: string): boolean {
+  const evaluate = simpleEvaluator({
+    variableName: "col",
+    errorVariableName: "col",
+    getValue: (value) => {
+      if (value.type === "function-call") {
+        throw new ValidationError("col: invalid function call");
+      }
+      if (value.type === "value") {
+        return value.value;
+      }
+      if (value.value === "col") {
+        return column;
+      }
+      throw new ValidationError(`col: invalid clause value: ${value.value}`);
+    },
+  });
+
+  const result = evaluateClause({ clause, evaluate });
+  return result.type === "success" && result.result;
+}
+
+const OperatorSymbols: Partial<Record<PolarOperator, string>> = {
+  Eq: "==",
+  Neq: "!=",
+  Gt: ">",
+  Geq: ">=",
+  Lt: "<",
+  Leq: "<=",
+};
+
+/**
+ * Format a clause in a human-readable, polar-like syntax
+ */
+export function formatClause(clause: Clause): string {
+  const formatNested = (subClause: Clause) => {
+    const out = formatClause(subClause);
+    if (
+      (subClause.type === "and" || subClause.type === "or") &&
+      subClause.clauses.length > 1
+    ) {
+      return `(${out})`;
+    }
+    return out;
+  };
+
+  switch (clause.type) {
+    case "and":
+    case "or":
+      if (clause.clauses.length === 0) {
+        return clause.type === "and" ? "true" : "false";
+      }
+      return clause.clauses.map(formatNested).join(` ${clause.type} `);
+    case "not":
+      return `not ${formatNested(clause.clause)}`;
+    case "expression": {
+      const operator = OperatorSymbols[clause.operator] ?? clause.operator;
+      const [left, right] = clause.values.map(formatClause);
+      return `${left} ${operator} ${right}`;
+    }
+    case "column":
+      return clause.value;
+    case "function-call": {
+      const name = clause.schema
+        ? `${clause.schema}.${clause.name}`
+        : clause.name;
+      return `${name}(${clause.args.map(formatClause).join(", ")})`;
+    }
+    case "value":
+      return JSON.stringify(clause.value);
+  }
+}
+
 export class ValidationError extends Error {
   constructor(readonly message: string) {
     super(message);
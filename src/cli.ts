@@ -4,12 +4,53 @@ import path from "node:path";
 import pg from "pg";
 import yargs from "yargs";
 import { hideBin } from "yargs/helpers";
-import { compileQuery } from "./api.js";
+import {
+  CompileQueryArgs,
+  checkPermissions,
+  compilePermissions,
+  compileQuery,
+} from "./api.js";
+import { SQLBackend } from "./backend.js";
+import { DdlBackend, DdlError } from "./ddl.js";
+import {
+  ExplainError,
+  PermissionSummary,
+  can,
+  explain,
+  formatPermissionSummary,
+  whoCan,
+} from "./explain.js";
+import { importRules } from "./import.js";
 import { OsoError } from "./oso.js";
 import { UserRevokePolicy } from "./parser.js";
 import { PostgresBackend } from "./pg-backend.js";
+import { PlanError, applyPlan, createPlan, parsePlan } from "./plan.js";
+import { RoleDefinition, RolesError, loadRolesFile } from "./roles.js";
+import {
+  SnapshotBackend,
+  SnapshotError,
+  createSnapshot,
+  serializeSnapshot,
+} from "./snapshot.js";
+import { PermissionChangeType, formatRuleSources } from "./sql.js";
 import { PathNotFound, strictGlob } from "./utils.js";
 
+const DriftExitCode = 2;
+
+const changeLabels: Record<PermissionChangeType, string> = {
+  grant: "Missing grant",
+  revoke: "Extra grant",
+  "create-policy": "Missing policy",
+  "drop-policy": "Extra policy",
+  "replace-policy": "Mismatched policy",
+  "set-setting": "Missing setting",
+  "replace-setting": "Mismatched setting",
+  "reset-setting": "Extra setting",
+  "create-role": "Missing role",
+  "alter-role": "Mismatched role",
+  "drop-role": "Extra role",
+};
+
 function parseVar(value: string): [string, unknown] {
   const parts = value.split("=", 2);
   if (parts.length !== 2) {
@@ -29,14 +70,245 @@ function parseVar(value: string): [string, unknown] {
   return [key, outValue];
 }
 
+interface CompileArgs {
+  rules: string[];
+  revokeAll?: boolean;
+  revokeUsers?: string[];
+  allowAnyActor: boolean;
+  var?: string[];
+  varFile?: string[];
+  rolesFile?: string;
+  dropUnmanagedRoles: boolean;
+  propagateToPartitions: boolean;
+  managedSchemas?: string[];
+  incremental: boolean;
+  debug: boolean;
+}
+
+async function getCompileQueryArgs(
+  args: CompileArgs,
+): Promise<Omit<CompileQueryArgs, "backend">> {
+  let userRevokePolicy: UserRevokePolicy;
+  if (args.revokeAll) {
+    userRevokePolicy = { type: "all" };
+  } else if (args.revokeUsers) {
+    userRevokePolicy = { type: "users", users: args.revokeUsers };
+  } else {
+    userRevokePolicy = { type: "referenced" };
+  }
+
+  let rulesPaths: string[];
+  try {
+    rulesPaths = await strictGlob(...args.rules);
+  } catch (error) {
+    if (error instanceof PathNotFound) {
+      console.error("Path not found:", error.path);
+      process.exit(1);
+    }
+    console.error("Unexpected error finding rules files:", error);
+    process.exit(1);
+  }
+
+  if (rulesPaths.length === 0) {
+    console.error(`No rules files matched glob(s): ${args.rules.join(", ")}`);
+    process.exit(1);
+  }
+
+  const vars: Record<string, unknown> = {};
+  let varFiles: string[];
+  try {
+    varFiles = args.varFile ? await strictGlob(...args.varFile) : [];
+  } catch (error) {
+    if (error instanceof PathNotFound) {
+      console.error("Path not found:", error.path);
+      process.exit(1);
+    }
+    console.error("Unexpected error finding variable files:", error);
+    process.exit(1);
+  }
+
+  for (const varFile of varFiles) {
+    if (varFile.endsWith(".json")) {
+      const content = await fs.promises.readFile(varFile, { encoding: "utf8" });
+      let obj: unknown;
+      try {
+        obj = JSON.parse(content);
+      } catch (_) {
+        console.error(`Unable to parse JSON in ${varFile}`);
+        process.exit(1);
+      }
+      Object.assign(vars, obj);
+    } else if (varFile.endsWith(".js")) {
+      const fullPath = path.resolve(varFile);
+      const mod = await import(fullPath);
+      Object.assign(vars, mod);
+    } else {
+      console.error(
+        `Invalid var file: ${varFile}. Extension must be .js or .json`,
+      );
+      process.exit(1);
+    }
+  }
+
+  try {
+    for (const varString of args.var ?? []) {
+      const [key, value] = parseVar(varString);
+      vars[key] = value;
+    }
+  } catch (error) {
+    console.error("Error parsing variables:", error);
+    process.exit(1);
+  }
+
+  let roles: RoleDefinition[] | undefined;
+  if (args.rolesFile) {
+    try {
+      roles = await loadRolesFile(args.rolesFile);
+    } catch (error) {
+      if (error instanceof RolesError) {
+        console.error(error.message);
+        process.exit(1);
+      }
+      console.error("Unexpected error loading roles file:", error);
+      process.exit(1);
+    }
+  }
+
+  return {
+    paths: rulesPaths,
+    userRevokePolicy,
+    allowAnyActor: args.allowAnyActor,
+    roles,
+    dropUnmanagedRoles: args.dropUnmanagedRoles,
+    propagateToPartitions: args.propagateToPartitions,
+    managedSchemas: args.managedSchemas,
+    incremental: args.incremental,
+    debug: args.debug,
+    vars: { var: vars },
+  };
+}
+
+async function connect(databaseUrlArg?: string): Promise<pg.Client> {
+  if (!databaseUrlArg) {
+    console.error("No database URL specified. Use --database-url to set one");
+    process.exit(1);
+  }
+
+  const envVariablePrefix = "env:";
+  let databaseUrl: string;
+  if (databaseUrlArg.startsWith(envVariablePrefix)) {
+    const envVariableName = databaseUrlArg.slice(envVariablePrefix.length);
+    const envVariable = process.env[envVariableName];
+    if (!envVariable) {
+      console.error(
+        `Invalid environment variable specified for databaseUrl: ${envVariableName}`,
+      );
+      process.exit(1);
+    }
+    databaseUrl = envVariable;
+  } else {
+    databaseUrl = databaseUrlArg;
+  }
+
+  const client = new pg.Client(databaseUrl);
+  try {
+    await client.connect();
+  } catch (error) {
+    console.error(`Could not connect to database at '${databaseUrl}':`, error);
+    process.exit(1);
+  }
+
+  // Privileges that can't be revoked are reported as warnings by the revoke
+  // queries, and left in place
+  client.on("notice", (notice) => {
+    if (notice.severity === "WARNING") {
+      console.warn(`Warning: ${notice.message}`);
+    }
+  });
+
+  return client;
+}
+
+interface BackendArgs {
+  databaseUrl?: string;
+  entitiesFile?: string;
+  ddl?: string[];
+  inlineRevoke?: boolean;
+}
+
+interface CliBackend {
+  backend: SQLBackend;
+  /** `null` when entities are read from a snapshot or DDL files */
+  client: pg.Client | null;
+}
+
+async function getBackend(args: BackendArgs): Promise<CliBackend> {
+  const options = { inlineRevoke: args.inlineRevoke };
+  if (args.ddl) {
+    let paths: string[];
+    try {
+      paths = await strictGlob(...args.ddl);
+    } catch (error) {
+      if (error instanceof PathNotFound) {
+        console.error("Path not found:", error.path);
+        process.exit(1);
+      }
+      console.error("Unexpected error finding DDL files:", error);
+      process.exit(1);
+    }
+    return {
+      backend: new DdlBackend(paths, new PostgresBackend(undefined, options)),
+      client: null,
+    };
+  }
+
+  if (args.entitiesFile) {
+    if (!fs.existsSync(args.entitiesFile)) {
+      console.error("Path not found:", args.entitiesFile);
+      process.exit(1);
+    }
+    return {
+      backend: new SnapshotBackend(
+        args.entitiesFile,
+        new PostgresBackend(undefined, options),
+      ),
+      client: null,
+    };
+  }
+
+  const client = await connect(args.databaseUrl);
+  return { backend: new PostgresBackend(client, options), client };
+}
+
+function printPermissionSummaries(summaries: PermissionSummary[]): void {
+  for (const summary of summaries) {
+    console.log(formatPermissionSummary(summary));
+  }
+}
+
+function handleError(error: unknown): never {
+  if (error instanceof OsoError) {
+    console.error("Error loading rules:", error);
+  } else if (
+    error instanceof PlanError ||
+    error instanceof ExplainError ||
+    error instanceof SnapshotError ||
+    error instanceof DdlError
+  ) {
+    console.error(error.message);
+  } else {
+    console.error("Unexpected error:", error);
+  }
+  process.exit(1);
+}
+
 async function main() {
   if (!process.env.NO_DOTENV) {
     await import("dotenv/config");
   }
 
-  const args = await yargs(hideBin(process.argv))
+  await yargs(hideBin(process.argv))
     .scriptName("sqlauthz")
-    .usage("$0 [args]", "Declaratively manage PostgreSQL permissions")
     .option("rules", {
       alias: "r",
       type: "string",
@@ -54,7 +326,24 @@ async function main() {
         "Database URL to connect to. Note that you can " +
         "specify a value with the format with env:<name> to " +
         "read this from a specified environment variable.",
-      demandOption: true,
+    })
+    .option("entities-file", {
+      type: "string",
+      description:
+        "Read database objects and permissions from a file created by " +
+        "`sqlauthz snapshot` instead of connecting to a database. Can be " +
+        "used to compile and check rules without database access.",
+      conflicts: ["ddl"],
+    })
+    .option("ddl", {
+      type: "string",
+      array: true,
+      description:
+        "Read database objects from SQL files containing CREATE statements, " +
+        "such as a schema dump or a directory of migrations, instead of " +
+        "connecting to a database. Directories are read recursively, in " +
+        "order of file name. Globs are supported.",
+      conflicts: ["entities-file"],
     })
     .option("revoke-referenced", {
       type: "boolean",
@@ -109,6 +398,54 @@ async function main() {
         "and the exports will be available in your rules files as " +
         "var.<name>.",
     })
+    .option("roles-file", {
+      type: "string",
+      description:
+        "JSON file defining roles that should exist, and their attributes. " +
+        "Missing roles are created and attributes that differ are altered " +
+        "in the same transaction as the grants.",
+    })
+    .option("drop-unmanaged-roles", {
+      type: "boolean",
+      description:
+        "Drop roles other than superusers that aren't defined in " +
+        "--roles-file. Objects they own are reassigned to the current user.",
+      default: false,
+    })
+    .option("propagate-to-partitions", {
+      type: "boolean",
+      description:
+        "Grant permissions on partitioned tables, including row-level " +
+        "security policies, on each of their current partitions as well. " +
+        "Partitions created later only get permissions the next time " +
+        "sqlauthz runs.",
+      default: false,
+    })
+    .option("managed-schemas", {
+      type: "string",
+      array: true,
+      description:
+        "Only revoke and grant permissions on these schemas and the " +
+        "objects in them, leaving permissions elsewhere untouched. Rules " +
+        "that grant permissions outside of them are errors.",
+    })
+    .option("incremental", {
+      type: "boolean",
+      description:
+        "Compare the desired permissions with the privileges and row-level " +
+        "security policies that currently exist, and only run the statements " +
+        "needed to reconcile them instead of revoking and re-granting " +
+        "everything.",
+      default: false,
+    })
+    .option("inline-revoke", {
+      type: "boolean",
+      description:
+        "Revoke existing permissions with an inline DO block instead of " +
+        "creating a function in a temporary schema, so that CREATE " +
+        "privileges on the database aren't required.",
+      default: false,
+    })
     .option("dry-run", {
       type: "boolean",
       description:
@@ -127,149 +464,388 @@ async function main() {
       description: "Print more detailed error information for debugging issues",
       default: false,
     })
-    .pkgConf("sqlauthz")
-    .env("SQLAUTHZ")
-    .strict()
-    .parseAsync();
+    .command(
+      "$0",
+      "Declaratively manage PostgreSQL permissions",
+      (yargs) => yargs,
+      async (args) => {
+        const compileArgs = await getCompileQueryArgs(args);
+        if (
+          (args.entitiesFile || args.ddl) &&
+          !args.dryRun &&
+          !args.dryRunShort
+        ) {
+          console.error(
+            "--entities-file and --ddl can only be used with --dry-run or --dry-run-short",
+          );
+          process.exit(1);
+        }
+        const { backend, client } = await getBackend(args);
 
-  let userRevokePolicy: UserRevokePolicy;
-  if (args.revokeAll) {
-    userRevokePolicy = { type: "all" };
-  } else if (args.revokeUsers) {
-    userRevokePolicy = { type: "users", users: args.revokeUsers };
-  } else {
-    userRevokePolicy = { type: "referenced" };
-  }
+        try {
+          const query = await compileQuery({
+            backend,
+            includeSetupAndTeardown: !args.dryRunShort,
+            includeTransaction: !args.dryRunShort,
+            ...compileArgs,
+          });
+          if (query.type !== "success") {
+            console.error("Unable to compile permission queries. Errors:");
+            for (const error of query.errors) {
+              console.error(error);
+            }
+            process.exit(1);
+          }
 
-  let rulesPaths: string[];
-  try {
-    rulesPaths = await strictGlob(...args.rules);
-  } catch (error) {
-    if (error instanceof PathNotFound) {
-      console.error("Path not found:", error.path);
-      process.exit(1);
-    }
-    console.error("Unexpected error finding rules files:", error);
-    process.exit(1);
-  }
+          if (args.dryRun || args.dryRunShort) {
+            if (query.query) {
+              console.log(query.query);
+            } else {
+              console.log("No permissions granted to any users");
+            }
+            return;
+          }
 
-  if (rulesPaths.length === 0) {
-    console.error(`No rules files matched glob(s): ${args.rules.join(", ")}`);
-    process.exit(1);
-  }
+          await client!.query(query.query);
+          console.log("Permissions updated successfully");
+        } catch (error) {
+          handleError(error);
+        } finally {
+          await client?.end();
+        }
+      },
+    )
+    .command(
+      "check",
+      `Compare the permissions defined by your rules with the permissions that currently exist. Exits with code ${DriftExitCode} if they differ`,
+      (yargs) => yargs,
+      async (args) => {
+        const compileArgs = await getCompileQueryArgs(args);
+        const { backend, client } = await getBackend(args);
 
-  const vars: Record<string, unknown> = {};
-  let varFiles: string[];
-  try {
-    varFiles = args.varFile ? await strictGlob(...args.varFile) : [];
-  } catch (error) {
-    if (error instanceof PathNotFound) {
-      console.error("Path not found:", error.path);
-      process.exit(1);
-    }
-    console.error("Unexpected error finding variable files:", error);
-    process.exit(1);
-  }
+        try {
+          const result = await checkPermissions({ backend, ...compileArgs });
+          if (result.type !== "success") {
+            console.error("Unable to compile permission queries. Errors:");
+            for (const error of result.errors) {
+              console.error(error);
+            }
+            process.exit(1);
+          }
 
-  for (const varFile of varFiles) {
-    if (varFile.endsWith(".json")) {
-      const content = await fs.promises.readFile(varFile, { encoding: "utf8" });
-      let obj: unknown;
-      try {
-        obj = JSON.parse(content);
-      } catch (_) {
-        console.error(`Unable to parse JSON in ${varFile}`);
-        process.exit(1);
-      }
-      Object.assign(vars, obj);
-    } else if (varFile.endsWith(".js")) {
-      const fullPath = path.resolve(varFile);
-      const mod = await import(fullPath);
-      Object.assign(vars, mod);
-    } else {
-      console.error(
-        `Invalid var file: ${varFile}. Extension must be .js or .json`,
-      );
-      process.exit(1);
-    }
-  }
+          if (result.changes.length === 0) {
+            console.log("Permissions are up to date");
+            return;
+          }
 
-  try {
-    for (const varString of args.var ?? []) {
-      const [key, value] = parseVar(varString);
-      vars[key] = value;
-    }
-  } catch (error) {
-    console.error("Error parsing variables:", error);
-    process.exit(1);
-  }
+          for (const change of result.changes) {
+            let line = `${changeLabels[change.type]}: ${change.description}`;
+            if (change.sources && change.sources.length > 0) {
+              line += ` (${formatRuleSources(change.sources)})`;
+            }
+            console.log(line);
+          }
+          console.log(
+            `Found ${result.changes.length} difference(s) between rules and existing permissions`,
+          );
+          process.exitCode = DriftExitCode;
+        } catch (error) {
+          handleError(error);
+        } finally {
+          await client?.end();
+        }
+      },
+    )
+    .command(
+      "plan",
+      "Compile permissions and write the resulting SQL to a plan file " +
+        "that can be run later with `apply`",
+      (yargs) =>
+        yargs.option("out", {
+          alias: "o",
+          type: "string",
+          description: "Path to write the plan file to",
+          demandOption: true,
+        }),
+      async (args) => {
+        const compileArgs = await getCompileQueryArgs(args);
+        if (args.ddl) {
+          console.error(
+            "--ddl can't be used with plan, since the plan could never be applied",
+          );
+          process.exit(1);
+        }
+        const { backend, client } = await getBackend(args);
 
-  const envVariablePrefix = "env:";
-  let databaseUrl: string;
-  if (args.databaseUrl.startsWith(envVariablePrefix)) {
-    const envVariableName = args.databaseUrl.slice(envVariablePrefix.length);
-    const envVariable = process.env[envVariableName];
-    if (!envVariable) {
-      console.error(
-        `Invalid environment variable specified for databaseUrl: ${envVariableName}`,
-      );
-      process.exit(1);
-    }
-    databaseUrl = envVariable;
-  } else {
-    databaseUrl = args.databaseUrl;
-  }
+        try {
+          const result = await createPlan({ backend, ...compileArgs });
+          if (result.type !== "success") {
+            console.error("Unable to compile permission queries. Errors:");
+            for (const error of result.errors) {
+              console.error(error);
+            }
+            process.exit(1);
+          }
 
-  const client = new pg.Client(databaseUrl);
-  try {
-    await client.connect();
-  } catch (error) {
-    console.error(`Could not connect to database at '${databaseUrl}':`, error);
-    process.exit(1);
-  }
+          await fs.promises.writeFile(
+            args.out,
+            JSON.stringify(result.plan, null, 2),
+          );
+          console.log(result.plan.query);
+          console.log(`Plan written to ${args.out}`);
+        } catch (error) {
+          handleError(error);
+        } finally {
+          await client?.end();
+        }
+      },
+    )
+    .command(
+      "apply <plan>",
+      "Run a plan file created by `plan`. Fails if database objects or " +
+        "permissions have changed since the plan was created",
+      (yargs) =>
+        yargs.positional("plan", {
+          type: "string",
+          description: "Path to a plan file created by `plan`",
+          demandOption: true,
+        }),
+      async (args) => {
+        if (!fs.existsSync(args.plan)) {
+          console.error("Path not found:", args.plan);
+          process.exit(1);
+        }
+        const content = await fs.promises.readFile(args.plan, {
+          encoding: "utf8",
+        });
 
-  const backend = new PostgresBackend(client);
+        const client = await connect(args.databaseUrl);
 
-  try {
-    const query = await compileQuery({
-      backend,
-      paths: rulesPaths,
-      userRevokePolicy,
-      allowAnyActor: args.allowAnyActor,
-      includeSetupAndTeardown: !args.dryRunShort,
-      includeTransaction: !args.dryRunShort,
-      debug: args.debug,
-      vars: { var: vars },
-    });
-    if (query.type !== "success") {
-      console.error("Unable to compile permission queries. Errors:");
-      for (const error of query.errors) {
-        console.error(error);
-      }
-      process.exit(1);
-    }
+        try {
+          const plan = parsePlan(content);
+          await applyPlan({ client, plan });
+          console.log("Permissions updated successfully");
+        } catch (error) {
+          handleError(error);
+        } finally {
+          await client.end();
+        }
+      },
+    )
+    .command(
+      "import",
+      "Generate rules that reproduce the privileges and row-level security " +
+        "policies that currently exist in the database",
+      (yargs) =>
+        yargs.option("out", {
+          alias: "o",
+          type: "string",
+          description:
+            "Path to write the generated rules to. If not specified, they " +
+            "will be printed",
+        }),
+      async (args) => {
+        const { backend, client } = await getBackend(args);
 
-    if (args.dryRun || args.dryRunShort) {
-      if (query.query) {
-        console.log(query.query);
-      } else {
-        console.log("No permissions granted to any users");
-      }
-      return;
-    }
+        try {
+          const result = await importRules({ backend });
+          for (const warning of result.warnings) {
+            console.error(`Warning: ${warning}`);
+          }
 
-    await client.query(query.query);
-    console.log("Permissions updated successfully");
-  } catch (error) {
-    if (error instanceof OsoError) {
-      console.error("Error loading rules:", error);
-    } else {
-      console.error("Unexpected error:", error);
-    }
-    process.exit(1);
-  } finally {
-    await client.end();
-  }
+          if (args.out) {
+            await fs.promises.writeFile(args.out, result.rules);
+            console.log(`Rules written to ${args.out}`);
+          } else {
+            process.stdout.write(result.rules);
+          }
+        } catch (error) {
+          handleError(error);
+        } finally {
+          await client?.end();
+        }
+      },
+    )
+    .command(
+      "snapshot",
+      "Save the database objects and permissions that sqlauthz reads from " +
+        "the database to a file that can be used with --entities-file",
+      (yargs) =>
+        yargs.option("out", {
+          alias: "o",
+          type: "string",
+          description:
+            "Path to write the snapshot to. If not specified, it will be " +
+            "printed",
+        }),
+      async (args) => {
+        const client = await connect(args.databaseUrl);
+        const backend = new PostgresBackend(client);
+
+        try {
+          const snapshot = await createSnapshot({ backend });
+          const content = serializeSnapshot(snapshot);
+
+          if (args.out) {
+            await fs.promises.writeFile(args.out, content);
+            console.log(`Snapshot written to ${args.out}`);
+          } else {
+            console.log(content);
+          }
+        } catch (error) {
+          handleError(error);
+        } finally {
+          await client.end();
+        }
+      },
+    )
+    .command(
+      "who-can <privilege> <object>",
+      "List every user or group that has a privilege on a database object " +
+        "according to your rules",
+      (yargs) =>
+        yargs
+          .positional("privilege", {
+            type: "string",
+            description: "Privilege to look up e.g. select",
+            demandOption: true,
+          })
+          .positional("object", {
+            type: "string",
+            description:
+              "Schema-qualified name of the object, or the name of a schema",
+            demandOption: true,
+          }),
+      async (args) => {
+        const compileArgs = await getCompileQueryArgs(args);
+        const { backend, client } = await getBackend(args);
+
+        try {
+          const result = await compilePermissions({ backend, ...compileArgs });
+          if (result.type !== "success") {
+            console.error("Unable to compile permissions. Errors:");
+            for (const error of result.errors) {
+              console.error(error);
+            }
+            process.exit(1);
+          }
+
+          const summaries = whoCan({
+            permissions: result.permissions,
+            entities: result.entities,
+            privilege: args.privilege,
+            object: args.object,
+          });
+          if (summaries.length === 0) {
+            console.log(
+              `No users or groups have ${args.privilege} on ${args.object}`,
+            );
+            return;
+          }
+          printPermissionSummaries(summaries);
+        } catch (error) {
+          handleError(error);
+        } finally {
+          await client?.end();
+        }
+      },
+    )
+    .command(
+      "can <actor> <privilege> <object>",
+      "Check whether a user or group has a privilege on a database object " +
+        "according to your rules",
+      (yargs) =>
+        yargs
+          .positional("actor", {
+            type: "string",
+            description: "Name of the user or group",
+            demandOption: true,
+          })
+          .positional("privilege", {
+            type: "string",
+            description: "Privilege to look up e.g. select",
+            demandOption: true,
+          })
+          .positional("object", {
+            type: "string",
+            description:
+              "Schema-qualified name of the object, or the name of a schema",
+            demandOption: true,
+          }),
+      async (args) => {
+        const compileArgs = await getCompileQueryArgs(args);
+        const { backend, client } = await getBackend(args);
+
+        try {
+          const result = await compilePermissions({ backend, ...compileArgs });
+          if (result.type !== "success") {
+            console.error("Unable to compile permissions. Errors:");
+            for (const error of result.errors) {
+              console.error(error);
+            }
+            process.exit(1);
+          }
+
+          const canResult = can({
+            permissions: result.permissions,
+            entities: result.entities,
+            actor: args.actor,
+            privilege: args.privilege,
+            object: args.object,
+          });
+          console.log(canResult.access);
+          printPermissionSummaries(canResult.permissions);
+        } catch (error) {
+          handleError(error);
+        } finally {
+          await client?.end();
+        }
+      },
+    )
+    .command(
+      "explain <actor>",
+      "List every privilege that a user or group gets from your rules",
+      (yargs) =>
+        yargs.positional("actor", {
+          type: "string",
+          description: "Name of the user or group",
+          demandOption: true,
+        }),
+      async (args) => {
+        const compileArgs = await getCompileQueryArgs(args);
+        const { backend, client } = await getBackend(args);
+
+        try {
+          const result = await compilePermissions({ backend, ...compileArgs });
+          if (result.type !== "success") {
+            console.error("Unable to compile permissions. Errors:");
+            for (const error of result.errors) {
+              console.error(error);
+            }
+            process.exit(1);
+          }
+
+          const summaries = explain({
+            permissions: result.permissions,
+            entities: result.entities,
+            actor: args.actor,
+          });
+          if (summaries.length === 0) {
+            console.log(`No privileges granted to ${args.actor}`);
+            return;
+          }
+          printPermissionSummaries(summaries);
+        } catch (error) {
+          handleError(error);
+        } finally {
+          await client?.end();
+        }
+      },
+    )
+    .pkgConf("sqlauthz")
+    .env("SQLAUTHZ")
+    .strict()
+    .parseAsync();
 }
 
 main();
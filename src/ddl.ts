@@ -0,0 +1,1951 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fdir } from "fdir";
+import { SQLBackend, SQLBackendContext, SQLEntities } from "./backend.js";
+import { PostgresBackend } from "./pg-backend.js";
+import { parseValidUntil } from "./roles.js";
+import {
+  SQLAggregate,
+  SQLDatabase,
+  SQLDomain,
+  SQLForeignDataWrapper,
+  SQLForeignServer,
+  SQLForeignTableMetadata,
+  SQLFunction,
+  SQLGroup,
+  SQLLanguage,
+  SQLMaterializedView,
+  SQLProcedure,
+  SQLRole,
+  SQLRoleAttributes,
+  SQLRowLevelSecurityPolicy,
+  SQLRowLevelSecurityPolicyPrivilege,
+  SQLRowLevelSecurityPolicyPrivileges,
+  SQLSchema,
+  SQLSequence,
+  SQLTable,
+  SQLTableMetadata,
+  SQLTablespace,
+  SQLType,
+  SQLUser,
+  SQLView,
+  formatQualifiedName,
+  formatSignature,
+} from "./sql.js";
+
+export interface DdlSource {
+  file: string;
+  content: string;
+}
+
+interface DdlToken {
+  type: "ident" | "quoted" | "string" | "number" | "op";
+  value: string;
+  start: number;
+  end: number;
+  line: number;
+}
+
+interface DdlStatement {
+  file: string;
+  sql: string;
+  tokens: DdlToken[];
+}
+
+interface DdlRole extends SQLRoleAttributes {
+  name: string;
+  superuser: boolean;
+  memberOf: Set<string>;
+}
+
+interface DdlSequence extends SQLSequence {
+  ownedBy: string | null;
+}
+
+type DdlRoutine = SQLFunction | SQLProcedure | SQLAggregate;
+
+interface DdlPolicy
+  extends Omit<SQLRowLevelSecurityPolicy, "users" | "groups"> {
+  roles: string[];
+}
+
+/** Object that isn't contained in a schema, other than a schema or role */
+type DdlTopLevelObject =
+  | SQLForeignDataWrapper
+  | SQLForeignServer
+  | SQLDatabase
+  | SQLTablespace
+  | SQLLanguage;
+
+/** Object in a schema that's kept in its own map by name */
+type DdlSchemaObject =
+  | SQLView
+  | SQLMaterializedView
+  | DdlSequence
+  | SQLType
+  | SQLDomain;
+
+interface DdlState {
+  schema: string;
+  roles: Map<string, DdlRole>;
+  schemas: Map<string, SQLSchema>;
+  tables: Map<string, SQLTableMetadata>;
+  views: Map<string, SQLView>;
+  materializedViews: Map<string, SQLMaterializedView>;
+  sequences: Map<string, DdlSequence>;
+  types: Map<string, SQLType>;
+  domains: Map<string, SQLDomain>;
+  foreignDataWrappers: Map<string, SQLForeignDataWrapper>;
+  foreignServers: Map<string, SQLForeignServer>;
+  foreignTables: Map<string, SQLForeignTableMetadata>;
+  databases: Map<string, SQLDatabase>;
+  tablespaces: Map<string, SQLTablespace>;
+  languages: Map<string, SQLLanguage>;
+  routines: DdlRoutine[];
+  policies: Map<string, DdlPolicy>;
+}
+
+const SerialTypes = new Set([
+  "serial",
+  "serial2",
+  "serial4",
+  "serial8",
+  "smallserial",
+  "bigserial",
+]);
+
+const TableConstraintKeywords = new Set([
+  "constraint",
+  "primary",
+  "unique",
+  "check",
+  "foreign",
+  "exclude",
+]);
+
+/**
+ * Roles that PostgreSQL creates in every cluster and that can be granted to
+ * other roles. Not every version has all of them.
+ */
+const PredefinedRoles = [
+  "pg_read_all_data",
+  "pg_write_all_data",
+  "pg_read_all_settings",
+  "pg_read_all_stats",
+  "pg_stat_scan_tables",
+  "pg_monitor",
+  "pg_signal_backend",
+  "pg_read_server_files",
+  "pg_write_server_files",
+  "pg_execute_server_program",
+  "pg_checkpoint",
+  "pg_maintain",
+  "pg_use_reserved_connections",
+  "pg_create_subscription",
+];
+
+const StringPattern = /[Ee]'(?:[^'\\]|\\.|'')*'|'(?:[^']|'')*'/y;
+const DollarQuotePattern = /\$([A-Za-z_][A-Za-z0-9_]*)?\$/y;
+const QuotedIdentPattern = /"(?:[^"]|"")*"/y;
+const IdentPattern = /[A-Za-z_\u0080-\uffff][A-Za-z0-9_$\u0080-\uffff]*/y;
+const NumberPattern = /\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|\.\d+/y;
+const OperatorPattern = /::|<>|!=|<=|>=|[^\sA-Za-z0-9_]/y;
+
+function countLines(text: string): number {
+  let count = 0;
+  for (const char of text) {
+    if (char === "\n") {
+      count++;
+    }
+  }
+  return count;
+}
+
+function tokenizeDdl({ file, content }: DdlSource): DdlToken[] {
+  const tokens: DdlToken[] = [];
+  let idx = 0;
+  let line = 1;
+  let lineStart = true;
+
+  const error = (message: string) =>
+    new DdlError(`${file}:${line}: ${message}`);
+
+  const match = (pattern: RegExp): string | null => {
+    pattern.lastIndex = idx;
+    const result = pattern.exec(content);
+    return result ? result[0] : null;
+  };
+
+  while (idx < content.length) {
+    const char = content[idx]!;
+    if (char === "\n") {
+      line++;
+      idx++;
+      lineStart = true;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      idx++;
+      continue;
+    }
+    // psql meta-commands, such as those in the output of pg_dump
+    if (lineStart && char === "\\") {
+      const end = content.indexOf("\n", idx);
+      idx = end === -1 ? content.length : end;
+      continue;
+    }
+    lineStart = false;
+
+    if (content.startsWith("--", idx)) {
+      const end = content.indexOf("\n", idx);
+      idx = end === -1 ? content.length : end;
+      continue;
+    }
+    if (content.startsWith("/*", idx)) {
+      let depth = 0;
+      let end = idx;
+      while (end < content.length) {
+        if (content.startsWith("/*", end)) {
+          depth++;
+          end += 2;
+        } else if (content.startsWith("*/", end)) {
+          depth--;
+          end += 2;
+          if (depth === 0) {
+            break;
+          }
+        } else {
+          end++;
+        }
+      }
+      if (depth !== 0) {
+        throw error("Unterminated comment");
+      }
+      line += countLines(content.slice(idx, end));
+      idx = end;
+      continue;
+    }
+
+    const push = (type: DdlToken["type"], text: string, value: string) => {
+      tokens.push({ type, value, start: idx, end: idx + text.length, line });
+      idx += text.length;
+      line += countLines(text);
+    };
+
+    const string = match(StringPattern);
+    if (string) {
+      const quote = string.indexOf("'");
+      push("string", string, string.slice(quote + 1, -1).replaceAll("''", "'"));
+      continue;
+    }
+    const dollarQuote = match(DollarQuotePattern);
+    if (dollarQuote) {
+      const end = content.indexOf(dollarQuote, idx + dollarQuote.length);
+      if (end === -1) {
+        throw error("Unterminated dollar-quoted string");
+      }
+      const text = content.slice(idx, end + dollarQuote.length);
+      push("string", text, text.slice(dollarQuote.length, -dollarQuote.length));
+      continue;
+    }
+    const quoted = match(QuotedIdentPattern);
+    if (quoted) {
+      push("quoted", quoted, quoted.slice(1, -1).replaceAll('""', '"'));
+      continue;
+    }
+    const ident = match(IdentPattern);
+    if (ident) {
+      push("ident", ident, ident.toLowerCase());
+      continue;
+    }
+    const number = match(NumberPattern);
+    if (number) {
+      push("number", number, number);
+      continue;
+    }
+    if (char === "'" || char === '"') {
+      throw error("Unterminated quoted string");
+    }
+    const op = match(OperatorPattern)!;
+    push("op", op, op);
+  }
+
+  return tokens;
+}
+
+function splitStatements(source: DdlSource): DdlStatement[] {
+  const tokens = tokenizeDdl(source);
+  const statements: DdlStatement[] = [];
+  let current: DdlToken[] = [];
+  // Depth of `BEGIN ATOMIC ... END` function bodies, which contain semicolons
+  let depth = 0;
+
+  const isKeyword = (token: DdlToken | undefined, value: string) =>
+    token?.type === "ident" && token.value === value;
+
+  for (const [idx, token] of tokens.entries()) {
+    if (isKeyword(token, "begin") && isKeyword(tokens[idx + 1], "atomic")) {
+      depth++;
+    } else if (depth > 0 && isKeyword(token, "case")) {
+      depth++;
+    } else if (depth > 0 && isKeyword(token, "end")) {
+      depth--;
+    }
+
+    if (depth === 0 && token.type === "op" && token.value === ";") {
+      if (current.length > 0) {
+        statements.push({
+          file: source.file,
+          sql: source.content,
+          tokens: current,
+        });
+      }
+      current = [];
+      continue;
+    }
+    current.push(token);
+  }
+  if (current.length > 0) {
+    statements.push({
+      file: source.file,
+      sql: source.content,
+      tokens: current,
+    });
+  }
+
+  return statements;
+}
+
+function relationKey(schema: string, name: string): string {
+  return formatQualifiedName(schema, name);
+}
+
+function policyKey(table: SQLTable, name: string): string {
+  return `${relationKey(table.schema, table.name)}.${name}`;
+}
+
+function createParser(
+  statement: DdlStatement,
+  defaultSchema: string,
+  tokens: DdlToken[] = statement.tokens,
+) {
+  let pos = 0;
+
+  const error = () => {
+    const token =
+      tokens[Math.min(pos, tokens.length - 1)] ?? statement.tokens[0]!;
+    const first = statement.tokens[0]!;
+    const last = statement.tokens[statement.tokens.length - 1]!;
+    const text = statement.sql.slice(first.start, last.end).split("\n")[0];
+    return new DdlError(
+      `${statement.file}:${token.line}: Unable to parse statement: ${text}`,
+    );
+  };
+
+  const peek = (offset = 0): DdlToken | undefined => tokens[pos + offset];
+  const atEnd = () => pos >= tokens.length;
+  const rest = () => tokens.slice(pos);
+  const skip = () => {
+    pos++;
+  };
+
+  const isKeyword = (value: string, offset = 0) => {
+    const token = peek(offset);
+    return token?.type === "ident" && token.value === value;
+  };
+  const isOp = (value: string) => {
+    const token = peek();
+    return token?.type === "op" && token.value === value;
+  };
+  const acceptKeywords = (...values: string[]): boolean => {
+    if (!values.every((value, offset) => isKeyword(value, offset))) {
+      return false;
+    }
+    pos += values.length;
+    return true;
+  };
+  const expectKeywords = (...values: string[]) => {
+    if (!acceptKeywords(...values)) {
+      throw error();
+    }
+  };
+  const acceptOp = (value: string): boolean => {
+    if (!isOp(value)) {
+      return false;
+    }
+    pos++;
+    return true;
+  };
+  const expectOp = (value: string) => {
+    if (!acceptOp(value)) {
+      throw error();
+    }
+  };
+
+  const parseName = (): string => {
+    const token = peek();
+    if (token?.type !== "ident" && token?.type !== "quoted") {
+      throw error();
+    }
+    pos++;
+    return token.value;
+  };
+  const parseNameList = (): string[] => {
+    const names = [parseName()];
+    while (acceptOp(",")) {
+      names.push(parseName());
+    }
+    return names;
+  };
+  const parseDottedName = (): string[] => {
+    const parts = [parseName()];
+    while (acceptOp(".")) {
+      parts.push(parseName());
+    }
+    return parts;
+  };
+  const parseQualifiedName = (): [string, string] => {
+    const parts = parseDottedName();
+    if (parts.length === 1) {
+      return [defaultSchema, parts[0]!];
+    }
+    if (parts.length === 2) {
+      return [parts[0]!, parts[1]!];
+    }
+    throw error();
+  };
+  const parseQualifiedNameList = (): [string, string][] => {
+    const names = [parseQualifiedName()];
+    while (acceptOp(",")) {
+      names.push(parseQualifiedName());
+    }
+    return names;
+  };
+
+  // Splits tokens on commas that are not nested in parentheses, until an
+  // unmatched closing parenthesis or the end of the statement
+  const parseItems = (): DdlToken[][] => {
+    const items: DdlToken[][] = [[]];
+    let depth = 0;
+    while (!atEnd()) {
+      const token = peek()!;
+      if (token.type === "op" && (token.value === "(" || token.value === "[")) {
+        depth++;
+      } else if (
+        token.type === "op" &&
+        (token.value === ")" || token.value === "]")
+      ) {
+        if (depth === 0) {
+          break;
+        }
+        depth--;
+      } else if (token.type === "op" && token.value === "," && depth === 0) {
+        items.push([]);
+        pos++;
+        continue;
+      }
+      items[items.length - 1]!.push(token);
+      pos++;
+    }
+    return items.filter((item) => item.length > 0);
+  };
+  const parseParenthesizedItems = (): DdlToken[][] => {
+    expectOp("(");
+    const items = parseItems();
+    expectOp(")");
+    return items;
+  };
+  const parseParenthesizedText = (): string => {
+    const open = peek();
+    parseParenthesizedItems();
+    const close = tokens[pos - 1]!;
+    return statement.sql.slice(open!.end, close.start).trim();
+  };
+
+  const subParser = (items: DdlToken[]) =>
+    createParser(statement, defaultSchema, items);
+
+  return {
+    error,
+    peek,
+    atEnd,
+    rest,
+    skip,
+    isKeyword,
+    isOp,
+    acceptKeywords,
+    expectKeywords,
+    acceptOp,
+    expectOp,
+    parseName,
+    parseNameList,
+    parseDottedName,
+    parseQualifiedName,
+    parseQualifiedNameList,
+    parseItems,
+    parseParenthesizedItems,
+    parseParenthesizedText,
+    subParser,
+  };
+}
+
+type DdlParser = ReturnType<typeof createParser>;
+
+function getRole(state: DdlState, name: string): DdlRole {
+  let role = state.roles.get(name);
+  if (!role) {
+    role = {
+      name,
+      login: false,
+      superuser: false,
+      connectionLimit: -1,
+      validUntil: null,
+      bypassRls: false,
+      createDb: false,
+      memberOf: new Set(),
+    };
+    state.roles.set(name, role);
+  }
+  return role;
+}
+
+/**
+ * Parse a role name, returning `undefined` for roles that depend on the
+ * session, e.g. CURRENT_USER
+ */
+function parseRoleSpec(parser: DdlParser): string | undefined {
+  if (
+    parser.acceptKeywords("current_user") ||
+    parser.acceptKeywords("current_role") ||
+    parser.acceptKeywords("session_user")
+  ) {
+    return undefined;
+  }
+  return parser.parseName();
+}
+
+function parseRoleOptions(state: DdlState, parser: DdlParser, role: DdlRole) {
+  parser.acceptKeywords("with");
+  while (!parser.atEnd()) {
+    if (parser.acceptKeywords("login")) {
+      role.login = true;
+    } else if (parser.acceptKeywords("nologin")) {
+      role.login = false;
+    } else if (parser.acceptKeywords("superuser")) {
+      role.superuser = true;
+    } else if (parser.acceptKeywords("nosuperuser")) {
+      role.superuser = false;
+    } else if (parser.acceptKeywords("bypassrls")) {
+      role.bypassRls = true;
+    } else if (parser.acceptKeywords("nobypassrls")) {
+      role.bypassRls = false;
+    } else if (parser.acceptKeywords("createdb")) {
+      role.createDb = true;
+    } else if (parser.acceptKeywords("nocreatedb")) {
+      role.createDb = false;
+    } else if (parser.acceptKeywords("connection", "limit")) {
+      const negative = parser.acceptOp("-");
+      const token = parser.peek();
+      if (token?.type !== "number") {
+        throw parser.error();
+      }
+      parser.skip();
+      role.connectionLimit = Number(token.value) * (negative ? -1 : 1);
+    } else if (parser.acceptKeywords("valid", "until")) {
+      const token = parser.peek();
+      if (token?.type !== "string") {
+        throw parser.error();
+      }
+      parser.skip();
+      const validUntil = parseValidUntil(token.value);
+      if (validUntil === undefined) {
+        throw parser.error();
+      }
+      role.validUntil = validUntil;
+    } else if (
+      parser.acceptKeywords("in", "role") ||
+      parser.acceptKeywords("in", "group")
+    ) {
+      for (const name of parser.parseNameList()) {
+        getRole(state, name);
+        role.memberOf.add(name);
+      }
+    } else if (
+      parser.acceptKeywords("role") ||
+      parser.acceptKeywords("user") ||
+      parser.acceptKeywords("admin")
+    ) {
+      for (const name of parser.parseNameList()) {
+        getRole(state, name).memberOf.add(role.name);
+      }
+    } else {
+      parser.skip();
+    }
+  }
+}
+
+function renameRole(state: DdlState, oldName: string, newName: string) {
+  const role = state.roles.get(oldName);
+  if (!role) {
+    return;
+  }
+  state.roles.delete(oldName);
+  role.name = newName;
+  state.roles.set(newName, role);
+  for (const other of state.roles.values()) {
+    if (other.memberOf.delete(oldName)) {
+      other.memberOf.add(newName);
+    }
+  }
+  for (const policy of state.policies.values()) {
+    policy.roles = policy.roles.map((name) =>
+      name === oldName ? newName : name,
+    );
+  }
+}
+
+function dropRole(state: DdlState, name: string) {
+  state.roles.delete(name);
+  for (const role of state.roles.values()) {
+    role.memberOf.delete(name);
+  }
+}
+
+function addSequence(
+  state: DdlState,
+  schema: string,
+  name: string,
+  ownedBy: string | null = null,
+) {
+  state.sequences.set(relationKey(schema, name), {
+    type: "sequence",
+    schema,
+    name,
+    ownedBy,
+  });
+}
+
+/**
+ * Add the sequence implicitly created for a serial or identity column
+ */
+function addColumnSequence(
+  state: DdlState,
+  table: SQLTable,
+  column: string,
+  tokens: DdlToken[],
+) {
+  let schema = table.schema;
+  let name = `${table.name}_${column}_seq`;
+  const sequenceIdx = tokens.findIndex(
+    (token, idx) =>
+      token.type === "ident" &&
+      token.value === "sequence" &&
+      tokens[idx + 1]?.value === "name",
+  );
+  if (sequenceIdx !== -1) {
+    const parts: string[] = [];
+    for (const token of tokens.slice(sequenceIdx + 2)) {
+      if (token.type === "ident" || token.type === "quoted") {
+        parts.push(token.value);
+      } else if (token.value !== ".") {
+        break;
+      }
+    }
+    if (parts.length === 2) {
+      [schema, name] = parts as [string, string];
+    } else if (parts.length === 1) {
+      name = parts[0]!;
+    }
+  }
+  addSequence(state, schema, name, relationKey(table.schema, table.name));
+}
+
+function addColumn(
+  state: DdlState,
+  parser: DdlParser,
+  table: SQLTableMetadata,
+) {
+  parser.acceptKeywords("column");
+  parser.acceptKeywords("if", "not", "exists");
+  const first = parser.peek();
+  if (first?.type === "ident" && TableConstraintKeywords.has(first.value)) {
+    return;
+  }
+  if (parser.acceptKeywords("like")) {
+    const [schema, name] = parser.parseQualifiedName();
+    const source = state.tables.get(relationKey(schema, name));
+    table.columns.push(...(source?.columns ?? []));
+    return;
+  }
+
+  const column = parser.parseName();
+  table.columns.push(column);
+  const definition = parser.rest();
+  const isSerial =
+    definition[0]?.type === "ident" && SerialTypes.has(definition[0].value);
+  const isIdentity = definition.some(
+    (token) => token.type === "ident" && token.value === "identity",
+  );
+  if (isSerial || isIdentity) {
+    addColumnSequence(state, table.table, column, definition);
+  }
+}
+
+function dropTable(state: DdlState, key: string) {
+  state.tables.delete(key);
+  // Dropping a partitioned table drops its partitions
+  for (const [partitionKey, table] of Array.from(state.tables)) {
+    const parent = table.partitionOf;
+    if (parent && relationKey(parent.schema, parent.name) === key) {
+      dropTable(state, partitionKey);
+    }
+  }
+  for (const [sequenceKey, sequence] of state.sequences) {
+    if (sequence.ownedBy === key) {
+      state.sequences.delete(sequenceKey);
+    }
+  }
+  for (const [policyKey, policy] of state.policies) {
+    if (relationKey(policy.table.schema, policy.table.name) === key) {
+      state.policies.delete(policyKey);
+    }
+  }
+}
+
+function moveTable(
+  state: DdlState,
+  table: SQLTableMetadata,
+  schema: string,
+  name: string,
+) {
+  const oldKey = relationKey(table.table.schema, table.table.name);
+  const newKey = relationKey(schema, name);
+  state.tables.delete(oldKey);
+  table.table = { type: "table", schema, name };
+  state.tables.set(newKey, table);
+  for (const partition of state.tables.values()) {
+    const parent = partition.partitionOf;
+    if (parent && relationKey(parent.schema, parent.name) === oldKey) {
+      partition.partitionOf = table.table;
+    }
+  }
+  for (const sequence of state.sequences.values()) {
+    if (sequence.ownedBy === oldKey) {
+      sequence.ownedBy = newKey;
+    }
+  }
+  for (const [key, policy] of Array.from(state.policies)) {
+    if (relationKey(policy.table.schema, policy.table.name) === oldKey) {
+      state.policies.delete(key);
+      policy.table = table.table;
+      state.policies.set(policyKey(policy.table, policy.name), policy);
+    }
+  }
+}
+
+function moveRelation<T extends { schema: string; name: string }>(
+  map: Map<string, T>,
+  object: T,
+  schema: string,
+  name: string,
+) {
+  map.delete(relationKey(object.schema, object.name));
+  object.schema = schema;
+  object.name = name;
+  map.set(relationKey(schema, name), object);
+}
+
+function moveForeignTable(
+  state: DdlState,
+  table: SQLForeignTableMetadata,
+  schema: string,
+  name: string,
+) {
+  state.foreignTables.delete(relationKey(table.table.schema, table.table.name));
+  table.table = { type: "foreign-table", schema, name };
+  state.foreignTables.set(relationKey(schema, name), table);
+}
+
+function addForeignTableColumn(
+  parser: DdlParser,
+  table: SQLForeignTableMetadata,
+) {
+  parser.acceptKeywords("column");
+  parser.acceptKeywords("if", "not", "exists");
+  const first = parser.peek();
+  if (first?.type === "ident" && TableConstraintKeywords.has(first.value)) {
+    return;
+  }
+  table.columns.push(parser.parseName());
+}
+
+function alterForeignTableAction(
+  state: DdlState,
+  parser: DdlParser,
+  table: SQLForeignTableMetadata,
+) {
+  if (parser.acceptKeywords("rename", "to")) {
+    moveForeignTable(state, table, table.table.schema, parser.parseName());
+  } else if (parser.acceptKeywords("set", "schema")) {
+    moveForeignTable(state, table, parser.parseName(), table.table.name);
+  } else if (parser.acceptKeywords("rename")) {
+    parser.acceptKeywords("column");
+    const oldName = parser.parseName();
+    parser.expectKeywords("to");
+    const newName = parser.parseName();
+    table.columns = table.columns.map((column) =>
+      column === oldName ? newName : column,
+    );
+  } else if (parser.acceptKeywords("add")) {
+    addForeignTableColumn(parser, table);
+  } else if (parser.acceptKeywords("drop", "constraint")) {
+    return;
+  } else if (parser.acceptKeywords("drop")) {
+    parser.acceptKeywords("column");
+    parser.acceptKeywords("if", "exists");
+    const column = parser.parseName();
+    table.columns = table.columns.filter((item) => item !== column);
+  }
+}
+
+/**
+ * Parse the `FOREIGN DATA WRAPPER`, `SERVER`, `DATABASE`, `TABLESPACE` or
+ * `LANGUAGE` keywords of an `ALTER` or `DROP` statement, returning the map
+ * that holds objects of that type
+ */
+function parseTopLevelObjectType(
+  state: DdlState,
+  parser: DdlParser,
+): Map<string, DdlTopLevelObject> | null {
+  if (parser.acceptKeywords("foreign", "data", "wrapper")) {
+    return state.foreignDataWrappers;
+  }
+  if (parser.acceptKeywords("server")) {
+    return state.foreignServers;
+  }
+  if (parser.acceptKeywords("database")) {
+    return state.databases;
+  }
+  if (parser.acceptKeywords("tablespace")) {
+    return state.tablespaces;
+  }
+  if (
+    parser.acceptKeywords("language") ||
+    parser.acceptKeywords("procedural", "language")
+  ) {
+    return state.languages;
+  }
+  return null;
+}
+
+/**
+ * Parse the `VIEW`, `MATERIALIZED VIEW`, `SEQUENCE`, `TYPE` or `DOMAIN`
+ * keywords of an `ALTER` or `DROP` statement, returning the map that holds
+ * objects of that type
+ */
+function parseSchemaObjectType(
+  state: DdlState,
+  parser: DdlParser,
+): Map<string, DdlSchemaObject> | null {
+  if (parser.acceptKeywords("view")) {
+    return state.views;
+  }
+  if (parser.acceptKeywords("materialized", "view")) {
+    return state.materializedViews;
+  }
+  if (parser.acceptKeywords("sequence")) {
+    return state.sequences;
+  }
+  if (parser.acceptKeywords("type")) {
+    return state.types;
+  }
+  if (parser.acceptKeywords("domain")) {
+    return state.domains;
+  }
+  return null;
+}
+
+// Names of built-in types as they are formatted by PostgreSQL
+const TypeAliases: Record<string, string> = {
+  int: "integer",
+  int4: "integer",
+  int2: "smallint",
+  int8: "bigint",
+  float4: "real",
+  float: "double precision",
+  float8: "double precision",
+  decimal: "numeric",
+  bool: "boolean",
+  varchar: "character varying",
+  char: "character",
+  bpchar: "character",
+  "char varying": "character varying",
+  varbit: "bit varying",
+  timestamp: "timestamp without time zone",
+  timestamptz: "timestamp with time zone",
+  time: "time without time zone",
+  timetz: "time with time zone",
+};
+
+// Types whose names can be more than one word, which can't be confused
+// with the name of an argument
+const MultiWordTypes = new Set([
+  "bit",
+  "char",
+  "character",
+  "double",
+  "time",
+  "timestamp",
+]);
+
+function quoteTypeIdentifier(token: DdlToken): string {
+  if (token.type === "ident" || /^[a-z_][a-z0-9_$]*$/.test(token.value)) {
+    return token.value;
+  }
+  return `"${token.value.replaceAll('"', '""')}"`;
+}
+
+/**
+ * Format the type of an argument the way PostgreSQL does in signatures, so
+ * that it can be compared with the signatures read from a database. Type
+ * modifiers such as the length of a `VARCHAR` are not part of a signature.
+ */
+function formatArgType(state: DdlState, tokens: DdlToken[]): string {
+  const words: string[] = [];
+  let depth = 0;
+  let arrays = 0;
+  for (const token of tokens) {
+    if (token.type === "op" && token.value === "(") {
+      depth++;
+    } else if (token.type === "op" && token.value === ")") {
+      depth--;
+    } else if (depth > 0) {
+      // Type modifier
+    } else if (token.type === "op" && token.value === "[") {
+      arrays++;
+    } else if (token.type === "ident" && token.value === "array") {
+      arrays = Math.max(arrays, 1);
+    } else if (token.type === "op" && token.value === ".") {
+      words.push(".");
+    } else if (token.type === "ident" || token.type === "quoted") {
+      words.push(quoteTypeIdentifier(token));
+    }
+  }
+
+  let text = words.join(" ").replaceAll(" . ", ".");
+  const parts = text.split(".");
+  if (parts.length === 2) {
+    const [schema, name] = parts as [string, string];
+    // Types in the default search path aren't qualified
+    text = schema === "pg_catalog" || schema === "public" ? name : text;
+  } else if (
+    state.schema !== "public" &&
+    (state.types.has(relationKey(state.schema, text)) ||
+      state.domains.has(relationKey(state.schema, text)))
+  ) {
+    text = relationKey(state.schema, text);
+  }
+  return (TypeAliases[text] ?? text) + "[]".repeat(arrays);
+}
+
+/**
+ * Parse the argument types that identify a function, procedure or
+ * aggregate. OUT arguments identify procedures, but not functions.
+ */
+function parseRoutineArgs(
+  state: DdlState,
+  parser: DdlParser,
+  type: string,
+): string[] | null {
+  if (!parser.isOp("(")) {
+    return null;
+  }
+  // Ordered-set aggregates are identified by their direct and aggregated
+  // arguments together, e.g. `percentile(float8 ORDER BY anyelement)`
+  const items = parser.parseParenthesizedItems().flatMap((item) => {
+    const orderBy = item.findIndex(
+      (token, idx) =>
+        token.type === "ident" &&
+        token.value === "order" &&
+        item[idx + 1]?.value === "by",
+    );
+    if (orderBy === -1) {
+      return [item];
+    }
+    return [item.slice(0, orderBy), item.slice(orderBy + 2)].filter(
+      (part) => part.length > 0,
+    );
+  });
+  // Old-style CREATE AGGREGATE statements only have a list of options,
+  // with the argument type in BASETYPE
+  const baseType = items.find(
+    (item) => item[0]?.value === "basetype" && item[1]?.value === "=",
+  );
+  if (baseType) {
+    const argType = formatArgType(state, baseType.slice(2));
+    return argType === "any" ? [] : [argType];
+  }
+
+  const args: string[] = [];
+  for (const item of items) {
+    if (item.length === 1 && item[0]!.type === "op" && item[0]!.value === "*") {
+      continue;
+    }
+    let tokens = item;
+    const mode = tokens[0]?.type === "ident" ? tokens[0].value : null;
+    if (
+      mode === "in" ||
+      mode === "out" ||
+      mode === "inout" ||
+      mode === "variadic"
+    ) {
+      tokens = tokens.slice(1);
+    }
+    if (mode === "out" && type === "function") {
+      continue;
+    }
+    const defaultIndex = tokens.findIndex(
+      (token) =>
+        (token.type === "ident" && token.value === "default") ||
+        (token.type === "op" && token.value === "="),
+    );
+    if (defaultIndex !== -1) {
+      tokens = tokens.slice(0, defaultIndex);
+    }
+    const [first, second] = tokens;
+    const hasName =
+      first !== undefined &&
+      second !== undefined &&
+      (second.type === "ident" || second.type === "quoted") &&
+      !(first.type === "ident" && MultiWordTypes.has(first.value));
+    args.push(formatArgType(state, hasName ? tokens.slice(1) : tokens));
+  }
+  return args;
+}
+
+function findRoutines(
+  state: DdlState,
+  type: string,
+  schema: string,
+  name: string,
+  args: string[] | null,
+): DdlRoutine[] {
+  const matches = state.routines.filter(
+    (routine) =>
+      (routine.type === type || type === "routine") &&
+      routine.schema === schema &&
+      routine.name === name,
+  );
+  if (args === null) {
+    return matches;
+  }
+  const signature = args.join(", ");
+  const exact = matches.filter(
+    (routine) => routine.args.join(", ") === signature,
+  );
+  // Argument types that can't be normalized, such as `%TYPE` references,
+  // may be written differently than in the CREATE statement
+  return exact.length > 0 ? exact : matches.slice(0, 1);
+}
+
+function createStatement(state: DdlState, parser: DdlParser) {
+  parser.acceptKeywords("or", "replace");
+  const temporary =
+    parser.acceptKeywords("temporary") ||
+    parser.acceptKeywords("temp") ||
+    parser.acceptKeywords("global", "temporary") ||
+    parser.acceptKeywords("local", "temporary");
+  if (temporary) {
+    return;
+  }
+  parser.acceptKeywords("unlogged");
+
+  if (parser.acceptKeywords("schema")) {
+    parser.acceptKeywords("if", "not", "exists");
+    // CREATE SCHEMA AUTHORIZATION <role> names the schema after the role
+    if (parser.acceptKeywords("authorization")) {
+      const owner = parseRoleSpec(parser);
+      if (owner !== undefined) {
+        state.schemas.set(owner, { type: "schema", name: owner, owner });
+      }
+      return;
+    }
+    const name = parser.parseName();
+    const owner = parser.acceptKeywords("authorization")
+      ? parseRoleSpec(parser)
+      : undefined;
+    state.schemas.set(name, { type: "schema", name, owner });
+    return;
+  }
+
+  if (parser.acceptKeywords("table")) {
+    const ifNotExists = parser.acceptKeywords("if", "not", "exists");
+    const [schema, name] = parser.parseQualifiedName();
+    const key = relationKey(schema, name);
+    if (ifNotExists && state.tables.has(key)) {
+      return;
+    }
+    const table: SQLTableMetadata = {
+      type: "table-metadata",
+      table: { type: "table", schema, name },
+      rlsEnabled: false,
+      columns: [],
+      partitionOf: null,
+    };
+    if (parser.acceptKeywords("partition", "of")) {
+      const [parentSchema, parentName] = parser.parseQualifiedName();
+      const parent = state.tables.get(relationKey(parentSchema, parentName));
+      table.columns.push(...(parent?.columns ?? []));
+      table.partitionOf = parent?.table ?? null;
+    } else if (parser.isOp("(")) {
+      for (const item of parser.parseParenthesizedItems()) {
+        addColumn(state, parser.subParser(item), table);
+      }
+    }
+    state.tables.set(key, table);
+    return;
+  }
+
+  // User mappings only hold the options for connecting to a foreign server
+  if (parser.acceptKeywords("user", "mapping")) {
+    return;
+  }
+
+  if (parser.acceptKeywords("database")) {
+    const name = parser.parseName();
+    state.databases.set(name, { type: "database", name });
+    return;
+  }
+
+  if (parser.acceptKeywords("tablespace")) {
+    const name = parser.parseName();
+    state.tablespaces.set(name, { type: "tablespace", name });
+    return;
+  }
+
+  // Untrusted languages can't be granted, so they aren't tracked
+  const trusted = parser.acceptKeywords("trusted");
+  if (
+    parser.acceptKeywords("language") ||
+    parser.acceptKeywords("procedural", "language")
+  ) {
+    const name = parser.parseName();
+    if (trusted) {
+      state.languages.set(name, { type: "language", name });
+    }
+    return;
+  }
+
+  if (parser.acceptKeywords("foreign", "data", "wrapper")) {
+    const name = parser.parseName();
+    state.foreignDataWrappers.set(name, {
+      type: "foreign-data-wrapper",
+      name,
+    });
+    return;
+  }
+
+  if (parser.acceptKeywords("server")) {
+    parser.acceptKeywords("if", "not", "exists");
+    const name = parser.parseName();
+    state.foreignServers.set(name, { type: "foreign-server", name });
+    return;
+  }
+
+  if (parser.acceptKeywords("foreign", "table")) {
+    const ifNotExists = parser.acceptKeywords("if", "not", "exists");
+    const [schema, name] = parser.parseQualifiedName();
+    const key = relationKey(schema, name);
+    if (ifNotExists && state.foreignTables.has(key)) {
+      return;
+    }
+    const table: SQLForeignTableMetadata = {
+      type: "foreign-table-metadata",
+      table: { type: "foreign-table", schema, name },
+      columns: [],
+    };
+    if (parser.isOp("(")) {
+      for (const item of parser.parseParenthesizedItems()) {
+        addForeignTableColumn(parser.subParser(item), table);
+      }
+    }
+    state.foreignTables.set(key, table);
+    return;
+  }
+
+  if (parser.acceptKeywords("materialized", "view")) {
+    const ifNotExists = parser.acceptKeywords("if", "not", "exists");
+    const [schema, name] = parser.parseQualifiedName();
+    const key = relationKey(schema, name);
+    if (!ifNotExists || !state.materializedViews.has(key)) {
+      state.materializedViews.set(key, {
+        type: "materialized-view",
+        schema,
+        name,
+      });
+    }
+    return;
+  }
+
+  parser.acceptKeywords("recursive");
+  if (parser.acceptKeywords("view")) {
+    const [schema, name] = parser.parseQualifiedName();
+    state.views.set(relationKey(schema, name), { type: "view", schema, name });
+    return;
+  }
+
+  if (parser.acceptKeywords("sequence")) {
+    parser.acceptKeywords("if", "not", "exists");
+    const [schema, name] = parser.parseQualifiedName();
+    addSequence(state, schema, name);
+    return;
+  }
+
+  if (parser.acceptKeywords("type")) {
+    const [schema, name] = parser.parseQualifiedName();
+    state.types.set(relationKey(schema, name), { type: "type", schema, name });
+    return;
+  }
+
+  if (parser.acceptKeywords("domain")) {
+    const [schema, name] = parser.parseQualifiedName();
+    state.domains.set(relationKey(schema, name), {
+      type: "domain",
+      schema,
+      name,
+    });
+    return;
+  }
+
+  if (
+    parser.isKeyword("function") ||
+    parser.isKeyword("procedure") ||
+    parser.isKeyword("aggregate")
+  ) {
+    let type = parser.parseName() as DdlRoutine["type"];
+    const [schema, name] = parser.parseQualifiedName();
+    const args = parseRoutineArgs(state, parser, type) ?? [];
+    // Window functions are granted privileges like aggregates. The body of
+    // a BEGIN ATOMIC function can also contain WINDOW clauses.
+    const attributes = parser.rest();
+    const body = attributes.findIndex(
+      (token) => token.type === "ident" && token.value === "begin",
+    );
+    if (
+      type === "function" &&
+      attributes
+        .slice(0, body === -1 ? undefined : body)
+        .some((token) => token.type === "ident" && token.value === "window")
+    ) {
+      type = "aggregate";
+    }
+    const routine: DdlRoutine =
+      type === "aggregate"
+        ? { type, schema, name, args }
+        : { type, schema, name, args, builtin: false };
+    const signature = formatSignature(routine);
+    const existing = state.routines.findIndex(
+      (other) =>
+        other.type === type &&
+        other.schema === schema &&
+        formatSignature(other) === signature,
+    );
+    if (existing === -1) {
+      state.routines.push(routine);
+    } else {
+      state.routines[existing] = routine;
+    }
+    return;
+  }
+
+  if (
+    parser.isKeyword("role") ||
+    parser.isKeyword("user") ||
+    parser.isKeyword("group")
+  ) {
+    const kind = parser.parseName();
+    const role = getRole(state, parser.parseName());
+    role.login = kind === "user";
+    parseRoleOptions(state, parser, role);
+    return;
+  }
+
+  if (parser.acceptKeywords("policy")) {
+    const name = parser.parseName();
+    parser.expectKeywords("on");
+    const [schema, tableName] = parser.parseQualifiedName();
+    const policy: DdlPolicy = {
+      type: "rls-policy",
+      name,
+      table: { type: "table", schema, name: tableName },
+      permissive: "PERMISSIVE",
+      privileges: new Set(SQLRowLevelSecurityPolicyPrivileges),
+      isDefault: false,
+      roles: ["public"],
+      using: null,
+      withCheck: null,
+      comment: null,
+    };
+    while (!parser.atEnd()) {
+      if (parser.acceptKeywords("as")) {
+        const permissive = parser.parseName().toUpperCase();
+        if (permissive !== "PERMISSIVE" && permissive !== "RESTRICTIVE") {
+          throw parser.error();
+        }
+        policy.permissive = permissive;
+      } else if (parser.acceptKeywords("for")) {
+        const command = parser.parseName().toUpperCase();
+        if (command !== "ALL") {
+          policy.privileges = new Set([
+            command as SQLRowLevelSecurityPolicyPrivilege,
+          ]);
+        }
+      } else if (parser.acceptKeywords("to")) {
+        policy.roles = parser.parseNameList();
+      } else if (parser.acceptKeywords("using")) {
+        policy.using = parser.parseParenthesizedText();
+      } else if (parser.acceptKeywords("with", "check")) {
+        policy.withCheck = parser.parseParenthesizedText();
+      } else {
+        throw parser.error();
+      }
+    }
+    policy.isDefault = policy.roles.includes("public");
+    state.policies.set(policyKey(policy.table, name), policy);
+  }
+}
+
+function alterTableAction(
+  state: DdlState,
+  parser: DdlParser,
+  table: SQLTableMetadata,
+) {
+  if (parser.acceptKeywords("rename", "to")) {
+    moveTable(state, table, table.table.schema, parser.parseName());
+  } else if (parser.acceptKeywords("set", "schema")) {
+    moveTable(state, table, parser.parseName(), table.table.name);
+  } else if (parser.acceptKeywords("rename", "constraint")) {
+    return;
+  } else if (parser.acceptKeywords("rename")) {
+    parser.acceptKeywords("column");
+    const oldName = parser.parseName();
+    parser.expectKeywords("to");
+    const newName = parser.parseName();
+    table.columns = table.columns.map((column) =>
+      column === oldName ? newName : column,
+    );
+  } else if (parser.acceptKeywords("add")) {
+    addColumn(state, parser, table);
+  } else if (parser.acceptKeywords("drop", "constraint")) {
+    return;
+  } else if (parser.acceptKeywords("drop")) {
+    parser.acceptKeywords("column");
+    parser.acceptKeywords("if", "exists");
+    const column = parser.parseName();
+    table.columns = table.columns.filter((item) => item !== column);
+  } else if (parser.acceptKeywords("alter")) {
+    parser.acceptKeywords("column");
+    const column = parser.parseName();
+    const definition = parser.rest();
+    const isIdentity = definition.some(
+      (token) => token.type === "ident" && token.value === "identity",
+    );
+    if (parser.isKeyword("add") && isIdentity) {
+      addColumnSequence(state, table.table, column, definition);
+    }
+  } else if (parser.acceptKeywords("attach", "partition")) {
+    const [schema, name] = parser.parseQualifiedName();
+    const partition = state.tables.get(relationKey(schema, name));
+    if (partition) {
+      partition.partitionOf = table.table;
+    }
+  } else if (parser.acceptKeywords("detach", "partition")) {
+    const [schema, name] = parser.parseQualifiedName();
+    const partition = state.tables.get(relationKey(schema, name));
+    if (partition) {
+      partition.partitionOf = null;
+    }
+  } else if (parser.acceptKeywords("enable", "row", "level", "security")) {
+    table.rlsEnabled = true;
+  } else if (parser.acceptKeywords("disable", "row", "level", "security")) {
+    table.rlsEnabled = false;
+  }
+}
+
+function alterStatement(state: DdlState, parser: DdlParser) {
+  if (parser.acceptKeywords("table")) {
+    parser.acceptKeywords("if", "exists");
+    parser.acceptKeywords("only");
+    const [schema, name] = parser.parseQualifiedName();
+    parser.acceptOp("*");
+    const table = state.tables.get(relationKey(schema, name));
+    if (!table) {
+      return;
+    }
+    for (const item of parser.parseItems()) {
+      alterTableAction(state, parser.subParser(item), table);
+    }
+    return;
+  }
+
+  if (parser.acceptKeywords("user", "mapping")) {
+    return;
+  }
+
+  if (parser.acceptKeywords("foreign", "table")) {
+    parser.acceptKeywords("if", "exists");
+    parser.acceptKeywords("only");
+    const [schema, name] = parser.parseQualifiedName();
+    parser.acceptOp("*");
+    const table = state.foreignTables.get(relationKey(schema, name));
+    if (!table) {
+      return;
+    }
+    for (const item of parser.parseItems()) {
+      alterForeignTableAction(state, parser.subParser(item), table);
+    }
+    return;
+  }
+
+  const topLevelObjects = parseTopLevelObjectType(state, parser);
+  if (topLevelObjects) {
+    const object = topLevelObjects.get(parser.parseName());
+    if (object && parser.acceptKeywords("rename", "to")) {
+      topLevelObjects.delete(object.name);
+      object.name = parser.parseName();
+      topLevelObjects.set(object.name, object);
+    }
+    return;
+  }
+
+  const map = parseSchemaObjectType(state, parser);
+  if (map) {
+    parser.acceptKeywords("if", "exists");
+    const [schema, name] = parser.parseQualifiedName();
+    const object = map.get(relationKey(schema, name));
+    if (!object) {
+      return;
+    }
+    if (parser.acceptKeywords("rename", "to")) {
+      moveRelation(map, object, schema, parser.parseName());
+    } else if (parser.acceptKeywords("set", "schema")) {
+      moveRelation(map, object, parser.parseName(), name);
+    } else if (
+      object.type === "sequence" &&
+      parser.acceptKeywords("owned", "by")
+    ) {
+      const parts = parser.parseDottedName();
+      if (parts.length === 1) {
+        object.ownedBy = null;
+      } else {
+        const [tableSchema, tableName] =
+          parts.length === 3 ? parts : [state.schema, parts[0]!];
+        object.ownedBy = relationKey(tableSchema!, tableName!);
+      }
+    }
+    return;
+  }
+
+  if (
+    parser.isKeyword("function") ||
+    parser.isKeyword("procedure") ||
+    parser.isKeyword("aggregate") ||
+    parser.isKeyword("routine")
+  ) {
+    const type = parser.parseName();
+    const [schema, name] = parser.parseQualifiedName();
+    const args = parseRoutineArgs(state, parser, type);
+    const [routine] = findRoutines(state, type, schema, name, args);
+    if (!routine) {
+      return;
+    }
+    if (parser.acceptKeywords("rename", "to")) {
+      routine.name = parser.parseName();
+    } else if (parser.acceptKeywords("set", "schema")) {
+      routine.schema = parser.parseName();
+    }
+    return;
+  }
+
+  if (parser.acceptKeywords("schema")) {
+    const oldName = parser.parseName();
+    const schema = state.schemas.get(oldName);
+    if (parser.acceptKeywords("owner", "to")) {
+      if (schema) {
+        schema.owner = parseRoleSpec(parser);
+      }
+      return;
+    }
+    if (!parser.acceptKeywords("rename", "to")) {
+      return;
+    }
+    const newName = parser.parseName();
+    state.schemas.delete(oldName);
+    state.schemas.set(newName, {
+      type: "schema",
+      name: newName,
+      owner: schema?.owner,
+    });
+    for (const table of Array.from(state.tables.values())) {
+      if (table.table.schema === oldName) {
+        moveTable(state, table, newName, table.table.name);
+      }
+    }
+    for (const table of Array.from(state.foreignTables.values())) {
+      if (table.table.schema === oldName) {
+        moveForeignTable(state, table, newName, table.table.name);
+      }
+    }
+    const maps: Map<string, DdlSchemaObject>[] = [
+      state.views,
+      state.materializedViews,
+      state.sequences,
+      state.types,
+      state.domains,
+    ];
+    for (const map of maps) {
+      for (const object of Array.from(map.values())) {
+        if (object.schema === oldName) {
+          moveRelation(map, object, newName, object.name);
+        }
+      }
+    }
+    for (const sequence of state.sequences.values()) {
+      if (sequence.ownedBy?.startsWith(`${oldName}.`)) {
+        sequence.ownedBy = `${newName}${sequence.ownedBy.slice(
+          oldName.length,
+        )}`;
+      }
+    }
+    for (const routine of state.routines) {
+      if (routine.schema === oldName) {
+        routine.schema = newName;
+      }
+    }
+    return;
+  }
+
+  if (
+    parser.acceptKeywords("role") ||
+    parser.acceptKeywords("user") ||
+    parser.acceptKeywords("group")
+  ) {
+    const role = getRole(state, parser.parseName());
+    if (parser.acceptKeywords("rename", "to")) {
+      renameRole(state, role.name, parser.parseName());
+    } else if (parser.acceptKeywords("add", "user")) {
+      for (const name of parser.parseNameList()) {
+        getRole(state, name).memberOf.add(role.name);
+      }
+    } else if (parser.acceptKeywords("drop", "user")) {
+      for (const name of parser.parseNameList()) {
+        state.roles.get(name)?.memberOf.delete(role.name);
+      }
+    } else if (
+      !parser.isKeyword("set") &&
+      !parser.isKeyword("reset") &&
+      !parser.isKeyword("in")
+    ) {
+      parseRoleOptions(state, parser, role);
+    }
+  }
+}
+
+function dropStatement(state: DdlState, parser: DdlParser) {
+  if (parser.acceptKeywords("table")) {
+    parser.acceptKeywords("if", "exists");
+    for (const [schema, name] of parser.parseQualifiedNameList()) {
+      dropTable(state, relationKey(schema, name));
+    }
+    return;
+  }
+
+  if (parser.acceptKeywords("user", "mapping")) {
+    return;
+  }
+
+  if (parser.acceptKeywords("foreign", "table")) {
+    parser.acceptKeywords("if", "exists");
+    for (const [schema, name] of parser.parseQualifiedNameList()) {
+      state.foreignTables.delete(relationKey(schema, name));
+    }
+    return;
+  }
+
+  const topLevelObjects = parseTopLevelObjectType(state, parser);
+  if (topLevelObjects) {
+    parser.acceptKeywords("if", "exists");
+    for (const name of parser.parseNameList()) {
+      topLevelObjects.delete(name);
+    }
+    return;
+  }
+
+  const map = parseSchemaObjectType(state, parser);
+  if (map) {
+    parser.acceptKeywords("if", "exists");
+    for (const [schema, name] of parser.parseQualifiedNameList()) {
+      map.delete(relationKey(schema, name));
+    }
+    return;
+  }
+
+  if (
+    parser.isKeyword("function") ||
+    parser.isKeyword("procedure") ||
+    parser.isKeyword("aggregate") ||
+    parser.isKeyword("routine")
+  ) {
+    const type = parser.parseName();
+    parser.acceptKeywords("if", "exists");
+    do {
+      const [schema, name] = parser.parseQualifiedName();
+      const args = parseRoutineArgs(state, parser, type);
+      const routines = findRoutines(state, type, schema, name, args);
+      state.routines = state.routines.filter(
+        (routine) => !routines.includes(routine),
+      );
+    } while (parser.acceptOp(","));
+    return;
+  }
+
+  if (parser.acceptKeywords("schema")) {
+    parser.acceptKeywords("if", "exists");
+    for (const name of parser.parseNameList()) {
+      state.schemas.delete(name);
+      for (const [key, table] of Array.from(state.tables)) {
+        if (table.table.schema === name) {
+          dropTable(state, key);
+        }
+      }
+      for (const [key, table] of Array.from(state.foreignTables)) {
+        if (table.table.schema === name) {
+          state.foreignTables.delete(key);
+        }
+      }
+      const maps: Map<string, DdlSchemaObject>[] = [
+        state.views,
+        state.materializedViews,
+        state.sequences,
+        state.types,
+        state.domains,
+      ];
+      for (const map of maps) {
+        for (const [key, object] of Array.from(map)) {
+          if (object.schema === name) {
+            map.delete(key);
+          }
+        }
+      }
+      state.routines = state.routines.filter(
+        (routine) => routine.schema !== name,
+      );
+    }
+    return;
+  }
+
+  if (
+    parser.acceptKeywords("role") ||
+    parser.acceptKeywords("user") ||
+    parser.acceptKeywords("group")
+  ) {
+    parser.acceptKeywords("if", "exists");
+    for (const name of parser.parseNameList()) {
+      dropRole(state, name);
+    }
+    return;
+  }
+
+  if (parser.acceptKeywords("policy")) {
+    parser.acceptKeywords("if", "exists");
+    const name = parser.parseName();
+    parser.expectKeywords("on");
+    const [schema, tableName] = parser.parseQualifiedName();
+    state.policies.delete(
+      policyKey({ type: "table", schema, name: tableName }, name),
+    );
+  }
+}
+
+/**
+ * Only role memberships are read from GRANT and REVOKE statements; privileges
+ * granted on objects are ignored
+ */
+function membershipStatement(
+  state: DdlState,
+  parser: DdlParser,
+  grant: boolean,
+) {
+  const onObject = parser
+    .rest()
+    .some((token) => token.type === "ident" && token.value === "on");
+  if (onObject) {
+    return;
+  }
+  if (!grant) {
+    for (const option of ["admin", "inherit", "set"]) {
+      parser.acceptKeywords(option, "option", "for");
+    }
+  }
+  const roles = parser.parseNameList();
+  parser.expectKeywords(grant ? "to" : "from");
+  for (const member of parser.parseNameList()) {
+    for (const role of roles) {
+      if (grant) {
+        getRole(state, role);
+        getRole(state, member).memberOf.add(role);
+      } else {
+        state.roles.get(member)?.memberOf.delete(role);
+      }
+    }
+  }
+}
+
+function setStatement(state: DdlState, parser: DdlParser) {
+  if (!parser.acceptKeywords("session")) {
+    parser.acceptKeywords("local");
+  }
+  if (!parser.acceptKeywords("search_path")) {
+    return;
+  }
+  if (!parser.acceptKeywords("to")) {
+    parser.expectOp("=");
+  }
+  for (const token of parser.rest()) {
+    if (
+      (token.type === "ident" ||
+        token.type === "quoted" ||
+        token.type === "string") &&
+      token.value !== "$user" &&
+      token.value !== "pg_catalog"
+    ) {
+      state.schema = token.value;
+      return;
+    }
+  }
+}
+
+function commentStatement(state: DdlState, parser: DdlParser) {
+  if (!parser.acceptKeywords("on", "policy")) {
+    return;
+  }
+  const name = parser.parseName();
+  parser.expectKeywords("on");
+  const [schema, tableName] = parser.parseQualifiedName();
+  parser.expectKeywords("is");
+  const policy = state.policies.get(
+    policyKey({ type: "table", schema, name: tableName }, name),
+  );
+  if (policy) {
+    const value = parser.peek();
+    policy.comment = value?.type === "string" ? value.value : null;
+  }
+}
+
+function applyStatement(state: DdlState, statement: DdlStatement) {
+  const parser = createParser(statement, state.schema);
+  if (parser.acceptKeywords("create")) {
+    createStatement(state, parser);
+  } else if (parser.acceptKeywords("alter")) {
+    alterStatement(state, parser);
+  } else if (parser.acceptKeywords("drop")) {
+    dropStatement(state, parser);
+  } else if (parser.acceptKeywords("grant")) {
+    membershipStatement(state, parser, true);
+  } else if (parser.acceptKeywords("revoke")) {
+    membershipStatement(state, parser, false);
+  } else if (parser.acceptKeywords("set")) {
+    setStatement(state, parser);
+  } else if (parser.acceptKeywords("comment")) {
+    commentStatement(state, parser);
+  }
+}
+
+/**
+ * Build entities by applying DDL statements in order. Statements other than
+ * those that create, alter or drop schemas, tables, views, materialized
+ * views, sequences, types, domains, functions, procedures, aggregates,
+ * foreign data wrappers, servers and tables, databases, tablespaces,
+ * languages, roles and row-level security policies are ignored, as are
+ * privileges granted on objects. Since schema dumps only contain `CREATE
+ * DATABASE` if they were created with `--create`, privileges on the
+ * database are only managed if one of the files creates it.
+ */
+export function parseDdl(sources: DdlSource[]): SQLEntities {
+  const state: DdlState = {
+    schema: "public",
+    roles: new Map(),
+    schemas: new Map([["public", { type: "schema", name: "public" }]]),
+    tables: new Map(),
+    views: new Map(),
+    materializedViews: new Map(),
+    sequences: new Map(),
+    types: new Map(),
+    domains: new Map(),
+    foreignDataWrappers: new Map(),
+    foreignServers: new Map(),
+    foreignTables: new Map(),
+    databases: new Map(),
+    // Tablespaces and languages that every database has
+    tablespaces: new Map([
+      ["pg_default", { type: "tablespace", name: "pg_default" }],
+    ]),
+    languages: new Map([
+      ["sql", { type: "language", name: "sql" }],
+      ["plpgsql", { type: "language", name: "plpgsql" }],
+    ]),
+    routines: [],
+    policies: new Map(),
+  };
+
+  for (const source of sources) {
+    for (const statement of splitStatements(source)) {
+      applyStatement(state, statement);
+    }
+    state.schema = "public";
+  }
+
+  const users = new Map<string, SQLUser>();
+  for (const role of state.roles.values()) {
+    if (role.login && !role.superuser) {
+      users.set(role.name, { type: "user", name: role.name });
+    }
+  }
+  const groups = new Map<string, SQLGroup>();
+  for (const role of state.roles.values()) {
+    if (!role.login && !role.name.startsWith("pg_")) {
+      groups.set(role.name, { type: "group", name: role.name, users: [] });
+    }
+  }
+  const predefinedRoles = new Map<string, SQLGroup>(
+    PredefinedRoles.map((name) => [name, { type: "group", name, users: [] }]),
+  );
+  for (const role of state.roles.values()) {
+    const user = users.get(role.name);
+    if (!user) {
+      continue;
+    }
+    for (const groupName of role.memberOf) {
+      (groups.get(groupName) ?? predefinedRoles.get(groupName))?.users.push(
+        user,
+      );
+    }
+  }
+
+  const rlsPolicies: SQLRowLevelSecurityPolicy[] = [];
+  for (const { roles, ...policy } of state.policies.values()) {
+    rlsPolicies.push({
+      ...policy,
+      users: roles.flatMap((name) => users.get(name) ?? []),
+      groups: roles.flatMap((name) => groups.get(name) ?? []),
+    });
+  }
+
+  const roles: SQLRole[] = [];
+  for (const {
+    name,
+    superuser,
+    memberOf: _,
+    ...attributes
+  } of state.roles.values()) {
+    if (!name.startsWith("pg_")) {
+      roles.push({ type: "role", name, superuser, ...attributes });
+    }
+  }
+
+  return {
+    users: Array.from(users.values()),
+    groups: Array.from(groups.values()),
+    predefinedRoles: Array.from(predefinedRoles.values()),
+    roles,
+    schemas: Array.from(state.schemas.values()),
+    tables: Array.from(state.tables.values()),
+    views: Array.from(state.views.values()),
+    materializedViews: Array.from(state.materializedViews.values()),
+    rlsPolicies,
+    functions: state.routines.flatMap((routine) =>
+      routine.type === "function" ? [routine] : [],
+    ),
+    procedures: state.routines.flatMap((routine) =>
+      routine.type === "procedure" ? [routine] : [],
+    ),
+    aggregates: state.routines.flatMap((routine) =>
+      routine.type === "aggregate" ? [routine] : [],
+    ),
+    sequences: Array.from(state.sequences.values(), ({ schema, name }) => ({
+      type: "sequence",
+      schema,
+      name,
+    })),
+    types: Array.from(state.types.values()),
+    domains: Array.from(state.domains.values()),
+    foreignDataWrappers: Array.from(state.foreignDataWrappers.values()),
+    foreignServers: Array.from(state.foreignServers.values()),
+    foreignTables: Array.from(state.foreignTables.values()),
+    databases: Array.from(state.databases.values()),
+    parameters: [],
+    tablespaces: Array.from(state.tablespaces.values()),
+    languages: Array.from(state.languages.values()),
+    largeObjects: [],
+    grants: [],
+    defaultPrivileges: [],
+    memberships: [],
+    settings: [],
+    currentUser: null,
+    sessionUser: null,
+  };
+}
+
+/**
+ * List the `.sql` files at the given paths. Directories are searched
+ * recursively, and their files are ordered by path so that numbered or
+ * timestamped migrations are applied in order.
+ */
+export async function listDdlFiles(paths: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const item of paths) {
+    const stat = await fs.promises.stat(item);
+    if (!stat.isDirectory()) {
+      files.push(item);
+      continue;
+    }
+    const result = await new fdir()
+      .withFullPaths()
+      .filter((file) => file.endsWith(".sql"))
+      .crawl(item)
+      .withPromise();
+    const relative = (file: string) => path.relative(item, file);
+    result.sort((a, b) =>
+      relative(a).localeCompare(relative(b), undefined, { numeric: true }),
+    );
+    files.push(...result);
+  }
+  return files;
+}
+
+/**
+ * Backend that builds entities from SQL files, such as a schema dump or a
+ * directory of migrations, instead of a database connection. Queries are
+ * compiled using `backend`, which does not need to be connected.
+ */
+export class DdlBackend implements SQLBackend {
+  constructor(
+    private readonly paths: string[],
+    private readonly backend: SQLBackend = new PostgresBackend(),
+  ) {}
+
+  async fetchEntities(): Promise<SQLEntities> {
+    const sources: DdlSource[] = [];
+    for (const file of await listDdlFiles(this.paths)) {
+      const content = await fs.promises.readFile(file, { encoding: "utf8" });
+      sources.push({ file, content });
+    }
+    return parseDdl(sources);
+  }
+
+  getContext(entities: SQLEntities): Promise<SQLBackendContext> {
+    return this.backend.getContext(entities);
+  }
+}
+
+export class DdlError extends Error {}
@@ -0,0 +1,399 @@
+import { SQLEntities } from "./backend.js";
+import { evaluateColumnClause, formatClause, isTrueClause } from "./clause.js";
+import {
+  AggregatePrivileges,
+  DatabasePrivileges,
+  DomainPrivileges,
+  ForeignDataWrapperPrivileges,
+  ForeignServerPrivileges,
+  ForeignTablePrivileges,
+  FunctionPrivileges,
+  LanguagePrivileges,
+  LargeObjectPrivileges,
+  MaterializedViewPrivileges,
+  ObjectPermission,
+  ParameterPrivileges,
+  Permission,
+  Privilege,
+  ProcedurePrivileges,
+  RuleSource,
+  SQLActor,
+  SQLForeignTableMetadata,
+  SQLGrantObject,
+  SQLRowLevelSecurityPolicyPrivilege,
+  SQLRowLevelSecurityPolicyPrivileges,
+  SQLTableMetadata,
+  SchemaPrivileges,
+  SequencePrivileges,
+  TablePrivileges,
+  TablespacePrivileges,
+  TypePrivileges,
+  ViewPrivileges,
+  formatQualifiedName,
+  formatRuleSources,
+  formatSignature,
+  permissionObject,
+} from "./sql.js";
+
+const AllPrivileges = new Set<string>([
+  ...SchemaPrivileges,
+  ...TablePrivileges,
+  ...ViewPrivileges,
+  ...MaterializedViewPrivileges,
+  ...FunctionPrivileges,
+  ...ProcedurePrivileges,
+  ...AggregatePrivileges,
+  ...SequencePrivileges,
+  ...TypePrivileges,
+  ...DomainPrivileges,
+  ...ForeignDataWrapperPrivileges,
+  ...ForeignServerPrivileges,
+  ...ForeignTablePrivileges,
+  ...DatabasePrivileges,
+  ...ParameterPrivileges,
+  ...TablespacePrivileges,
+  ...LanguagePrivileges,
+  ...LargeObjectPrivileges,
+]);
+
+const ColumnPrivileges = new Set<string>(["SELECT", "INSERT", "UPDATE"]);
+
+export interface PermissionSummary {
+  actor: SQLActor;
+  privilege: Privilege;
+  object: SQLGrantObject;
+  /** Columns the permission is limited to, or `null` for all columns */
+  columns: string[] | null;
+  /** Condition that rows must meet, or `null` for all rows */
+  rows: string | null;
+  /** Group that the actor inherits the permission from, or `null` */
+  inheritedFrom: SQLActor | null;
+  sources: RuleSource[];
+}
+
+function objectName(object: SQLGrantObject): string {
+  if (!("schema" in object)) {
+    return object.name;
+  }
+  if (
+    object.type === "function" ||
+    object.type === "procedure" ||
+    object.type === "aggregate"
+  ) {
+    return formatQualifiedName(object.schema, formatSignature(object));
+  }
+  return formatQualifiedName(object.schema, object.name);
+}
+
+/**
+ * Functions, procedures and aggregates can be referred to with or without
+ * their signatures, in which case every overload matches
+ */
+function matchesObject(object: SQLGrantObject, name: string): boolean {
+  if (
+    (object.type === "function" ||
+      object.type === "procedure" ||
+      object.type === "aggregate") &&
+    formatQualifiedName(object.schema, object.name) === name
+  ) {
+    return true;
+  }
+  return objectName(object) === name;
+}
+
+export function summarizePermission(
+  permission: ObjectPermission,
+  entities: SQLEntities,
+): PermissionSummary {
+  const summary: PermissionSummary = {
+    actor: permission.user,
+    privilege: permission.privilege,
+    object: permissionObject(permission),
+    columns: null,
+    rows: null,
+    inheritedFrom: null,
+    sources: permission.sources ?? [],
+  };
+  if (permission.type !== "table" && permission.type !== "foreign-table") {
+    return summary;
+  }
+
+  if (
+    !isTrueClause(permission.columnClause) &&
+    ColumnPrivileges.has(permission.privilege)
+  ) {
+    const tables: (SQLTableMetadata | SQLForeignTableMetadata)[] =
+      permission.type === "table" ? entities.tables : entities.foreignTables;
+    const table = tables.find(
+      (table) =>
+        table.table.schema === permission.table.schema &&
+        table.table.name === permission.table.name,
+    );
+    summary.columns = (table?.columns ?? [])
+      .filter((column) => evaluateColumnClause(permission.columnClause, column))
+      .sort();
+  }
+
+  if (
+    permission.type === "table" &&
+    !isTrueClause(permission.rowClause) &&
+    SQLRowLevelSecurityPolicyPrivileges.includes(
+      permission.privilege as SQLRowLevelSecurityPolicyPrivilege,
+    )
+  ) {
+    summary.rows = formatClause(permission.rowClause);
+  }
+
+  return summary;
+}
+
+/**
+ * Default privileges only apply to objects created in the future and role
+ * memberships and settings don't apply to an object, so they aren't
+ * included when describing existing objects
+ */
+function existingObjectPermissions(
+  permissions: Permission[],
+): ObjectPermission[] {
+  return permissions.filter(
+    (permission): permission is ObjectPermission =>
+      permission.type !== "default" &&
+      permission.type !== "membership" &&
+      permission.type !== "setting",
+  );
+}
+
+/**
+ * Members of each group that inherit its privileges, including members of
+ * groups that are themselves members. Memberships come from both the
+ * database and `member` rules.
+ */
+function inheritingMembers(
+  permissions: Permission[],
+  entities: SQLEntities,
+): Map<string, SQLActor[]> {
+  const actors = new Map(
+    (entities.users as SQLActor[])
+      .concat(entities.groups)
+      .map((actor) => [actor.name, actor]),
+  );
+
+  const directMembers = new Map<string, Set<string>>();
+  const addMember = (group: string, member: string) => {
+    const members = directMembers.get(group) ?? new Set();
+    members.add(member);
+    directMembers.set(group, members);
+  };
+  for (const membership of entities.memberships) {
+    if (membership.inherit) {
+      addMember(membership.role, membership.member);
+    }
+  }
+  for (const permission of permissions) {
+    if (
+      permission.type === "membership" &&
+      permission.options.inherit !== false
+    ) {
+      addMember(permission.group.name, permission.user.name);
+    }
+  }
+
+  const result = new Map<string, SQLActor[]>();
+  for (const group of directMembers.keys()) {
+    const members = new Set<string>();
+    const queue = [group];
+    while (queue.length > 0) {
+      for (const member of directMembers.get(queue.pop()!) ?? []) {
+        if (member !== group && !members.has(member)) {
+          members.add(member);
+          queue.push(member);
+        }
+      }
+    }
+    result.set(
+      group,
+      Array.from(members).flatMap((name) => actors.get(name) ?? []),
+    );
+  }
+  return result;
+}
+
+/**
+ * Summaries of the permissions on existing objects, along with the ones
+ * that members inherit from groups
+ */
+function summarizePermissions(
+  permissions: Permission[],
+  entities: SQLEntities,
+): PermissionSummary[] {
+  const members = inheritingMembers(permissions, entities);
+  return existingObjectPermissions(permissions).flatMap((permission) => {
+    const summary = summarizePermission(permission, entities);
+    return [
+      summary,
+      ...(members.get(summary.actor.name) ?? []).map(
+        (member): PermissionSummary => ({
+          ...summary,
+          actor: member,
+          inheritedFrom: summary.actor,
+        }),
+      ),
+    ];
+  });
+}
+
+function sortSummaries(summaries: PermissionSummary[]): PermissionSummary[] {
+  const key = (summary: PermissionSummary) =>
+    [
+      summary.actor.name,
+      summary.object.type,
+      objectName(summary.object),
+      summary.privilege,
+    ].join("\0");
+  return summaries.sort((a, b) => key(a).localeCompare(key(b)));
+}
+
+function validatePrivilege(privilege: string): string {
+  const upper = privilege.toUpperCase();
+  if (!AllPrivileges.has(upper)) {
+    throw new ExplainError(`Invalid privilege: ${privilege}`);
+  }
+  return upper;
+}
+
+function validateObject(entities: SQLEntities, name: string): void {
+  const objects: SQLGrantObject[] = [
+    ...entities.schemas,
+    ...entities.tables.map((table) => table.table),
+    ...entities.views,
+    ...entities.materializedViews,
+    ...entities.functions,
+    ...entities.procedures,
+    ...entities.aggregates,
+    ...entities.sequences,
+    ...entities.types,
+    ...entities.domains,
+    ...entities.foreignDataWrappers,
+    ...entities.foreignServers,
+    ...entities.foreignTables.map((table) => table.table),
+    ...entities.databases,
+    ...entities.parameters,
+    ...entities.tablespaces,
+    ...entities.languages,
+    ...entities.largeObjects,
+  ];
+  if (!objects.some((object) => matchesObject(object, name))) {
+    throw new ExplainError(`Database object not found: ${name}`);
+  }
+}
+
+function validateActor(entities: SQLEntities, name: string): void {
+  const actors = (entities.users as SQLActor[]).concat(entities.groups);
+  if (!actors.some((actor) => actor.name === name)) {
+    throw new ExplainError(`User or group not found: ${name}`);
+  }
+}
+
+export interface WhoCanArgs {
+  permissions: Permission[];
+  entities: SQLEntities;
+  privilege: string;
+  object: string;
+}
+
+/**
+ * List every actor that has a privilege on a database object
+ */
+export function whoCan({
+  permissions,
+  entities,
+  privilege,
+  object,
+}: WhoCanArgs): PermissionSummary[] {
+  const upperPrivilege = validatePrivilege(privilege);
+  validateObject(entities, object);
+
+  return sortSummaries(
+    summarizePermissions(permissions, entities).filter(
+      (summary) =>
+        summary.privilege === upperPrivilege &&
+        matchesObject(summary.object, object),
+    ),
+  );
+}
+
+export interface CanArgs extends WhoCanArgs {
+  actor: string;
+}
+
+export type Access = "yes" | "no" | "partial";
+
+export interface CanResult {
+  access: Access;
+  permissions: PermissionSummary[];
+}
+
+/**
+ * Check whether an actor has a privilege on a database object. Access is
+ * `partial` if it is limited to some columns or rows
+ */
+export function can({ actor, ...args }: CanArgs): CanResult {
+  validateActor(args.entities, actor);
+
+  const permissions = whoCan(args).filter(
+    (summary) => summary.actor.name === actor,
+  );
+  if (permissions.length === 0) {
+    return { access: "no", permissions };
+  }
+  const full = permissions.some(
+    (summary) => summary.columns === null && summary.rows === null,
+  );
+  return { access: full ? "yes" : "partial", permissions };
+}
+
+export interface ExplainArgs {
+  permissions: Permission[];
+  entities: SQLEntities;
+  actor: string;
+}
+
+/**
+ * List every privilege that an actor has
+ */
+export function explain({
+  permissions,
+  entities,
+  actor,
+}: ExplainArgs): PermissionSummary[] {
+  validateActor(entities, actor);
+
+  return sortSummaries(
+    summarizePermissions(permissions, entities).filter(
+      (summary) => summary.actor.name === actor,
+    ),
+  );
+}
+
+export function formatPermissionSummary(summary: PermissionSummary): string {
+  const lines = [
+    `${summary.actor.name}: ${summary.privilege} on ${
+      summary.object.type
+    } ${objectName(summary.object)}`,
+  ];
+  if (summary.columns !== null) {
+    lines.push(`  columns: ${summary.columns.join(", ")}`);
+  }
+  if (summary.rows !== null) {
+    lines.push(`  rows: ${summary.rows}`);
+  }
+  if (summary.inheritedFrom !== null) {
+    lines.push(`  inherited from: ${summary.inheritedFrom.name}`);
+  }
+  if (summary.sources.length > 0) {
+    lines.push(`  rules: ${formatRuleSources(summary.sources)}`);
+  }
+  return lines.join("\n");
+}
+
+export class ExplainError extends Error {}
@@ -0,0 +1,1068 @@
+import { SQLBackend, SQLEntities } from "./backend.js";
+import {
+  DefaultPrivilegeObjectType,
+  SQLActor,
+  SQLGrantObject,
+  SQLRoleMembership,
+  SQLRoleSetting,
+  SQLRowLevelSecurityPolicy,
+  SQLRowLevelSecurityPolicyPrivilege,
+  SQLRowLevelSecurityPolicyPrivileges,
+  formatSignature,
+  objectSchema,
+  parseSettingValue,
+  resourceTypeName,
+} from "./sql.js";
+
+export interface ImportRulesArgs {
+  backend: SQLBackend;
+  entities?: SQLEntities;
+}
+
+export interface ImportRulesResult {
+  rules: string;
+  warnings: string[];
+}
+
+const ObjectPrivileges: Record<SQLGrantObject["type"], string[]> = {
+  schema: ["usage", "create"],
+  table: [
+    "select",
+    "insert",
+    "update",
+    "delete",
+    "truncate",
+    "references",
+    "trigger",
+  ],
+  view: ["select", "insert", "update", "delete", "trigger"],
+  "materialized-view": ["select"],
+  function: ["execute"],
+  procedure: ["execute"],
+  aggregate: ["execute"],
+  sequence: ["usage", "select", "update"],
+  type: ["usage"],
+  domain: ["usage"],
+  "foreign-data-wrapper": ["usage"],
+  "foreign-server": ["usage"],
+  "foreign-table": ["select", "insert", "update", "delete"],
+  database: ["connect", "temporary", "create"],
+  parameter: ["set", "alter system"],
+  tablespace: ["create"],
+  language: ["usage"],
+  "large-object": ["select", "update"],
+};
+
+const ObjectTypes = Object.keys(ObjectPrivileges) as SQLGrantObject["type"][];
+
+// Rules that grant on every object of these types in a schema also grant
+// default privileges on objects created in the future
+const DefaultObjectTypes: Record<
+  DefaultPrivilegeObjectType,
+  SQLGrantObject["type"][]
+> = {
+  table: ["table", "view", "materialized-view", "foreign-table"],
+  sequence: ["sequence"],
+  function: ["function", "procedure", "aggregate"],
+};
+
+const ColumnPrivileges = ["select", "insert", "update"];
+
+// Types of objects that aren't contained in a schema, other than schemas.
+// Their names can be the same as a schema's, so rules for them also match
+// on the type.
+const TopLevelObjectTypes = new Set<SQLGrantObject["type"]>([
+  "foreign-data-wrapper",
+  "foreign-server",
+  "database",
+  "parameter",
+  "tablespace",
+  "language",
+  "large-object",
+]);
+
+const PolarIdentifier = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Thrown when a row-level security expression cannot be expressed as a
+ * polar rule
+ */
+class UntranslatableError extends Error {}
+
+type SqlToken =
+  | { type: "ident"; value: string; quoted: boolean }
+  | { type: "string"; value: string }
+  | { type: "number"; value: string }
+  | { type: "op"; value: string };
+
+type SqlExpr =
+  | { type: "and" | "or"; clauses: SqlExpr[] }
+  | { type: "not"; clause: SqlExpr }
+  | { type: "compare"; operator: string; left: SqlExpr; right: SqlExpr }
+  | { type: "column"; name: string }
+  | { type: "literal"; value: string | number | boolean }
+  | { type: "call"; schema: string | null; name: string; args: SqlExpr[] }
+  | { type: "cast"; value: SqlExpr; to: string };
+
+const ComparisonOperators: Record<string, string> = {
+  "=": "==",
+  "<>": "!=",
+  "!=": "!=",
+  "<": "<",
+  "<=": "<=",
+  ">": ">",
+  ">=": ">=",
+};
+
+const Keywords = new Set(["and", "or", "not", "true", "false"]);
+
+function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let idx = 0;
+  while (idx < sql.length) {
+    const rest = sql.slice(idx);
+    const whitespace = /^\s+/.exec(rest);
+    if (whitespace) {
+      idx += whitespace[0].length;
+      continue;
+    }
+    const string = /^'((?:[^']|'')*)'/.exec(rest);
+    if (string) {
+      tokens.push({ type: "string", value: string[1]!.replaceAll("''", "'") });
+      idx += string[0].length;
+      continue;
+    }
+    const quoted = /^"((?:[^"]|"")*)"/.exec(rest);
+    if (quoted) {
+      tokens.push({
+        type: "ident",
+        value: quoted[1]!.replaceAll('""', '"'),
+        quoted: true,
+      });
+      idx += quoted[0].length;
+      continue;
+    }
+    const ident = /^[A-Za-z_][A-Za-z0-9_$]*/.exec(rest);
+    if (ident) {
+      tokens.push({
+        type: "ident",
+        value: ident[0].toLowerCase(),
+        quoted: false,
+      });
+      idx += ident[0].length;
+      continue;
+    }
+    const number = /^-?\d+(\.\d+)?/.exec(rest);
+    if (number) {
+      tokens.push({ type: "number", value: number[0] });
+      idx += number[0].length;
+      continue;
+    }
+    const op = /^(::|<>|!=|<=|>=|[=<>(),.[\]])/.exec(rest);
+    if (op) {
+      tokens.push({ type: "op", value: op[0] });
+      idx += op[0].length;
+      continue;
+    }
+    throw new UntranslatableError(`Unsupported expression: ${sql}`);
+  }
+  return tokens;
+}
+
+function parseSql(sql: string): SqlExpr {
+  const tokens = tokenizeSql(sql);
+  let pos = 0;
+
+  const unsupported = () =>
+    new UntranslatableError(`Unsupported expression: ${sql}`);
+
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => {
+    const token = peek();
+    return token?.type === "op" && token.value === value;
+  };
+  const isKeyword = (value: string) => {
+    const token = peek();
+    return token?.type === "ident" && !token.quoted && token.value === value;
+  };
+  const expectOp = (value: string) => {
+    if (!isOp(value)) {
+      throw unsupported();
+    }
+    pos++;
+  };
+
+  const parseType = (): string => {
+    const parts: string[] = [];
+    let token = peek();
+    while (
+      token?.type === "ident" &&
+      (token.quoted || !Keywords.has(token.value))
+    ) {
+      parts.push(token.value);
+      pos++;
+      token = peek();
+    }
+    if (parts.length === 0) {
+      throw unsupported();
+    }
+    if (isOp("(")) {
+      pos++;
+      const args: string[] = [];
+      while (!isOp(")")) {
+        args.push(tokens[pos++]?.value ?? "");
+        if (pos >= tokens.length) {
+          throw unsupported();
+        }
+      }
+      pos++;
+      parts.push(`(${args.join("")})`);
+    }
+    if (isOp("[")) {
+      throw unsupported();
+    }
+    return parts.join(" ");
+  };
+
+  const parsePrimary = (): SqlExpr => {
+    const token = peek();
+    if (!token) {
+      throw unsupported();
+    }
+    pos++;
+    if (token.type === "string") {
+      return { type: "literal", value: token.value };
+    }
+    if (token.type === "number") {
+      return { type: "literal", value: Number(token.value) };
+    }
+    if (token.type === "op") {
+      if (token.value !== "(") {
+        throw unsupported();
+      }
+      const expr = parseOr();
+      expectOp(")");
+      return expr;
+    }
+    if (!token.quoted && (token.value === "true" || token.value === "false")) {
+      return { type: "literal", value: token.value === "true" };
+    }
+    if (!token.quoted && Keywords.has(token.value)) {
+      throw unsupported();
+    }
+
+    let schema: string | null = null;
+    let name = token.value;
+    if (isOp(".")) {
+      pos++;
+      const next = peek();
+      if (next?.type !== "ident") {
+        throw unsupported();
+      }
+      pos++;
+      schema = name;
+      name = next.value;
+    }
+    if (!isOp("(")) {
+      if (schema !== null) {
+        throw unsupported();
+      }
+      return { type: "column", name };
+    }
+    pos++;
+    const args: SqlExpr[] = [];
+    while (!isOp(")")) {
+      args.push(parseOr());
+      if (isOp(",")) {
+        pos++;
+      } else if (!isOp(")")) {
+        throw unsupported();
+      }
+    }
+    pos++;
+    return { type: "call", schema, name, args };
+  };
+
+  const parseOperand = (): SqlExpr => {
+    let expr = parsePrimary();
+    while (isOp("::")) {
+      pos++;
+      expr = { type: "cast", value: expr, to: parseType() };
+    }
+    return expr;
+  };
+
+  const parseComparison = (): SqlExpr => {
+    const left = parseOperand();
+    const token = peek();
+    if (token?.type === "op" && ComparisonOperators[token.value]) {
+      pos++;
+      const right = parseOperand();
+      return { type: "compare", operator: token.value, left, right };
+    }
+    return left;
+  };
+
+  const parseNot = (): SqlExpr => {
+    if (isKeyword("not")) {
+      pos++;
+      return { type: "not", clause: parseNot() };
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = (): SqlExpr => {
+    const clauses = [parseNot()];
+    while (isKeyword("and")) {
+      pos++;
+      clauses.push(parseNot());
+    }
+    return clauses.length === 1 ? clauses[0]! : { type: "and", clauses };
+  };
+
+  const parseOr = (): SqlExpr => {
+    const clauses = [parseAnd()];
+    while (isKeyword("or")) {
+      pos++;
+      clauses.push(parseAnd());
+    }
+    return clauses.length === 1 ? clauses[0]! : { type: "or", clauses };
+  };
+
+  const expr = parseOr();
+  if (pos !== tokens.length) {
+    throw unsupported();
+  }
+  return expr;
+}
+
+function polarString(value: string): string {
+  return JSON.stringify(value);
+}
+
+function polarList(values: string[]): string {
+  return `[${values.map(polarString).join(", ")}]`;
+}
+
+function sqlToPolar(expr: SqlExpr): string {
+  switch (expr.type) {
+    case "and":
+      return expr.clauses.map(sqlToPolar).join(" and ");
+    case "or":
+      return `(${expr.clauses.map(sqlToPolar).join(" or ")})`;
+    case "not":
+      return `not (${sqlToPolar(expr.clause)})`;
+    case "compare": {
+      const left = sqlToPolar(expr.left);
+      const right = sqlToPolar(expr.right);
+      return `${left} ${ComparisonOperators[expr.operator]} ${right}`;
+    }
+    case "column":
+      if (!PolarIdentifier.test(expr.name)) {
+        throw new UntranslatableError(`Unsupported column name: ${expr.name}`);
+      }
+      return `resource.row.${expr.name}`;
+    case "literal":
+      if (typeof expr.value === "string") {
+        return polarString(expr.value);
+      }
+      return String(expr.value);
+    case "call": {
+      const parts =
+        expr.schema === null ? [expr.name] : [expr.schema, expr.name];
+      if (!parts.every((part) => PolarIdentifier.test(part))) {
+        throw new UntranslatableError(`Unsupported function: ${expr.name}`);
+      }
+      const args = expr.args.map(sqlToPolar);
+      return `sql.${parts.join(".")}(${args.join(", ")})`;
+    }
+    case "cast":
+      // Postgres adds casts to columns and literals when deparsing policy
+      // expressions; comparisons infer the same types without them.
+      if (expr.value.type === "column" || expr.value.type === "literal") {
+        return sqlToPolar(expr.value);
+      }
+      return `sql.cast(${sqlToPolar(expr.value)}, ${polarString(expr.to)})`;
+  }
+}
+
+/**
+ * Simplify constant `true` and `false` values out of an expression. Returns
+ * a boolean if the expression is constant
+ */
+function simplifySql(expr: SqlExpr): SqlExpr | boolean {
+  switch (expr.type) {
+    case "and":
+    case "or": {
+      const identity = expr.type === "and";
+      const clauses: SqlExpr[] = [];
+      for (const clause of expr.clauses) {
+        const simplified = simplifySql(clause);
+        if (simplified === identity) {
+          continue;
+        }
+        if (simplified === !identity) {
+          return !identity;
+        }
+        clauses.push(simplified as SqlExpr);
+      }
+      if (clauses.length === 0) {
+        return identity;
+      }
+      return clauses.length === 1 ? clauses[0]! : { type: expr.type, clauses };
+    }
+    case "not": {
+      const simplified = simplifySql(expr.clause);
+      if (typeof simplified === "boolean") {
+        return !simplified;
+      }
+      return { type: "not", clause: simplified };
+    }
+    case "literal":
+      return typeof expr.value === "boolean" ? expr.value : expr;
+    default:
+      return expr;
+  }
+}
+
+function policyExpression(
+  policy: SQLRowLevelSecurityPolicy,
+  privilege: SQLRowLevelSecurityPolicyPrivilege,
+): string {
+  let sql: string | null;
+  if (privilege === "INSERT") {
+    sql = policy.withCheck ?? policy.using;
+  } else {
+    sql = policy.using ?? policy.withCheck;
+  }
+  return sql ?? "true";
+}
+
+function policyAppliesTo(
+  policy: SQLRowLevelSecurityPolicy,
+  actor: SQLActor,
+): boolean {
+  if (policy.isDefault) {
+    return true;
+  }
+  if (actor.type === "group") {
+    return policy.groups.some((group) => group.name === actor.name);
+  }
+  return (
+    policy.users.some((user) => user.name === actor.name) ||
+    policy.groups.some((group) =>
+      group.users.some((user) => user.name === actor.name),
+    )
+  );
+}
+
+/**
+ * Combine the row-level security policies that apply to an actor into
+ * polar conditions. Returns `true` if the actor can access all rows, and
+ * an empty array if it cannot access any rows. Each item in the returned
+ * array is a separate alternative
+ */
+function rowConditions(
+  policies: SQLRowLevelSecurityPolicy[],
+  actor: SQLActor,
+  privilege: SQLRowLevelSecurityPolicyPrivilege,
+): string[] | true {
+  const applicable = policies.filter(
+    (policy) =>
+      policy.privileges.has(privilege) && policyAppliesTo(policy, actor),
+  );
+  const restrictive = applicable
+    .filter((policy) => policy.permissive === "RESTRICTIVE")
+    .map((policy) => parseSql(policyExpression(policy, privilege)));
+
+  const alternatives = new Set<string>();
+  for (const policy of applicable) {
+    if (policy.permissive !== "PERMISSIVE") {
+      continue;
+    }
+    const expr = simplifySql({
+      type: "and",
+      clauses: [parseSql(policyExpression(policy, privilege)), ...restrictive],
+    });
+    if (expr === true) {
+      return true;
+    }
+    if (expr !== false) {
+      alternatives.add(sqlToPolar(expr));
+    }
+  }
+  return Array.from(alternatives);
+}
+
+function objectName(object: SQLGrantObject): string {
+  if (!("schema" in object)) {
+    return object.name;
+  }
+  if (
+    object.type === "function" ||
+    object.type === "procedure" ||
+    object.type === "aggregate"
+  ) {
+    return `${object.schema}.${formatSignature(object)}`;
+  }
+  return `${object.schema}.${object.name}`;
+}
+
+function sortPrivileges(
+  type: SQLGrantObject["type"],
+  privileges: Iterable<string>,
+): string[] {
+  const order = ObjectPrivileges[type];
+  return Array.from(new Set(privileges)).sort(
+    (a, b) => order.indexOf(a) - order.indexOf(b),
+  );
+}
+
+function formatRule(
+  actor: string,
+  privileges: string[],
+  resource: string | string[] | null,
+  conditions: string[] = [],
+): string {
+  const action =
+    privileges.length === 1 ? polarString(privileges[0]!) : "action";
+  const body: string[] = [];
+  let resourceArg = "resource";
+  if (Array.isArray(resource)) {
+    body.push(`resource in ${polarList(resource)}`);
+  } else if (resource === null) {
+    // Only constrained by `conditions`
+  } else if (conditions.length === 0) {
+    resourceArg = polarString(resource);
+  } else {
+    body.push(`resource == ${polarString(resource)}`);
+  }
+  body.push(...conditions);
+  if (privileges.length > 1) {
+    body.push(`action in ${polarList(privileges)}`);
+  }
+
+  const head = `allow(${polarString(actor)}, ${action}, ${resourceArg})`;
+  if (body.length === 0) {
+    return `${head};`;
+  }
+  return `${head}\n    if ${body.join("\n    and ")};`;
+}
+
+/**
+ * Options are only included if they differ from PostgreSQL's defaults
+ */
+function formatMemberRule(membership: SQLRoleMembership): string {
+  const conditions: string[] = [];
+  if (membership.admin) {
+    conditions.push("group.admin == true");
+  }
+  if (!membership.inherit) {
+    conditions.push("group.inherit == false");
+  }
+  if (!membership.set) {
+    conditions.push("group.set == false");
+  }
+  const actor = polarString(membership.member);
+  const group = polarString(membership.role);
+  if (conditions.length === 0) {
+    return `member(${actor}, ${group});`;
+  }
+  const body = [`group == ${group}`, ...conditions];
+  return `member(${actor}, group)\n    if ${body.join("\n    and ")};`;
+}
+
+function formatSettingRule(setting: SQLRoleSetting): string {
+  const parsed = parseSettingValue(setting.name, setting.value);
+  const value = Array.isArray(parsed)
+    ? polarList(parsed)
+    : polarString(parsed.toString());
+  const actor = polarString(setting.role);
+  const name = polarString(setting.name);
+  if (setting.database === null) {
+    return `setting(${actor}, ${name}, ${value});`;
+  }
+  const body = [
+    `name == ${name}`,
+    `name.database == ${polarString(setting.database)}`,
+  ];
+  return `setting(${actor}, name, ${value})\n    if ${body.join(
+    "\n    and ",
+  )};`;
+}
+
+function commentOut(rule: string): string {
+  return rule
+    .split("\n")
+    .map((line) => `# ${line}`)
+    .join("\n");
+}
+
+interface ObjectGrants {
+  object: SQLGrantObject;
+  privileges: Set<string>;
+  columns: Record<string, Set<string>>;
+}
+
+export async function importRules({
+  backend,
+  entities,
+}: ImportRulesArgs): Promise<ImportRulesResult> {
+  if (entities === undefined) {
+    entities = await backend.fetchEntities();
+  }
+
+  const actors = new Map<string, SQLActor>();
+  for (const actor of (entities.users as SQLActor[]).concat(entities.groups)) {
+    actors.set(actor.name, actor);
+  }
+
+  const objectsBySchemaAndType: Record<string, string[]> = {};
+  const allObjects: SQLGrantObject[] = [
+    ...entities.schemas,
+    ...entities.tables.map((table) => table.table),
+    ...entities.views,
+    ...entities.materializedViews,
+    ...entities.functions,
+    ...entities.procedures,
+    ...entities.aggregates,
+    ...entities.sequences,
+    ...entities.types,
+    ...entities.domains,
+    ...entities.foreignDataWrappers,
+    ...entities.foreignServers,
+    ...entities.databases,
+    ...entities.parameters,
+    ...entities.tablespaces,
+    ...entities.languages,
+    ...entities.largeObjects,
+    ...entities.foreignTables.map((table) => table.table),
+  ];
+  for (const object of allObjects) {
+    // Objects that aren't contained in a schema are never grouped by schema
+    const schema = objectSchema(object);
+    if (schema === null) {
+      continue;
+    }
+    const key = `${object.type}:${schema}`;
+    objectsBySchemaAndType[key] ??= [];
+    objectsBySchemaAndType[key]!.push(objectName(object));
+  }
+
+  // Functions, procedures and aggregates are keyed by their signatures, but
+  // rules only need to match on them when there are overloads with the same
+  // name
+  const routineResources = new Map<
+    string,
+    { resource: string; conditions: string[] }
+  >();
+  const routines = [
+    ...entities.functions,
+    ...entities.procedures,
+    ...entities.aggregates,
+  ];
+  const overloads: Record<string, number> = {};
+  for (const routine of routines) {
+    const resource = `${routine.schema}.${routine.name}`;
+    overloads[resource] = (overloads[resource] ?? 0) + 1;
+  }
+  for (const routine of routines) {
+    const resource = `${routine.schema}.${routine.name}`;
+    routineResources.set(objectName(routine), {
+      resource,
+      conditions:
+        overloads[resource]! > 1
+          ? [`resource.signature == ${polarString(formatSignature(routine))}`]
+          : [],
+    });
+  }
+
+  const rlsTables = new Set(
+    entities.tables
+      .filter((table) => table.rlsEnabled)
+      .map((table) => objectName(table.table)),
+  );
+  const policiesByTable: Record<string, SQLRowLevelSecurityPolicy[]> = {};
+  for (const policy of entities.rlsPolicies) {
+    const name = objectName(policy.table);
+    policiesByTable[name] ??= [];
+    policiesByTable[name]!.push(policy);
+  }
+
+  // Privileges granted by a role to itself are the owner's privileges, which
+  // cannot be managed with sqlauthz, but owners can still be covered by
+  // rules for every object in a schema. Grants to PUBLIC are also skipped.
+  const grantsByActor: Record<string, Record<string, ObjectGrants>> = {};
+  const ownedByActor: Record<string, Set<string>> = {};
+  for (const grant of entities.grants) {
+    if (grant.grantee === grant.grantor) {
+      ownedByActor[grant.grantee] ??= new Set();
+      ownedByActor[grant.grantee]!.add(
+        `${grant.object.type}:${objectName(grant.object)}`,
+      );
+      continue;
+    }
+    if (!actors.has(grant.grantee)) {
+      continue;
+    }
+    const privilege = grant.privilege.toLowerCase();
+    if (!ObjectPrivileges[grant.object.type].includes(privilege)) {
+      continue;
+    }
+    grantsByActor[grant.grantee] ??= {};
+    const objects = grantsByActor[grant.grantee]!;
+    const key = `${grant.object.type}:${objectName(grant.object)}`;
+    objects[key] ??= {
+      object: grant.object,
+      privileges: new Set(),
+      columns: {},
+    };
+    const objectGrants = objects[key]!;
+    if (grant.column === null) {
+      objectGrants.privileges.add(privilege);
+    } else {
+      objectGrants.columns[privilege] ??= new Set();
+      objectGrants.columns[privilege]!.add(grant.column);
+    }
+  }
+
+  const warnings: string[] = [];
+  const sections: string[] = [];
+
+  // Default privileges keyed by actor, then by type and schema. Only those
+  // for objects created by the schema owner can be expressed in rules.
+  const schemaOwners = new Map(
+    entities.schemas.map((schema) => [schema.name, schema.owner]),
+  );
+  const defaultsByActor: Record<string, Record<string, Set<string>>> = {};
+  for (const grant of entities.defaultPrivileges) {
+    if (!actors.has(grant.grantee)) {
+      continue;
+    }
+    const privilege = grant.privilege.toLowerCase();
+    if (
+      grant.schema === null ||
+      grant.owner !== schemaOwners.get(grant.schema)
+    ) {
+      const where = grant.schema === null ? "" : ` in ${grant.schema}`;
+      const objects = `${grant.objectType}s created by ${grant.owner}${where}`;
+      warnings.push(
+        `${grant.grantee} has default ${privilege.toUpperCase()} on ` +
+          `${objects}, which cannot be expressed in rules`,
+      );
+      continue;
+    }
+    defaultsByActor[grant.grantee] ??= {};
+    const defaults = defaultsByActor[grant.grantee]!;
+    const key = `${grant.objectType}:${grant.schema}`;
+    defaults[key] ??= new Set();
+    defaults[key]!.add(privilege);
+  }
+
+  // Only groups and predefined roles can be granted by rules
+  const grantableRoles = new Set(
+    entities.groups.concat(entities.predefinedRoles).map((group) => group.name),
+  );
+  const membershipsByActor: Record<string, SQLRoleMembership[]> = {};
+  for (const membership of entities.memberships) {
+    if (!actors.has(membership.member)) {
+      continue;
+    }
+    if (!grantableRoles.has(membership.role)) {
+      const { member, role } = membership;
+      warnings.push(
+        `${member} is a member of ${role}, which cannot be expressed in rules`,
+      );
+      continue;
+    }
+    membershipsByActor[membership.member] ??= [];
+    membershipsByActor[membership.member]!.push(membership);
+  }
+
+  const settingsByActor: Record<string, SQLRoleSetting[]> = {};
+  for (const setting of entities.settings) {
+    if (actors.has(setting.role)) {
+      settingsByActor[setting.role] ??= [];
+      settingsByActor[setting.role]!.push(setting);
+    }
+  }
+
+  const actorNames = new Set([
+    ...Object.keys(grantsByActor),
+    ...Object.keys(defaultsByActor),
+    ...Object.keys(membershipsByActor),
+    ...Object.keys(settingsByActor),
+  ]);
+  for (const actorName of Array.from(actorNames).sort()) {
+    const actor = actors.get(actorName)!;
+    const objects = Object.values(grantsByActor[actorName] ?? {});
+    const defaults = defaultsByActor[actorName] ?? {};
+    const rules = (membershipsByActor[actorName] ?? [])
+      .sort((a, b) => a.role.localeCompare(b.role))
+      .map(formatMemberRule);
+    rules.push(
+      ...(settingsByActor[actorName] ?? [])
+        .sort(
+          (a, b) =>
+            (a.database ?? "").localeCompare(b.database ?? "") ||
+            a.name.localeCompare(b.name),
+        )
+        .map(formatSettingRule),
+    );
+
+    // Privileges on whole objects that apply to every row, keyed by type
+    // and object name
+    const unconditioned: Record<string, Record<string, Set<string>>> = {};
+    const conditioned: string[] = [];
+    const owned = ownedByActor[actorName] ?? new Set();
+    const hasPrivilege = (type: string, name: string, privilege: string) =>
+      unconditioned[type]?.[name]?.has(privilege) ||
+      owned.has(`${type}:${name}`);
+
+    for (const { object, privileges, columns } of objects) {
+      const name = objectName(object);
+      const fullPrivileges: string[] = [];
+      const byCondition: Record<
+        string,
+        { conditions: string[]; privileges: string[] }
+      > = {};
+
+      const addConditioned = (privilege: string, conditions: string[]) => {
+        const key = JSON.stringify(conditions);
+        byCondition[key] ??= { conditions, privileges: [] };
+        byCondition[key]!.privileges.push(privilege);
+      };
+
+      const allPrivileges = new Set(privileges);
+      for (const privilege of Object.keys(columns)) {
+        allPrivileges.add(privilege);
+      }
+
+      for (const privilege of sortPrivileges(object.type, allPrivileges)) {
+        const columnConditions: string[] = [];
+        if (!privileges.has(privilege)) {
+          const grantColumns = Array.from(columns[privilege]!).sort();
+          if (
+            (object.type !== "table" && object.type !== "foreign-table") ||
+            !ColumnPrivileges.includes(privilege)
+          ) {
+            warnings.push(
+              `${actorName} has column-level ${privilege.toUpperCase()} on ` +
+                `${name}, which cannot be expressed in rules`,
+            );
+            continue;
+          }
+          columnConditions.push(`resource.col in ${polarList(grantColumns)}`);
+        }
+
+        const rlsPrivilege =
+          privilege.toUpperCase() as SQLRowLevelSecurityPolicyPrivilege;
+        if (
+          object.type !== "table" ||
+          !rlsTables.has(name) ||
+          !SQLRowLevelSecurityPolicyPrivileges.includes(rlsPrivilege)
+        ) {
+          if (columnConditions.length === 0) {
+            fullPrivileges.push(privilege);
+          } else {
+            addConditioned(privilege, columnConditions);
+          }
+          continue;
+        }
+
+        let alternatives: string[] | true;
+        try {
+          alternatives = rowConditions(
+            policiesByTable[name] ?? [],
+            actor,
+            rlsPrivilege,
+          );
+        } catch (error) {
+          if (!(error instanceof UntranslatableError)) {
+            throw error;
+          }
+          const message = `Unable to translate row-level security policies for ${actorName} ${privilege.toUpperCase()} on ${name}: ${
+            error.message
+          }`;
+          warnings.push(message);
+          conditioned.push(
+            `# TODO: ${message}\n${commentOut(
+              formatRule(actorName, [privilege], name, columnConditions),
+            )}`,
+          );
+          continue;
+        }
+
+        if (alternatives === true) {
+          if (columnConditions.length === 0) {
+            fullPrivileges.push(privilege);
+          } else {
+            addConditioned(privilege, columnConditions);
+          }
+          continue;
+        }
+        if (alternatives.length === 0) {
+          warnings.push(
+            `${actorName} has ${privilege.toUpperCase()} on ${name}, but no row-level security policy gives it access to any rows`,
+          );
+          continue;
+        }
+        for (const alternative of alternatives) {
+          addConditioned(privilege, [...columnConditions, alternative]);
+        }
+      }
+
+      if (fullPrivileges.length > 0) {
+        unconditioned[object.type] ??= {};
+        unconditioned[object.type]![name] = new Set(fullPrivileges);
+      }
+      for (const { conditions, privileges } of Object.values(byCondition)) {
+        conditioned.push(formatRule(actorName, privileges, name, conditions));
+      }
+    }
+
+    // Default privileges are set by rules that grant on every type of object
+    // they apply to in a schema, so they can only be expressed if every
+    // existing object of those types has the privilege as well
+    for (const key of Object.keys(defaults).sort()) {
+      const [defaultType, schema] = key.split(":") as [
+        DefaultPrivilegeObjectType,
+        string,
+      ];
+      const types = DefaultObjectTypes[defaultType];
+      const privileges = sortPrivileges(defaultType, defaults[key]!).filter(
+        (privilege) => {
+          const covered = types.every(
+            (type) =>
+              !ObjectPrivileges[type].includes(privilege) ||
+              (objectsBySchemaAndType[`${type}:${schema}`] ?? []).every(
+                (name) => hasPrivilege(type, name, privilege),
+              ),
+          );
+          if (!covered) {
+            warnings.push(
+              `${actorName} has default ${privilege.toUpperCase()} on ` +
+                `${defaultType}s in ${schema} but not on every existing object they apply to, which cannot be expressed in rules`,
+            );
+          }
+          return covered;
+        },
+      );
+      if (privileges.length === 0) {
+        continue;
+      }
+      const typeNames = types.map(resourceTypeName);
+      rules.push(
+        formatRule(actorName, privileges, null, [
+          typeNames.length === 1
+            ? `resource.type == ${polarString(typeNames[0]!)}`
+            : `resource.type in ${polarList(typeNames)}`,
+          `resource.schema == ${polarString(schema)}`,
+        ]),
+      );
+      for (const type of types) {
+        for (const name of objectsBySchemaAndType[`${type}:${schema}`] ?? []) {
+          for (const privilege of privileges) {
+            unconditioned[type]?.[name]?.delete(privilege);
+          }
+        }
+      }
+    }
+
+    for (const type of ObjectTypes) {
+      const objectPrivileges = unconditioned[type];
+      if (!objectPrivileges) {
+        continue;
+      }
+
+      // Group privileges that are granted on every object of a type in a
+      // schema into a single rule
+      const bySchema: Record<string, string[]> = {};
+      for (const name of Object.keys(objectPrivileges)) {
+        const schema = type === "schema" ? name : name.split(".")[0]!;
+        bySchema[schema] ??= [];
+        bySchema[schema]!.push(name);
+      }
+      for (const schema of Object.keys(bySchema).sort()) {
+        const schemaObjects = objectsBySchemaAndType[`${type}:${schema}`] ?? [];
+        if (
+          type === "schema" ||
+          TopLevelObjectTypes.has(type) ||
+          schemaObjects.length < 2
+        ) {
+          continue;
+        }
+        const schemaPrivileges = ObjectPrivileges[type].filter((privilege) =>
+          schemaObjects.every((name) => hasPrivilege(type, name, privilege)),
+        );
+        if (schemaPrivileges.length === 0) {
+          continue;
+        }
+        rules.push(
+          formatRule(actorName, schemaPrivileges, null, [
+            `resource.type == ${polarString(resourceTypeName(type))}`,
+            `resource.schema == ${polarString(schema)}`,
+          ]),
+        );
+        for (const name of schemaObjects) {
+          for (const privilege of schemaPrivileges) {
+            objectPrivileges[name]?.delete(privilege);
+          }
+        }
+      }
+
+      // Group objects with the same set of privileges into a single rule
+      const byPrivileges: Record<string, string[]> = {};
+      for (const name of Object.keys(objectPrivileges).sort()) {
+        const privileges = sortPrivileges(type, objectPrivileges[name]!);
+        if (privileges.length === 0) {
+          continue;
+        }
+        const routine =
+          type === "function" || type === "procedure" || type === "aggregate"
+            ? routineResources.get(name)
+            : undefined;
+        if (routine && routine.conditions.length > 0) {
+          rules.push(
+            formatRule(
+              actorName,
+              privileges,
+              routine.resource,
+              routine.conditions,
+            ),
+          );
+          continue;
+        }
+        const key = privileges.join(",");
+        byPrivileges[key] ??= [];
+        byPrivileges[key]!.push(routine?.resource ?? name);
+      }
+      for (const [key, names] of Object.entries(byPrivileges)) {
+        rules.push(
+          formatRule(
+            actorName,
+            key.split(","),
+            names.length === 1 ? names[0]! : names,
+            TopLevelObjectTypes.has(type)
+              ? [`resource.type == ${polarString(resourceTypeName(type))}`]
+              : [],
+          ),
+        );
+      }
+    }
+
+    rules.push(...conditioned);
+    sections.push(`# ${actor.type} ${actorName}\n${rules.join("\n\n")}`);
+  }
+
+  const header = [
+    "# Generated by `sqlauthz import` from existing privileges, role",
+    "# memberships, role settings and row-level security policies. Review",
+    "# these rules before using them.",
+  ].join("\n");
+
+  return {
+    rules: `${[header, ...sections].join("\n\n")}\n`,
+    warnings,
+  };
+}
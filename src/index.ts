@@ -1,2 +1,30 @@
-export { compileQuery } from "./api.js";
+export {
+  checkPermissions,
+  compilePermissions,
+  compileQuery,
+} from "./api.js";
+export { DdlBackend, DdlError, parseDdl } from "./ddl.js";
+export { ExplainError, can, explain, whoCan } from "./explain.js";
+export { importRules } from "./import.js";
 export { PostgresBackend } from "./pg-backend.js";
+export {
+  PlanError,
+  applyPlan,
+  createPlan,
+  fingerprintEntities,
+  parsePlan,
+  verifyPlan,
+} from "./plan.js";
+export {
+  RolesError,
+  loadRolesFile,
+  parseRolesFile,
+  planRoles,
+} from "./roles.js";
+export {
+  SnapshotBackend,
+  SnapshotError,
+  createSnapshot,
+  parseSnapshot,
+  serializeSnapshot,
+} from "./snapshot.js";
@@ -1,14 +1,30 @@
 import { AsyncLocalStorage } from "node:async_hooks";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
 import { Oso, Variable } from "oso";
 import { Predicate } from "oso/dist/src/Predicate.js";
 import { Value, valueToClause } from "./clause.js";
 import {
+  AggregatePrivileges,
+  DatabasePrivileges,
+  DomainPrivileges,
+  ForeignDataWrapperPrivileges,
+  ForeignServerPrivileges,
+  ForeignTablePrivileges,
   FunctionPrivileges,
+  LanguagePrivileges,
+  LargeObjectPrivileges,
+  MaterializedViewPrivileges,
+  ParameterPrivileges,
   ProcedurePrivileges,
+  RuleSource,
   SQLFunction,
   SchemaPrivileges,
   SequencePrivileges,
   TablePrivileges,
+  TablespacePrivileges,
+  TypePrivileges,
   ViewPrivileges,
 } from "./sql.js";
 
@@ -80,9 +96,21 @@ export function registerFunctions(
     schema: SchemaPrivileges,
     table: TablePrivileges,
     view: ViewPrivileges,
+    materialized_view: MaterializedViewPrivileges,
     function: FunctionPrivileges,
     procedure: ProcedurePrivileges,
+    aggregate: AggregatePrivileges,
     sequence: SequencePrivileges,
+    type: TypePrivileges,
+    domain: DomainPrivileges,
+    foreign_data_wrapper: ForeignDataWrapperPrivileges,
+    foreign_server: ForeignServerPrivileges,
+    foreign_table: ForeignTablePrivileges,
+    database: DatabasePrivileges,
+    parameter: ParameterPrivileges,
+    tablespace: TablespacePrivileges,
+    language: LanguagePrivileges,
+    large_object: LargeObjectPrivileges,
   };
 
   oso.registerConstant(permissions, "permissions");
@@ -93,6 +121,207 @@ export function registerFunctions(
   };
 }
 
+/**
+ * Name that top-level `allow` rules are renamed to so that queries can
+ * bind the index of the rule that matched
+ */
+export const InstrumentedRuleName = "_sqlauthz_allow";
+
+/**
+ * Name that top-level `member` rules are renamed to, for the same reason
+ */
+export const InstrumentedMemberRuleName = "_sqlauthz_member";
+
+/**
+ * Name that top-level `setting` rules are renamed to, for the same reason
+ */
+export const InstrumentedSettingRuleName = "_sqlauthz_setting";
+
+export interface InstrumentRulesResult {
+  source: string;
+  lines: number[];
+  memberLines: number[];
+  settingLines: number[];
+}
+
+/**
+ * Rewrite each top-level `allow(...)` rule head in a polar source to
+ * `_sqlauthz_allow(<index>, ...)`, where `<index>` counts up from
+ * `startIndex`, each `member(...)` rule head to
+ * `_sqlauthz_member(<index>, ...)`, counting up from `memberStartIndex`,
+ * and each `setting(...)` rule head to `_sqlauthz_setting(<index>, ...)`,
+ * counting up from `settingStartIndex`. Returns the line of each rewritten
+ * rule
+ */
+export function instrumentRules(
+  source: string,
+  startIndex: number,
+  memberStartIndex = 0,
+  settingStartIndex = 0,
+): InstrumentRulesResult {
+  const headPattern = /(allow|member|setting)\s*\(/y;
+  const lines: number[] = [];
+  const memberLines: number[] = [];
+  const settingLines: number[] = [];
+  let out = "";
+  let line = 1;
+  let depth = 0;
+  let ruleStart = true;
+  let idx = 0;
+
+  while (idx < source.length) {
+    const char = source[idx]!;
+    if (char === "\n") {
+      line++;
+    }
+    if (char === "#") {
+      const end = source.indexOf("\n", idx);
+      const stop = end === -1 ? source.length : end;
+      out += source.slice(idx, stop);
+      idx = stop;
+      continue;
+    }
+    if (char === '"') {
+      let end = idx + 1;
+      while (end < source.length && source[end] !== '"') {
+        end += source[end] === "\\" ? 2 : 1;
+      }
+      const literal = source.slice(idx, end + 1);
+      line += literal.split("\n").length - 1;
+      out += literal;
+      idx = end + 1;
+      ruleStart = false;
+      continue;
+    }
+    if (ruleStart && depth === 0) {
+      headPattern.lastIndex = idx;
+      const head = headPattern.exec(source);
+      if (head) {
+        if (head[1] === "member") {
+          const index = memberStartIndex + memberLines.length;
+          out += `${InstrumentedMemberRuleName}(${index}, `;
+          memberLines.push(line);
+        } else if (head[1] === "setting") {
+          const index = settingStartIndex + settingLines.length;
+          out += `${InstrumentedSettingRuleName}(${index}, `;
+          settingLines.push(line);
+        } else {
+          out += `${InstrumentedRuleName}(${startIndex + lines.length}, `;
+          lines.push(line);
+        }
+        line += head[0].split("\n").length - 1;
+        idx += head[0].length;
+        depth++;
+        ruleStart = false;
+        continue;
+      }
+    }
+    if (char === "(" || char === "[" || char === "{") {
+      depth++;
+    } else if (char === ")" || char === "]" || char === "}") {
+      depth--;
+    }
+    if (!/\s/.test(char)) {
+      ruleStart = char === ";" && depth === 0;
+    }
+    out += char;
+    idx++;
+  }
+
+  return { source: out, lines, memberLines, settingLines };
+}
+
+interface PolarSource {
+  src: string;
+  filename: string;
+}
+
+interface InstrumentedRules {
+  rules: RuleSource[];
+  memberRules: RuleSource[];
+  settingRules: RuleSource[];
+}
+
+async function loadInstrumentedFiles(
+  oso: Oso,
+  paths: string[],
+): Promise<InstrumentedRules> {
+  const sources: PolarSource[] = [];
+  const rules: RuleSource[] = [];
+  const memberRules: RuleSource[] = [];
+  const settingRules: RuleSource[] = [];
+  for (const filename of paths) {
+    const content = await fs.promises.readFile(filename, { encoding: "utf8" });
+    const result = instrumentRules(
+      content,
+      rules.length,
+      memberRules.length,
+      settingRules.length,
+    );
+    sources.push({ src: result.source, filename });
+    rules.push(...result.lines.map((line) => ({ file: filename, line })));
+    memberRules.push(
+      ...result.memberLines.map((line) => ({ file: filename, line })),
+    );
+    settingRules.push(
+      ...result.settingLines.map((line) => ({ file: filename, line })),
+    );
+  }
+
+  if (rules.length > 0) {
+    sources.push({
+      src: `allow(actor, action, resource) if ${InstrumentedRuleName}(_rule, actor, action, resource);`,
+      filename: "sqlauthz-rules.polar",
+    });
+  }
+  if (memberRules.length > 0) {
+    sources.push({
+      src: `member(actor, group) if ${InstrumentedMemberRuleName}(_rule, actor, group);`,
+      filename: "sqlauthz-member-rules.polar",
+    });
+  }
+  if (settingRules.length > 0) {
+    sources.push({
+      src: `setting(actor, name, value) if ${InstrumentedSettingRuleName}(_rule, actor, name, value);`,
+      filename: "sqlauthz-setting-rules.polar",
+    });
+  }
+
+  await loadSources(oso, sources);
+
+  return { rules, memberRules, settingRules };
+}
+
+/**
+ * Polar requires all sources to be loaded at once, and `loadStr` only loads
+ * one, so the sources are written to temporary files and loaded with
+ * `loadFiles`. Errors refer to the original file names.
+ */
+async function loadSources(oso: Oso, sources: PolarSource[]): Promise<void> {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "sqlauthz-"));
+  const filenames = new Map<string, string>();
+  try {
+    for (const [index, source] of sources.entries()) {
+      const tmpPath = path.join(
+        dir,
+        `${index}-${path.basename(source.filename)}`,
+      );
+      await fs.promises.writeFile(tmpPath, source.src);
+      filenames.set(tmpPath, source.filename);
+    }
+    await oso.loadFiles(Array.from(filenames.keys()));
+  } catch (error) {
+    if (error instanceof Error) {
+      for (const [tmpPath, filename] of filenames) {
+        error.message = error.message.replaceAll(tmpPath, filename);
+      }
+    }
+    throw error;
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
+
 export interface CreateOsoArgs {
   paths: string[];
   functions: SQLFunction[];
@@ -102,6 +331,11 @@ export interface CreateOsoArgs {
 export interface CreateOsoResult {
   oso: Oso;
   literalsContext: LiteralsContext;
+  rules: RuleSource[];
+  /** Sources of `member` rules; empty if the rules don't define any */
+  memberRules: RuleSource[];
+  /** Sources of `setting` rules; empty if the rules don't define any */
+  settingRules: RuleSource[];
 }
 
 export async function createOso({
@@ -109,16 +343,27 @@ export async function createOso({
   functions,
   vars,
 }: CreateOsoArgs): Promise<CreateOsoResult> {
-  const oso = new Oso();
+  const createInstance = () => {
+    const oso = new Oso();
+    const literalsContext = registerFunctions(oso, functions);
+    for (const [key, value] of Object.entries(vars ?? {})) {
+      oso.registerConstant(value, key);
+    }
+    return { oso, literalsContext };
+  };
 
-  const literalsContext = registerFunctions(oso, functions);
-
-  for (const [key, value] of Object.entries(vars ?? {})) {
-    oso.registerConstant(value, key);
-  }
+  const { oso, literalsContext } = createInstance();
 
+  let instrumented: InstrumentedRules;
   try {
-    await oso.loadFiles(paths);
+    try {
+      instrumented = await loadInstrumentedFiles(oso, paths);
+    } catch (error) {
+      // Load the files as written so that errors refer to the original
+      // rules rather than the instrumented ones
+      await createInstance().oso.loadFiles(paths);
+      throw error;
+    }
   } catch (error) {
     if (error instanceof Error) {
       throw new OsoError(error.message);
@@ -126,7 +371,7 @@ export async function createOso({
     throw error;
   }
 
-  return { oso, literalsContext };
+  return { oso, literalsContext, ...instrumented };
 }
 
 export class OsoError extends Error {}
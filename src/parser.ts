@@ -4,6 +4,7 @@ import {
   Clause,
   Column,
   EvaluateClauseArgs,
+  Literal,
   ValidationError,
   Value,
   evaluateClause,
@@ -16,30 +17,90 @@ import {
   simpleEvaluator,
   valueToClause,
 } from "./clause.js";
-import { LiteralsContext } from "./oso.js";
 import {
+  InstrumentedMemberRuleName,
+  InstrumentedRuleName,
+  InstrumentedSettingRuleName,
+  LiteralsContext,
+} from "./oso.js";
+import {
+  AggregatePermission,
+  AggregatePrivileges,
+  DatabasePermission,
+  DatabasePrivileges,
+  DefaultPermission,
+  DefaultPrivilege,
+  DefaultPrivilegeObjectType,
+  DefaultPrivilegeObjectTypes,
+  DefaultPrivileges,
+  DomainPermission,
+  DomainPrivileges,
+  ForeignDataWrapperPermission,
+  ForeignDataWrapperPrivileges,
+  ForeignServerPermission,
+  ForeignServerPrivileges,
+  ForeignTablePermission,
+  ForeignTablePrivileges,
   FunctionPermission,
   FunctionPrivileges,
+  LanguagePermission,
+  LanguagePrivileges,
+  LargeObjectPermission,
+  LargeObjectPrivileges,
+  MaterializedViewPermission,
+  MaterializedViewPrivileges,
+  MembershipOption,
+  MembershipOptions,
+  MembershipPermission,
+  ParameterPermission,
+  ParameterPrivileges,
   Permission,
   Privilege,
   ProcedurePermission,
   ProcedurePrivileges,
+  RuleSource,
   SQLActor,
+  SQLAggregate,
+  SQLDatabase,
+  SQLDomain,
+  SQLForeignDataWrapper,
+  SQLForeignServer,
+  SQLForeignTableMetadata,
   SQLFunction,
+  SQLGroup,
+  SQLLanguage,
+  SQLLargeObject,
+  SQLMaterializedView,
+  SQLParameter,
   SQLProcedure,
   SQLSchema,
   SQLSequence,
+  SQLTable,
   SQLTableMetadata,
+  SQLTablespace,
+  SQLType,
   SQLView,
   SchemaPermission,
   SchemaPrivileges,
   SequencePermission,
   SequencePrivileges,
+  SettingPermission,
+  SettingValue,
   TablePermission,
   TablePrivileges,
+  TablespacePermission,
+  TablespacePrivileges,
+  TypePermission,
+  TypePrivileges,
   ViewPermission,
   ViewPrivileges,
   formatQualifiedName,
+  formatRuleSources,
+  formatSettingValue,
+  formatSignature,
+  objectSchema,
+  permissionObject,
+  resourceTypeName,
 } from "./sql.js";
 import { arrayProduct } from "./utils.js";
 
@@ -59,14 +120,15 @@ export type ConvertPermissionResult<P extends Permission = Permission> =
 
 interface ActorEvaluatorArgs {
   actor: SQLActor;
+  variableName?: string;
   debug?: boolean;
 }
 
 function actorEvaluator({
   actor,
+  variableName = "actor",
   debug,
 }: ActorEvaluatorArgs): EvaluateClauseArgs["evaluate"] {
-  const variableName = "actor";
   const errorVariableName = debug
     ? actor.type === "user"
       ? `user(${actor.name})`
@@ -152,7 +214,16 @@ function validateActorClause(
 }
 
 function validateResourceClause(clause: Clause): ConvertPermissionError | null {
-  const resourceTypes = new Set(Object.keys(handlers));
+  // Default privileges apply to objects of the other types, and memberships
+  // and settings are granted by `member` and `setting` rules
+  const resourceTypes = new Set(
+    (Object.keys(handlers) as Permission["type"][])
+      .filter(
+        (type) =>
+          type !== "default" && type !== "membership" && type !== "setting",
+      )
+      .map(resourceTypeName),
+  );
 
   const validateTopLevel = (clause: Clause): ConvertPermissionError | null => {
     if (clause.type === "value") {
@@ -277,7 +348,7 @@ type TableEvaluatorResult =
   | TableEvaluatorError;
 
 interface TableEvaluatorArgs {
-  table: SQLTableMetadata;
+  table: SQLTableMetadata | SQLForeignTableMetadata;
   clause: Clause;
   debug?: boolean;
   strictFields?: boolean;
@@ -290,8 +361,12 @@ function tableEvaluator({
   strictFields,
 }: TableEvaluatorArgs): TableEvaluatorResult {
   const tableName = formatQualifiedName(table.table.schema, table.table.name);
+  const partitionOf =
+    table.type === "table-metadata" ? table.partitionOf : null;
   const variableName = "resource";
-  const errorVariableName = debug ? `table(${tableName})` : variableName;
+  const errorVariableName = debug
+    ? `${table.table.type}(${tableName})`
+    : variableName;
 
   const metaEvaluator = simpleEvaluator({
     variableName,
@@ -315,7 +390,15 @@ function tableEvaluator({
         return table.table.schema;
       }
       if (value.value === "_this.type") {
-        return table.table.type;
+        return resourceTypeName(table.table.type);
+      }
+      if (value.value === "_this.partitionOf") {
+        return partitionOf
+          ? formatQualifiedName(partitionOf.schema, partitionOf.name)
+          : null;
+      }
+      if (value.value === "_this.isPartition") {
+        return partitionOf !== null;
       }
       throw new ValidationError(
         `${errorVariableName}: invalid table field: ${value.value}`,
@@ -576,6 +659,8 @@ interface SimpleSchemaQualifiedObjectEvaluatorFactoryArgs<T> {
   type: Permission["type"];
   getName: (obj: T) => string;
   getSchema: (obj: T) => string;
+  /** Fields other than `name`, `schema` and `type`, keyed by field name */
+  getFields?: (obj: T) => Record<string, unknown>;
 }
 
 interface SimpleSchemaQualifiedObjectEvaluatorArgs<T> {
@@ -587,6 +672,7 @@ function simpleSchemaQualifiedObjectEvaluatorFactory<T>({
   type,
   getName,
   getSchema,
+  getFields,
 }: SimpleSchemaQualifiedObjectEvaluatorFactoryArgs<T>): (
   args: SimpleSchemaQualifiedObjectEvaluatorArgs<T>,
 ) => EvaluateClauseArgs["evaluate"] {
@@ -595,6 +681,7 @@ function simpleSchemaQualifiedObjectEvaluatorFactory<T>({
     const schema = getSchema(obj);
     const name = getName(obj);
     const qualifiedName = formatQualifiedName(schema, name);
+    const fields = getFields?.(obj) ?? {};
     const errorVariableName = debug
       ? `${type}(${qualifiedName})`
       : variableName;
@@ -620,7 +707,11 @@ function simpleSchemaQualifiedObjectEvaluatorFactory<T>({
           return schema;
         }
         if (value.value === "_this.type") {
-          return type;
+          return resourceTypeName(type);
+        }
+        const field = value.value.slice("_this.".length);
+        if (value.value.startsWith("_this.") && field in fields) {
+          return fields[field];
         }
         throw new ValidationError(
           `${errorVariableName}: invalid view field: ${value.value}`,
@@ -636,11 +727,19 @@ const viewEvaluator = simpleSchemaQualifiedObjectEvaluatorFactory<SQLView>({
   getSchema: (obj) => obj.schema,
 });
 
+const materializedViewEvaluator =
+  simpleSchemaQualifiedObjectEvaluatorFactory<SQLMaterializedView>({
+    type: "materialized-view",
+    getName: (obj) => obj.name,
+    getSchema: (obj) => obj.schema,
+  });
+
 const functionEvaluator =
   simpleSchemaQualifiedObjectEvaluatorFactory<SQLFunction>({
     type: "function",
     getName: (obj) => obj.name,
     getSchema: (obj) => obj.schema,
+    getFields: (obj) => ({ signature: formatSignature(obj), args: obj.args }),
   });
 
 const procedureEvaluator =
@@ -648,6 +747,15 @@ const procedureEvaluator =
     type: "procedure",
     getName: (obj) => obj.name,
     getSchema: (obj) => obj.schema,
+    getFields: (obj) => ({ signature: formatSignature(obj), args: obj.args }),
+  });
+
+const aggregateEvaluator =
+  simpleSchemaQualifiedObjectEvaluatorFactory<SQLAggregate>({
+    type: "aggregate",
+    getName: (obj) => obj.name,
+    getSchema: (obj) => obj.schema,
+    getFields: (obj) => ({ signature: formatSignature(obj), args: obj.args }),
   });
 
 const sequenceEvaluator =
@@ -657,6 +765,170 @@ const sequenceEvaluator =
     getSchema: (obj) => obj.schema,
   });
 
+const typeEvaluator = simpleSchemaQualifiedObjectEvaluatorFactory<SQLType>({
+  type: "type",
+  getName: (obj) => obj.name,
+  getSchema: (obj) => obj.schema,
+});
+
+const domainEvaluator = simpleSchemaQualifiedObjectEvaluatorFactory<SQLDomain>({
+  type: "domain",
+  getName: (obj) => obj.name,
+  getSchema: (obj) => obj.schema,
+});
+
+interface TopLevelObjectEvaluatorFactoryArgs {
+  type: Permission["type"];
+}
+
+interface TopLevelObjectEvaluatorArgs<T> {
+  obj: T;
+  debug?: boolean;
+}
+
+/**
+ * Evaluator factory for objects that, like schemas, aren't contained in a
+ * schema. `resource.schema` is `null` for these objects so that rules that
+ * grant on everything in a schema don't match them.
+ */
+function topLevelObjectEvaluatorFactory<T extends { name: string }>({
+  type,
+}: TopLevelObjectEvaluatorFactoryArgs): (
+  args: TopLevelObjectEvaluatorArgs<T>,
+) => EvaluateClauseArgs["evaluate"] {
+  return ({ obj, debug }) => {
+    const variableName = "resource";
+    const errorVariableName = debug ? `${type}(${obj.name})` : variableName;
+    return simpleEvaluator({
+      variableName,
+      errorVariableName,
+      getValue: (value) => {
+        if (value.type === "value") {
+          return value.value;
+        }
+        if (value.type === "function-call") {
+          throw new ValidationError(
+            `${errorVariableName}: invalid function call`,
+          );
+        }
+        if (value.value === "_this" || value.value === "_this.name") {
+          return obj.name;
+        }
+        if (value.value === "_this.schema") {
+          return null;
+        }
+        if (value.value === "_this.type") {
+          return resourceTypeName(type);
+        }
+        throw new ValidationError(
+          `${errorVariableName}: invalid ${resourceTypeName(type)} field: ${
+            value.value
+          }`,
+        );
+      },
+    });
+  };
+}
+
+const foreignDataWrapperEvaluator =
+  topLevelObjectEvaluatorFactory<SQLForeignDataWrapper>({
+    type: "foreign-data-wrapper",
+  });
+
+const foreignServerEvaluator = topLevelObjectEvaluatorFactory<SQLForeignServer>(
+  {
+    type: "foreign-server",
+  },
+);
+
+const databaseEvaluator = topLevelObjectEvaluatorFactory<SQLDatabase>({
+  type: "database",
+});
+
+const parameterEvaluator = topLevelObjectEvaluatorFactory<SQLParameter>({
+  type: "parameter",
+});
+
+const tablespaceEvaluator = topLevelObjectEvaluatorFactory<SQLTablespace>({
+  type: "tablespace",
+});
+
+const languageEvaluator = topLevelObjectEvaluatorFactory<SQLLanguage>({
+  type: "language",
+});
+
+const largeObjectEvaluator = topLevelObjectEvaluatorFactory<SQLLargeObject>({
+  type: "large-object",
+});
+
+interface SchemaWideEvaluatorArgs {
+  schema: SQLSchema;
+  type: Permission["type"];
+  debug?: boolean;
+}
+
+/**
+ * Evaluator for a hypothetical object of type `type` in `schema`. Any
+ * reference to the object's name is an error, so a clause only matches if
+ * it matches every object of that type in the schema, including those that
+ * don't exist yet.
+ */
+function schemaWideEvaluator({
+  schema,
+  type,
+  debug,
+}: SchemaWideEvaluatorArgs): EvaluateClauseArgs["evaluate"] {
+  const variableName = "resource";
+  const errorVariableName = debug ? `${type}(${schema.name}.*)` : variableName;
+  return simpleEvaluator({
+    variableName,
+    errorVariableName,
+    getValue: (value) => {
+      if (value.type === "value") {
+        return value.value;
+      }
+      if (value.type === "function-call") {
+        throw new ValidationError(
+          `${errorVariableName}: invalid function call`,
+        );
+      }
+      if (value.value === "_this.schema") {
+        return schema.name;
+      }
+      if (value.value === "_this.type") {
+        return resourceTypeName(type);
+      }
+      throw new ValidationError(
+        `${errorVariableName}: field depends on the object: ${value.value}`,
+      );
+    },
+  });
+}
+
+/**
+ * Object types that default privileges apply to. PostgreSQL doesn't
+ * distinguish between them, so a rule has to cover all of them for default
+ * privileges to be set.
+ */
+const DefaultPrivilegeResourceTypes: Record<
+  DefaultPrivilegeObjectType,
+  Permission["type"][]
+> = {
+  table: ["table", "view", "materialized-view", "foreign-table"],
+  sequence: ["sequence"],
+  function: ["function", "procedure", "aggregate"],
+};
+
+/**
+ * Default privilege along with the object types that a single query result
+ * covers. Oso returns a result for each value of e.g. `resource.type in [...]`,
+ * so whether a rule covers every type is only known once all of its results
+ * have been converted.
+ */
+interface PartialDefaultPermission extends DefaultPermission {
+  resourceTypes: Permission["type"][];
+}
+
 interface PermissionEvaluatorArgs {
   permission: string;
   debug?: boolean;
@@ -908,6 +1180,62 @@ const handlers: Handlers = {
       return permissions[0]!;
     },
   },
+  "materialized-view": {
+    privileges: MaterializedViewPrivileges,
+    getPermissions: ({
+      clause,
+      users,
+      privileges,
+      entities,
+      strictFields,
+      debug,
+    }) => {
+      const views: SQLMaterializedView[] = [];
+      const errors: string[] = [];
+      const permissions: MaterializedViewPermission[] = [];
+      for (const view of entities.materializedViews) {
+        const result = evaluateClause({
+          clause,
+          evaluate: materializedViewEvaluator({ obj: view, debug }),
+          strictFields,
+        });
+        if (result.type === "error") {
+          errors.push(...result.errors);
+        } else if (result.result) {
+          views.push(view);
+        }
+      }
+
+      for (const [user, privilege, view] of arrayProduct([
+        users,
+        privileges,
+        views,
+      ])) {
+        permissions.push({
+          type: "materialized-view",
+          view,
+          privilege,
+          user,
+        });
+      }
+
+      if (errors.length > 0) {
+        return { type: "error", errors };
+      }
+      return { type: "success", permissions };
+    },
+    getDeduplicationKey: (permission) => {
+      return [
+        permission.type,
+        permission.privilege,
+        permission.user.name,
+        formatQualifiedName(permission.view.schema, permission.view.name),
+      ].join(",");
+    },
+    deduplicate: (permissions) => {
+      return permissions[0]!;
+    },
+  },
   function: {
     privileges: FunctionPrivileges,
     getPermissions: ({
@@ -962,7 +1290,7 @@ const handlers: Handlers = {
         permission.user.name,
         formatQualifiedName(
           permission.function.schema,
-          permission.function.name,
+          formatSignature(permission.function),
         ),
       ].join(",");
     },
@@ -1024,7 +1352,66 @@ const handlers: Handlers = {
         permission.user.name,
         formatQualifiedName(
           permission.procedure.schema,
-          permission.procedure.name,
+          formatSignature(permission.procedure),
+        ),
+      ].join(",");
+    },
+    deduplicate: (permissions) => {
+      return permissions[0]!;
+    },
+  },
+  aggregate: {
+    privileges: AggregatePrivileges,
+    getPermissions: ({
+      clause,
+      users,
+      privileges,
+      entities,
+      strictFields,
+      debug,
+    }) => {
+      const aggregates: SQLAggregate[] = [];
+      const errors: string[] = [];
+      const permissions: AggregatePermission[] = [];
+      for (const aggregate of entities.aggregates) {
+        const result = evaluateClause({
+          clause,
+          evaluate: aggregateEvaluator({ obj: aggregate, debug }),
+          strictFields,
+        });
+        if (result.type === "error") {
+          errors.push(...result.errors);
+        } else if (result.result) {
+          aggregates.push(aggregate);
+        }
+      }
+
+      for (const [user, privilege, aggregate] of arrayProduct([
+        users,
+        privileges,
+        aggregates,
+      ])) {
+        permissions.push({
+          type: "aggregate",
+          aggregate,
+          privilege,
+          user,
+        });
+      }
+
+      if (errors.length > 0) {
+        return { type: "error", errors };
+      }
+      return { type: "success", permissions };
+    },
+    getDeduplicationKey: (permission) => {
+      return [
+        permission.type,
+        permission.privilege,
+        permission.user.name,
+        formatQualifiedName(
+          permission.aggregate.schema,
+          formatSignature(permission.aggregate),
         ),
       ].join(",");
     },
@@ -1091,56 +1478,943 @@ const handlers: Handlers = {
       return permissions[0]!;
     },
   },
-};
-
-export interface ConvertPermissionArgs {
-  result: Map<string, unknown>;
-  entities: SQLEntities;
-  allowAnyActor?: boolean;
-  strictFields?: boolean;
-  debug?: boolean;
-  literals: Map<string, Value>;
-}
-
-export function convertPermission({
-  result,
-  entities,
-  allowAnyActor,
-  strictFields,
-  debug,
-  literals,
-}: ConvertPermissionArgs): ConvertPermissionResult {
-  const resource = result.get("resource");
-  const action = result.get("action");
-  const actor = result.get("actor");
-
-  const getClause = (arg: unknown): Clause => {
-    const clause = valueToClause(arg);
-    return mapClauses(clause, (subClause) => {
-      if (subClause.type !== "column") {
-        return subClause;
-      }
-      const literal = literals.get(subClause.value);
-      if (!literal) {
-        return subClause;
+  "foreign-data-wrapper": {
+    privileges: ForeignDataWrapperPrivileges,
+    getPermissions: ({
+      clause,
+      users,
+      privileges,
+      entities,
+      strictFields,
+      debug,
+    }) => {
+      const objects: SQLForeignDataWrapper[] = [];
+      const errors: string[] = [];
+      const permissions: ForeignDataWrapperPermission[] = [];
+      for (const obj of entities.foreignDataWrappers) {
+        const result = evaluateClause({
+          clause,
+          evaluate: foreignDataWrapperEvaluator({ obj, debug }),
+          strictFields,
+        });
+        if (result.type === "error") {
+          errors.push(...result.errors);
+        } else if (result.result) {
+          objects.push(obj);
+        }
       }
-      return literal;
-    });
-  };
 
-  const actorClause = getClause(actor);
-  const actionClause = getClause(action);
-  const resourceClause = getClause(resource);
+      for (const [user, privilege, obj] of arrayProduct([
+        users,
+        privileges,
+        objects,
+      ])) {
+        permissions.push({
+          type: "foreign-data-wrapper",
+          wrapper: obj,
+          privilege,
+          user,
+        });
+      }
 
-  const actorOrs = factorOrClauses(actorClause);
-  const actionOrs = factorOrClauses(actionClause);
+      if (errors.length > 0) {
+        return { type: "error", errors };
+      }
+      return { type: "success", permissions };
+    },
+    getDeduplicationKey: (permission) => {
+      return [
+        permission.type,
+        permission.privilege,
+        permission.user.name,
+        permission.wrapper.name,
+      ].join(",");
+    },
+    deduplicate: (permissions) => {
+      return permissions[0]!;
+    },
+  },
+  "foreign-server": {
+    privileges: ForeignServerPrivileges,
+    getPermissions: ({
+      clause,
+      users,
+      privileges,
+      entities,
+      strictFields,
+      debug,
+    }) => {
+      const objects: SQLForeignServer[] = [];
+      const errors: string[] = [];
+      const permissions: ForeignServerPermission[] = [];
+      for (const obj of entities.foreignServers) {
+        const result = evaluateClause({
+          clause,
+          evaluate: foreignServerEvaluator({ obj, debug }),
+          strictFields,
+        });
+        if (result.type === "error") {
+          errors.push(...result.errors);
+        } else if (result.result) {
+          objects.push(obj);
+        }
+      }
+
+      for (const [user, privilege, obj] of arrayProduct([
+        users,
+        privileges,
+        objects,
+      ])) {
+        permissions.push({
+          type: "foreign-server",
+          server: obj,
+          privilege,
+          user,
+        });
+      }
+
+      if (errors.length > 0) {
+        return { type: "error", errors };
+      }
+      return { type: "success", permissions };
+    },
+    getDeduplicationKey: (permission) => {
+      return [
+        permission.type,
+        permission.privilege,
+        permission.user.name,
+        permission.server.name,
+      ].join(",");
+    },
+    deduplicate: (permissions) => {
+      return permissions[0]!;
+    },
+  },
+  "foreign-table": {
+    privileges: ForeignTablePrivileges,
+    getPermissions: ({
+      clause,
+      users,
+      privileges,
+      entities,
+      strictFields,
+      debug,
+    }) => {
+      if (privileges.length === 0) {
+        return { type: "success", permissions: [] };
+      }
+      const errors: string[] = [];
+      const permissions: ForeignTablePermission[] = [];
+      for (const table of entities.foreignTables) {
+        const result = tableEvaluator({
+          table,
+          clause,
+          strictFields,
+          debug,
+        });
+        if (result.type === "error") {
+          errors.push(...result.errors);
+        } else if (result.type === "match") {
+          if (!isTrueClause(result.rowClause)) {
+            const name = formatQualifiedName(
+              table.table.schema,
+              table.table.name,
+            );
+            const errorVariableName = debug
+              ? `foreign-table(${name})`
+              : "resource";
+            errors.push(
+              `${errorVariableName}: row-level security is not supported for foreign tables`,
+            );
+            continue;
+          }
+          for (const [user, privilege] of arrayProduct([users, privileges])) {
+            permissions.push({
+              type: "foreign-table",
+              table: table.table,
+              user,
+              privilege,
+              columnClause: result.columnClause,
+            });
+          }
+        }
+      }
+      if (errors.length > 0) {
+        return { type: "error", errors };
+      }
+      return { type: "success", permissions };
+    },
+    getDeduplicationKey: (permission) => {
+      return [
+        permission.type,
+        permission.privilege,
+        permission.user.name,
+        formatQualifiedName(permission.table.schema, permission.table.name),
+      ].join(",");
+    },
+    deduplicate: (permissions) => {
+      const [first, ...rest] = permissions;
+      const columnClause = optimizeClause({
+        type: "or",
+        clauses: [
+          first!.columnClause,
+          ...rest.map((perm) => perm.columnClause),
+        ],
+      });
+      return {
+        type: "foreign-table",
+        user: first!.user,
+        table: first!.table,
+        privilege: first!.privilege,
+        columnClause,
+      };
+    },
+  },
+  database: {
+    privileges: DatabasePrivileges,
+    getPermissions: ({
+      clause,
+      users,
+      privileges,
+      entities,
+      strictFields,
+      debug,
+    }) => {
+      // CREATE on the database lets users create schemas, so rules that
+      // match any resource don't grant privileges on it
+      if (isTrueClause(clause) || isIdentityClause(clause, "resource")) {
+        return { type: "success", permissions: [] };
+      }
+      const objects: SQLDatabase[] = [];
+      const errors: string[] = [];
+      const permissions: DatabasePermission[] = [];
+      for (const obj of entities.databases) {
+        const result = evaluateClause({
+          clause,
+          evaluate: databaseEvaluator({ obj, debug }),
+          strictFields,
+        });
+        if (result.type === "error") {
+          errors.push(...result.errors);
+        } else if (result.result) {
+          objects.push(obj);
+        }
+      }
+
+      for (const [user, privilege, obj] of arrayProduct([
+        users,
+        privileges,
+        objects,
+      ])) {
+        permissions.push({
+          type: "database",
+          database: obj,
+          privilege,
+          user,
+        });
+      }
+
+      if (errors.length > 0) {
+        return { type: "error", errors };
+      }
+      return { type: "success", permissions };
+    },
+    getDeduplicationKey: (permission) => {
+      return [
+        permission.type,
+        permission.privilege,
+        permission.user.name,
+        permission.database.name,
+      ].join(",");
+    },
+    deduplicate: (permissions) => {
+      return permissions[0]!;
+    },
+  },
+  type: {
+    privileges: TypePrivileges,
+    getPermissions: ({
+      clause,
+      users,
+      privileges,
+      entities,
+      strictFields,
+      debug,
+    }) => {
+      const dataTypes: SQLType[] = [];
+      const errors: string[] = [];
+      const permissions: TypePermission[] = [];
+      for (const dataType of entities.types) {
+        const result = evaluateClause({
+          clause,
+          evaluate: typeEvaluator({ obj: dataType, debug }),
+          strictFields,
+        });
+        if (result.type === "error") {
+          errors.push(...result.errors);
+        } else if (result.result) {
+          dataTypes.push(dataType);
+        }
+      }
+
+      for (const [user, privilege, dataType] of arrayProduct([
+        users,
+        privileges,
+        dataTypes,
+      ])) {
+        permissions.push({
+          type: "type",
+          dataType,
+          privilege,
+          user,
+        });
+      }
+
+      if (errors.length > 0) {
+        return { type: "error", errors };
+      }
+      return { type: "success", permissions };
+    },
+    getDeduplicationKey: (permission) => {
+      return [
+        permission.type,
+        permission.privilege,
+        permission.user.name,
+        formatQualifiedName(
+          permission.dataType.schema,
+          permission.dataType.name,
+        ),
+      ].join(",");
+    },
+    deduplicate: (permissions) => {
+      return permissions[0]!;
+    },
+  },
+  domain: {
+    privileges: DomainPrivileges,
+    getPermissions: ({
+      clause,
+      users,
+      privileges,
+      entities,
+      strictFields,
+      debug,
+    }) => {
+      const domains: SQLDomain[] = [];
+      const errors: string[] = [];
+      const permissions: DomainPermission[] = [];
+      for (const domain of entities.domains) {
+        const result = evaluateClause({
+          clause,
+          evaluate: domainEvaluator({ obj: domain, debug }),
+          strictFields,
+        });
+        if (result.type === "error") {
+          errors.push(...result.errors);
+        } else if (result.result) {
+          domains.push(domain);
+        }
+      }
+
+      for (const [user, privilege, domain] of arrayProduct([
+        users,
+        privileges,
+        domains,
+      ])) {
+        permissions.push({
+          type: "domain",
+          domain,
+          privilege,
+          user,
+        });
+      }
+
+      if (errors.length > 0) {
+        return { type: "error", errors };
+      }
+      return { type: "success", permissions };
+    },
+    getDeduplicationKey: (permission) => {
+      return [
+        permission.type,
+        permission.privilege,
+        permission.user.name,
+        formatQualifiedName(permission.domain.schema, permission.domain.name),
+      ].join(",");
+    },
+    deduplicate: (permissions) => {
+      return permissions[0]!;
+    },
+  },
+  parameter: {
+    privileges: ParameterPrivileges,
+    getPermissions: ({
+      clause,
+      users,
+      privileges,
+      entities,
+      strictFields,
+      debug,
+    }) => {
+      // Parameters are shared by every database, and ALTER SYSTEM on some
+      // of them is as powerful as being a superuser, so rules that match
+      // any resource don't grant privileges on them
+      if (isTrueClause(clause) || isIdentityClause(clause, "resource")) {
+        return { type: "success", permissions: [] };
+      }
+      const objects: SQLParameter[] = [];
+      const errors: string[] = [];
+      const permissions: ParameterPermission[] = [];
+      for (const obj of entities.parameters) {
+        const result = evaluateClause({
+          clause,
+          evaluate: parameterEvaluator({ obj, debug }),
+          strictFields,
+        });
+        if (result.type === "error") {
+          errors.push(...result.errors);
+        } else if (result.result) {
+          objects.push(obj);
+        }
+      }
+
+      for (const [user, privilege, obj] of arrayProduct([
+        users,
+        privileges,
+        objects,
+      ])) {
+        permissions.push({
+          type: "parameter",
+          parameter: obj,
+          privilege,
+          user,
+        });
+      }
+
+      if (errors.length > 0) {
+        return { type: "error", errors };
+      }
+      return { type: "success", permissions };
+    },
+    getDeduplicationKey: (permission) => {
+      return [
+        permission.type,
+        permission.privilege,
+        permission.user.name,
+        permission.parameter.name,
+      ].join(",");
+    },
+    deduplicate: (permissions) => {
+      return permissions[0]!;
+    },
+  },
+  tablespace: {
+    privileges: TablespacePrivileges,
+    getPermissions: ({
+      clause,
+      users,
+      privileges,
+      entities,
+      strictFields,
+      debug,
+    }) => {
+      // Tablespaces are shared by every database, so rules that match any
+      // resource don't grant privileges on them
+      if (isTrueClause(clause) || isIdentityClause(clause, "resource")) {
+        return { type: "success", permissions: [] };
+      }
+      const objects: SQLTablespace[] = [];
+      const errors: string[] = [];
+      const permissions: TablespacePermission[] = [];
+      for (const obj of entities.tablespaces) {
+        const result = evaluateClause({
+          clause,
+          evaluate: tablespaceEvaluator({ obj, debug }),
+          strictFields,
+        });
+        if (result.type === "error") {
+          errors.push(...result.errors);
+        } else if (result.result) {
+          objects.push(obj);
+        }
+      }
+
+      for (const [user, privilege, obj] of arrayProduct([
+        users,
+        privileges,
+        objects,
+      ])) {
+        permissions.push({
+          type: "tablespace",
+          tablespace: obj,
+          privilege,
+          user,
+        });
+      }
+
+      if (errors.length > 0) {
+        return { type: "error", errors };
+      }
+      return { type: "success", permissions };
+    },
+    getDeduplicationKey: (permission) => {
+      return [
+        permission.type,
+        permission.privilege,
+        permission.user.name,
+        permission.tablespace.name,
+      ].join(",");
+    },
+    deduplicate: (permissions) => {
+      return permissions[0]!;
+    },
+  },
+  language: {
+    privileges: LanguagePrivileges,
+    getPermissions: ({
+      clause,
+      users,
+      privileges,
+      entities,
+      strictFields,
+      debug,
+    }) => {
+      const objects: SQLLanguage[] = [];
+      const errors: string[] = [];
+      const permissions: LanguagePermission[] = [];
+      for (const obj of entities.languages) {
+        const result = evaluateClause({
+          clause,
+          evaluate: languageEvaluator({ obj, debug }),
+          strictFields,
+        });
+        if (result.type === "error") {
+          errors.push(...result.errors);
+        } else if (result.result) {
+          objects.push(obj);
+        }
+      }
+
+      for (const [user, privilege, obj] of arrayProduct([
+        users,
+        privileges,
+        objects,
+      ])) {
+        permissions.push({
+          type: "language",
+          language: obj,
+          privilege,
+          user,
+        });
+      }
+
+      if (errors.length > 0) {
+        return { type: "error", errors };
+      }
+      return { type: "success", permissions };
+    },
+    getDeduplicationKey: (permission) => {
+      return [
+        permission.type,
+        permission.privilege,
+        permission.user.name,
+        permission.language.name,
+      ].join(",");
+    },
+    deduplicate: (permissions) => {
+      return permissions[0]!;
+    },
+  },
+  "large-object": {
+    privileges: LargeObjectPrivileges,
+    getPermissions: ({
+      clause,
+      users,
+      privileges,
+      entities,
+      strictFields,
+      debug,
+    }) => {
+      const objects: SQLLargeObject[] = [];
+      const errors: string[] = [];
+      const permissions: LargeObjectPermission[] = [];
+      for (const obj of entities.largeObjects) {
+        const result = evaluateClause({
+          clause,
+          evaluate: largeObjectEvaluator({ obj, debug }),
+          strictFields,
+        });
+        if (result.type === "error") {
+          errors.push(...result.errors);
+        } else if (result.result) {
+          objects.push(obj);
+        }
+      }
+
+      for (const [user, privilege, obj] of arrayProduct([
+        users,
+        privileges,
+        objects,
+      ])) {
+        permissions.push({
+          type: "large-object",
+          largeObject: obj,
+          privilege,
+          user,
+        });
+      }
+
+      if (errors.length > 0) {
+        return { type: "error", errors };
+      }
+      return { type: "success", permissions };
+    },
+    getDeduplicationKey: (permission) => {
+      return [
+        permission.type,
+        permission.privilege,
+        permission.user.name,
+        permission.largeObject.name,
+      ].join(",");
+    },
+    deduplicate: (permissions) => {
+      return permissions[0]!;
+    },
+  },
+  default: {
+    privileges: Array.from(
+      new Set(Object.values(DefaultPrivileges).flat()),
+    ) as DefaultPrivilege[],
+    getPermissions: ({ clause, users, privileges, entities, debug }) => {
+      const permissions: PartialDefaultPermission[] = [];
+      for (const [schema, objectType] of arrayProduct([
+        entities.schemas,
+        DefaultPrivilegeObjectTypes,
+      ])) {
+        const validPrivileges: readonly string[] =
+          DefaultPrivileges[objectType];
+        const typePrivileges = privileges.filter((privilege) =>
+          validPrivileges.includes(privilege),
+        );
+        if (typePrivileges.length === 0) {
+          continue;
+        }
+        // Errors mean the clause depends on individual objects; they're
+        // reported by the handlers for those objects.
+        const resourceTypes = DefaultPrivilegeResourceTypes[objectType].filter(
+          (type) => {
+            const result = evaluateClause({
+              clause,
+              evaluate: schemaWideEvaluator({ schema, type, debug }),
+            });
+            return result.type === "success" && result.result;
+          },
+        );
+        if (resourceTypes.length === 0) {
+          continue;
+        }
+        for (const [user, privilege] of arrayProduct([users, typePrivileges])) {
+          permissions.push({
+            type: "default",
+            schema,
+            objectType,
+            privilege,
+            user,
+            resourceTypes,
+          });
+        }
+      }
+      return { type: "success", permissions };
+    },
+    getDeduplicationKey: (permission) => {
+      return [
+        permission.type,
+        permission.privilege,
+        permission.user.name,
+        permission.schema.name,
+        permission.objectType,
+      ].join(",");
+    },
+    deduplicate: (permissions) => {
+      return permissions[0]!;
+    },
+  },
+  membership: {
+    // Memberships are granted by `member` rules rather than `allow` rules
+    privileges: [],
+    getPermissions: () => ({ type: "success", permissions: [] }),
+    getDeduplicationKey: (permission) => {
+      return [
+        permission.type,
+        permission.user.name,
+        permission.group.name,
+      ].join(",");
+    },
+    deduplicate: (permissions) => {
+      // If rules disagree about an option, the more permissive value wins
+      const options: MembershipPermission["options"] = {};
+      for (const permission of permissions) {
+        for (const [option, value] of Object.entries(permission.options)) {
+          const key = option as MembershipOption;
+          options[key] = (options[key] ?? false) || value;
+        }
+      }
+      return { ...permissions[0]!, options };
+    },
+  },
+  setting: {
+    // Settings are set by `setting` rules rather than `allow` rules
+    privileges: [],
+    getPermissions: () => ({ type: "success", permissions: [] }),
+    getDeduplicationKey: (permission) => {
+      return [
+        permission.type,
+        permission.user.name,
+        permission.database ?? "",
+        permission.name,
+      ].join(",");
+    },
+    deduplicate: (permissions) => {
+      // Conflicting values are reported by `parsePermissions()`
+      return permissions[0]!;
+    },
+  },
+};
+
+function getResultClause(arg: unknown, literals: Map<string, Value>): Clause {
+  const clause = valueToClause(arg);
+  return mapClauses(clause, (subClause) => {
+    if (subClause.type !== "column") {
+      return subClause;
+    }
+    const literal = literals.get(subClause.value);
+    if (!literal) {
+      return subClause;
+    }
+    return literal;
+  });
+}
+
+export interface ConvertPermissionArgs {
+  result: Map<string, unknown>;
+  entities: SQLEntities;
+  allowAnyActor?: boolean;
+  strictFields?: boolean;
+  debug?: boolean;
+  literals: Map<string, Value>;
+  source?: RuleSource;
+}
+
+export function convertPermission({
+  result,
+  entities,
+  allowAnyActor,
+  strictFields,
+  debug,
+  literals,
+  source,
+}: ConvertPermissionArgs): ConvertPermissionResult {
+  const resource = result.get("resource");
+  const action = result.get("action");
+  const actor = result.get("actor");
+
+  const actorClause = getResultClause(actor, literals);
+  const actionClause = getResultClause(action, literals);
+  const resourceClause = getResultClause(resource, literals);
+
+  const actorOrs = factorOrClauses(actorClause);
+  const actionOrs = factorOrClauses(actionClause);
   const resourceOrs = factorOrClauses(resourceClause);
 
   const errors: string[] = [];
-  const permissions: Permission[] = [];
+  const permissions: Permission[] = [];
+
+  const allActors = (entities.users as SQLActor[]).concat(entities.groups);
+  const actorNames = new Set(allActors.map((actor) => actor.name));
+
+  for (const actorOr of actorOrs) {
+    const result = validateActorClause(actorOr, actorNames);
+    if (result !== null) {
+      errors.push(...result.errors);
+    }
+  }
+
+  for (const resourceOr of resourceOrs) {
+    const result = validateResourceClause(resourceOr);
+    if (result !== null) {
+      errors.push(...result.errors);
+    }
+  }
+
+  for (const [actorOr, actionOr, resourceOr] of arrayProduct([
+    actorOrs,
+    actionOrs,
+    resourceOrs,
+  ])) {
+    if (
+      !allowAnyActor &&
+      (isTrueClause(actorOr) || isIdentityClause(actorOr, "actor"))
+    ) {
+      errors.push("rule does not specify a user");
+    }
+
+    const users: SQLActor[] = [];
+    for (const actor of allActors) {
+      const result = evaluateClause({
+        clause: actorOr,
+        evaluate: actorEvaluator({ actor, debug }),
+        strictFields,
+      });
+      if (result.type === "error") {
+        errors.push(...result.errors);
+      } else if (result.result) {
+        users.push(actor);
+      }
+    }
+
+    if (users.length === 0) {
+      continue;
+    }
+
+    const allPrivileges = new Set<Privilege>();
+    for (const handler of Object.values(handlers)) {
+      const privileges: Privilege[] = [];
+      for (const privilege of handler.privileges) {
+        const result = evaluateClause({
+          clause: actionOr,
+          evaluate: permissionEvaluator({ permission: privilege, debug }),
+          strictFields,
+        });
+        if (result.type === "error") {
+          errors.push(...result.errors);
+        } else if (result.result) {
+          privileges.push(privilege);
+          allPrivileges.add(privilege);
+        }
+      }
+
+      const result = handler.getPermissions({
+        clause: resourceOr,
+        // biome-ignore lint/suspicious/noExplicitAny: tricky type situation
+        privileges: privileges as any,
+        users,
+        entities,
+        strictFields,
+        debug,
+      });
+
+      if (result.type === "success") {
+        for (const permission of result.permissions) {
+          if (source) {
+            permission.sources = [source];
+          }
+          permissions.push(permission);
+        }
+      } else {
+        errors.push(...result.errors);
+      }
+    }
+
+    if (allPrivileges.size === 0) {
+      const referenced = getReferencedPrivileges(actionOr);
+      for (const ref of referenced) {
+        errors.push(`Invalid privilege name: '${ref}'`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return {
+      type: "error",
+      errors,
+    };
+  }
+
+  return {
+    type: "success",
+    permissions,
+  };
+}
+
+interface SplitMembershipOptionsSuccess {
+  type: "success";
+  clause: Clause;
+  options: MembershipPermission["options"];
+}
+
+/**
+ * Separate `group.admin`, `group.inherit` and `group.set` conditions from
+ * the conditions that select the group in a clause with no `or`s
+ */
+function splitMembershipOptions(
+  clause: Clause,
+): SplitMembershipOptionsSuccess | ConvertPermissionError {
+  const options: MembershipPermission["options"] = {};
+  const errors: string[] = [];
+  const remaining: Clause[] = [];
+
+  const subClauses = clause.type === "and" ? clause.clauses : [clause];
+  for (const subClause of subClauses) {
+    if (subClause.type !== "expression" || subClause.operator !== "Eq") {
+      remaining.push(subClause);
+      continue;
+    }
+    const column = subClause.values.filter(isColumn).at(0);
+    const value = subClause.values.find((value) => value.type === "value");
+    const option = MembershipOptions.find(
+      (option) => column?.value === `_this.${option}`,
+    );
+    if (!option || !value) {
+      remaining.push(subClause);
+      continue;
+    }
+    if (typeof value.value !== "boolean") {
+      errors.push(
+        `Invalid value for membership option ${option}: ${value.value}`,
+      );
+    } else if (
+      options[option] !== undefined &&
+      options[option] !== value.value
+    ) {
+      errors.push(`Conflicting values for membership option ${option}`);
+    } else {
+      options[option] = value.value;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { type: "error", errors };
+  }
+
+  return {
+    type: "success",
+    clause: optimizeClause({ type: "and", clauses: remaining }),
+    options,
+  };
+}
+
+export function convertMembership({
+  result,
+  entities,
+  allowAnyActor,
+  strictFields,
+  debug,
+  literals,
+  source,
+}: ConvertPermissionArgs): ConvertPermissionResult<MembershipPermission> {
+  const actorClause = getResultClause(result.get("actor"), literals);
+  const groupClause = getResultClause(result.get("group"), literals);
+
+  const actorOrs = factorOrClauses(actorClause);
+  const groupOrs = factorOrClauses(groupClause);
+
+  const errors: string[] = [];
+  const permissions: MembershipPermission[] = [];
 
   const allActors = (entities.users as SQLActor[]).concat(entities.groups);
   const actorNames = new Set(allActors.map((actor) => actor.name));
+  const allGroups = entities.groups.concat(entities.predefinedRoles);
+  const groupNames = new Set(allGroups.map((group) => group.name));
 
   for (const actorOr of actorOrs) {
     const result = validateActorClause(actorOr, actorNames);
@@ -1149,18 +2423,14 @@ export function convertPermission({
     }
   }
 
-  for (const resourceOr of resourceOrs) {
-    const result = validateResourceClause(resourceOr);
+  for (const groupOr of groupOrs) {
+    const result = validateActorClause(groupOr, groupNames);
     if (result !== null) {
       errors.push(...result.errors);
     }
   }
 
-  for (const [actorOr, actionOr, resourceOr] of arrayProduct([
-    actorOrs,
-    actionOrs,
-    resourceOrs,
-  ])) {
+  for (const [actorOr, groupOr] of arrayProduct([actorOrs, groupOrs])) {
     if (
       !allowAnyActor &&
       (isTrueClause(actorOr) || isIdentityClause(actorOr, "actor"))
@@ -1168,6 +2438,16 @@ export function convertPermission({
       errors.push("rule does not specify a user");
     }
 
+    const split = splitMembershipOptions(groupOr);
+    if (split.type === "error") {
+      errors.push(...split.errors);
+      continue;
+    }
+    if (isTrueClause(split.clause) || isIdentityClause(split.clause, "group")) {
+      errors.push("rule does not specify a group");
+      continue;
+    }
+
     const users: SQLActor[] = [];
     for (const actor of allActors) {
       const result = evaluateClause({
@@ -1182,49 +2462,236 @@ export function convertPermission({
       }
     }
 
-    if (users.length === 0) {
-      continue;
+    const groups: SQLGroup[] = [];
+    for (const group of allGroups) {
+      const result = evaluateClause({
+        clause: split.clause,
+        evaluate: actorEvaluator({
+          actor: group,
+          variableName: "group",
+          debug,
+        }),
+        strictFields,
+      });
+      if (result.type === "error") {
+        errors.push(...result.errors);
+      } else if (result.result) {
+        groups.push(group);
+      }
     }
 
-    const allPrivileges = new Set<Privilege>();
-    for (const handler of Object.values(handlers)) {
-      const privileges: Privilege[] = [];
-      for (const privilege of handler.privileges) {
-        const result = evaluateClause({
-          clause: actionOr,
-          evaluate: permissionEvaluator({ permission: privilege, debug }),
-          strictFields,
-        });
-        if (result.type === "error") {
-          errors.push(...result.errors);
-        } else if (result.result) {
-          privileges.push(privilege);
-          allPrivileges.add(privilege);
-        }
+    for (const [user, group] of arrayProduct([users, groups])) {
+      // A role can't be a member of itself
+      if (user.name === group.name) {
+        continue;
+      }
+      const permission: MembershipPermission = {
+        type: "membership",
+        user,
+        group,
+        privilege: "MEMBER",
+        options: split.options,
+      };
+      if (source) {
+        permission.sources = [source];
       }
+      permissions.push(permission);
+    }
+  }
 
-      const result = handler.getPermissions({
-        clause: resourceOr,
-        // biome-ignore lint/suspicious/noExplicitAny: tricky type situation
-        privileges: privileges as any,
-        users,
-        entities,
+  if (errors.length > 0) {
+    return {
+      type: "error",
+      errors,
+    };
+  }
+
+  return {
+    type: "success",
+    permissions,
+  };
+}
+
+interface SplitSettingDatabaseSuccess {
+  type: "success";
+  clause: Clause;
+  database: string | null;
+}
+
+/**
+ * Separate a `name.database` condition from the conditions that select the
+ * setting's name in a clause with no `or`s
+ */
+function splitSettingDatabase(
+  clause: Clause,
+): SplitSettingDatabaseSuccess | ConvertPermissionError {
+  let database: string | null = null;
+  const errors: string[] = [];
+  const remaining: Clause[] = [];
+
+  const subClauses = clause.type === "and" ? clause.clauses : [clause];
+  for (const subClause of subClauses) {
+    if (subClause.type !== "expression" || subClause.operator !== "Eq") {
+      remaining.push(subClause);
+      continue;
+    }
+    const column = subClause.values.filter(isColumn).at(0);
+    const value = subClause.values.find((value) => value.type === "value");
+    if (column?.value !== "_this.database" || !value) {
+      remaining.push(subClause);
+      continue;
+    }
+    if (typeof value.value !== "string") {
+      errors.push(`Invalid database for setting: ${value.value}`);
+    } else if (database !== null && database !== value.value) {
+      errors.push("Conflicting databases for setting");
+    } else {
+      database = value.value;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { type: "error", errors };
+  }
+
+  return {
+    type: "success",
+    clause: optimizeClause({ type: "and", clauses: remaining }),
+    database,
+  };
+}
+
+/**
+ * Get the value of a clause that is either a literal or constrains its
+ * variable to be equal to one, or `null` if it can have other values
+ */
+function getLiteralValue(clause: Clause): Literal | null {
+  const optimized = optimizeClause(clause);
+  if (optimized.type === "value") {
+    return optimized;
+  }
+  if (optimized.type === "expression" && optimized.operator === "Eq") {
+    const column = optimized.values.filter(isColumn).at(0);
+    const value = optimized.values.find((value) => value.type === "value");
+    if (column?.value === "_this" && value?.type === "value") {
+      return value;
+    }
+  }
+  return null;
+}
+
+function isSettingValue(value: unknown): value is SettingValue {
+  if (Array.isArray(value)) {
+    return value.length > 0 && value.every((item) => typeof item === "string");
+  }
+  return (
+    typeof value === "string" ||
+    typeof value === "boolean" ||
+    (typeof value === "number" && Number.isFinite(value))
+  );
+}
+
+const SettingNamePattern =
+  /^[A-Za-z_][A-Za-z0-9_$]*(\.[A-Za-z_][A-Za-z0-9_$]*)*$/;
+
+export function convertSetting({
+  result,
+  entities,
+  allowAnyActor,
+  strictFields,
+  debug,
+  literals,
+  source,
+}: ConvertPermissionArgs): ConvertPermissionResult<SettingPermission> {
+  const actorClause = getResultClause(result.get("actor"), literals);
+  const nameClause = getResultClause(result.get("name"), literals);
+  const valueClause = getResultClause(result.get("value"), literals);
+
+  const actorOrs = factorOrClauses(actorClause);
+  const nameOrs = factorOrClauses(nameClause);
+  const valueOrs = factorOrClauses(valueClause);
+
+  const errors: string[] = [];
+  const permissions: SettingPermission[] = [];
+
+  const allActors = (entities.users as SQLActor[]).concat(entities.groups);
+  const actorNames = new Set(allActors.map((actor) => actor.name));
+
+  for (const actorOr of actorOrs) {
+    const result = validateActorClause(actorOr, actorNames);
+    if (result !== null) {
+      errors.push(...result.errors);
+    }
+  }
+
+  const values: SettingValue[] = [];
+  for (const valueOr of valueOrs) {
+    const value = getLiteralValue(valueOr);
+    if (value === null) {
+      errors.push("rule does not specify a single setting value");
+    } else if (!isSettingValue(value.value)) {
+      errors.push(`Invalid setting value: ${JSON.stringify(value.value)}`);
+    } else {
+      values.push(value.value);
+    }
+  }
+
+  for (const [actorOr, nameOr, value] of arrayProduct([
+    actorOrs,
+    nameOrs,
+    values,
+  ])) {
+    if (
+      !allowAnyActor &&
+      (isTrueClause(actorOr) || isIdentityClause(actorOr, "actor"))
+    ) {
+      errors.push("rule does not specify a user");
+    }
+
+    const split = splitSettingDatabase(nameOr);
+    if (split.type === "error") {
+      errors.push(...split.errors);
+      continue;
+    }
+    const name = getLiteralValue(split.clause);
+    if (name === null) {
+      errors.push("rule does not specify a setting name");
+      continue;
+    }
+    if (
+      typeof name.value !== "string" ||
+      !SettingNamePattern.test(name.value)
+    ) {
+      errors.push(`Invalid setting name: ${name.value}`);
+      continue;
+    }
+
+    for (const actor of allActors) {
+      const result = evaluateClause({
+        clause: actorOr,
+        evaluate: actorEvaluator({ actor, debug }),
         strictFields,
-        debug,
       });
-
-      if (result.type === "success") {
-        permissions.push(...result.permissions);
-      } else {
+      if (result.type === "error") {
         errors.push(...result.errors);
+        continue;
       }
-    }
-
-    if (allPrivileges.size === 0) {
-      const referenced = getReferencedPrivileges(actionOr);
-      for (const ref of referenced) {
-        errors.push(`Invalid privilege name: '${ref}'`);
+      if (!result.result) {
+        continue;
+      }
+      const permission: SettingPermission = {
+        type: "setting",
+        user: actor,
+        // Setting names are case-insensitive
+        name: name.value.toLowerCase(),
+        value,
+        database: split.database,
+        privilege: "SET",
+      };
+      if (source) {
+        permission.sources = [source];
       }
+      permissions.push(permission);
     }
   }
 
@@ -1241,6 +2708,82 @@ export function convertPermission({
   };
 }
 
+/**
+ * Only keep default privileges that a rule grants on every object type they
+ * apply to, e.g. a rule that only covers procedures shouldn't grant EXECUTE
+ * on functions created later.
+ */
+function filterDefaultPermissions(permissions: Permission[]): Permission[] {
+  const getKey = (permission: DefaultPermission) => {
+    const source = permission.sources?.[0];
+    return [
+      handlers.default.getDeduplicationKey(permission),
+      source ? `${source.file}:${source.line}` : "",
+    ].join(",");
+  };
+
+  const resourceTypesByKey: Record<string, Set<Permission["type"]>> = {};
+  for (const permission of permissions) {
+    if (permission.type !== "default") {
+      continue;
+    }
+    const key = getKey(permission);
+    resourceTypesByKey[key] ??= new Set();
+    for (const type of (permission as PartialDefaultPermission).resourceTypes) {
+      resourceTypesByKey[key]!.add(type);
+    }
+  }
+
+  const outPermissions: Permission[] = [];
+  for (const permission of permissions) {
+    if (permission.type !== "default") {
+      outPermissions.push(permission);
+      continue;
+    }
+    const resourceTypes = resourceTypesByKey[getKey(permission)]!;
+    const covered = DefaultPrivilegeResourceTypes[permission.objectType].every(
+      (type) => resourceTypes.has(type),
+    );
+    if (covered) {
+      const { resourceTypes: _, ...defaultPermission } =
+        permission as PartialDefaultPermission;
+      outPermissions.push(defaultPermission);
+    }
+  }
+  return outPermissions;
+}
+
+/**
+ * Find settings that rules set to more than one value for the same actor
+ */
+function findConflictingSettings(permissions: Permission[]): string[] {
+  const valuesByKey = new Map<string, Set<string>>();
+  const settingsByKey = new Map<string, SettingPermission>();
+  for (const permission of permissions) {
+    if (permission.type !== "setting") {
+      continue;
+    }
+    const key = handlers.setting.getDeduplicationKey(permission);
+    const values = valuesByKey.get(key) ?? new Set();
+    values.add(formatSettingValue(permission.name, permission.value));
+    valuesByKey.set(key, values);
+    settingsByKey.set(key, permission);
+  }
+
+  const errors: string[] = [];
+  for (const [key, values] of valuesByKey.entries()) {
+    if (values.size > 1) {
+      const { name, user } = settingsByKey.get(key)!;
+      errors.push(
+        `Conflicting values for setting ${name} of ${user.name}: ${Array.from(
+          values,
+        ).join(", ")}`,
+      );
+    }
+  }
+  return errors;
+}
+
 export interface ParsePermissionsArgs {
   oso: Oso;
   entities: SQLEntities;
@@ -1248,6 +2791,14 @@ export interface ParsePermissionsArgs {
   strictFields?: boolean;
   debug?: boolean;
   literalsContext: LiteralsContext;
+  rules?: RuleSource[];
+  /**
+   * Sources of `member` rules. Memberships are only parsed if there are
+   * any, since querying a rule that isn't defined is an error.
+   */
+  memberRules?: RuleSource[];
+  /** Sources of `setting` rules, which are only parsed if there are any */
+  settingRules?: RuleSource[];
 }
 
 export async function parsePermissions({
@@ -1257,17 +2808,31 @@ export async function parsePermissions({
   strictFields,
   debug,
   literalsContext,
+  rules,
+  memberRules,
+  settingRules,
 }: ParsePermissionsArgs): Promise<ConvertPermissionResult> {
   return await literalsContext.use(async () => {
-    const result = oso.queryRule(
-      {
-        acceptExpression: true,
-      },
-      "allow",
+    const args = [
       new Variable("actor"),
       new Variable("action"),
       new Variable("resource"),
-    );
+    ];
+    const hasMemberRules = memberRules !== undefined && memberRules.length > 0;
+    const hasSettingRules =
+      settingRules !== undefined && settingRules.length > 0;
+    let result: AsyncIterable<Map<string, unknown>> | Map<string, unknown>[] =
+      [];
+    if (rules && rules.length > 0) {
+      result = oso.queryRule(
+        { acceptExpression: true },
+        InstrumentedRuleName,
+        new Variable("rule"),
+        ...args,
+      );
+    } else if (!hasMemberRules && !hasSettingRules) {
+      result = oso.queryRule({ acceptExpression: true }, "allow", ...args);
+    }
 
     const permissions: Permission[] = [];
     const errors: string[] = [];
@@ -1280,6 +2845,62 @@ export async function parsePermissions({
         strictFields,
         debug,
         literals: literalsContext.get(),
+        source: rules?.[item.get("rule") as number],
+      });
+      if (result.type === "success") {
+        permissions.push(...result.permissions);
+      } else {
+        errors.push(...result.errors);
+      }
+    }
+
+    const memberResult = hasMemberRules
+      ? oso.queryRule(
+          { acceptExpression: true },
+          InstrumentedMemberRuleName,
+          new Variable("rule"),
+          new Variable("actor"),
+          new Variable("group"),
+        )
+      : [];
+
+    for await (const item of memberResult) {
+      const result = convertMembership({
+        result: item,
+        entities,
+        allowAnyActor,
+        strictFields,
+        debug,
+        literals: literalsContext.get(),
+        source: memberRules?.[item.get("rule") as number],
+      });
+      if (result.type === "success") {
+        permissions.push(...result.permissions);
+      } else {
+        errors.push(...result.errors);
+      }
+    }
+
+    const settingResult = hasSettingRules
+      ? oso.queryRule(
+          { acceptExpression: true },
+          InstrumentedSettingRuleName,
+          new Variable("rule"),
+          new Variable("actor"),
+          new Variable("name"),
+          new Variable("value"),
+        )
+      : [];
+
+    for await (const item of settingResult) {
+      const result = convertSetting({
+        result: item,
+        entities,
+        allowAnyActor,
+        strictFields,
+        debug,
+        literals: literalsContext.get(),
+        source: settingRules?.[item.get("rule") as number],
       });
       if (result.type === "success") {
         permissions.push(...result.permissions);
@@ -1288,6 +2909,8 @@ export async function parsePermissions({
       }
     }
 
+    errors.push(...findConflictingSettings(permissions));
+
     if (errors.length > 0) {
       return {
         type: "error",
@@ -1297,11 +2920,55 @@ export async function parsePermissions({
 
     return {
       type: "success",
-      permissions,
+      permissions: filterDefaultPermissions(permissions),
     };
   });
 }
 
+/**
+ * Copy permissions on partitioned tables to each of their partitions,
+ * including partitions of partitions. Only partitions that currently exist
+ * are granted permissions, so this has to run again when new partitions are
+ * created.
+ */
+export function propagatePartitionPermissions(
+  permissions: Permission[],
+  entities: SQLEntities,
+): Permission[] {
+  const partitionsByParent: Record<string, SQLTable[]> = {};
+  for (const table of entities.tables) {
+    if (table.partitionOf) {
+      const parentName = formatQualifiedName(
+        table.partitionOf.schema,
+        table.partitionOf.name,
+      );
+      partitionsByParent[parentName] ??= [];
+      partitionsByParent[parentName]!.push(table.table);
+    }
+  }
+
+  const getPartitions = (table: SQLTable): SQLTable[] => {
+    const name = formatQualifiedName(table.schema, table.name);
+    return (partitionsByParent[name] ?? []).flatMap((partition) => [
+      partition,
+      ...getPartitions(partition),
+    ]);
+  };
+
+  const outPermissions: Permission[] = [];
+  for (const permission of permissions) {
+    outPermissions.push(permission);
+    if (permission.type !== "table") {
+      continue;
+    }
+    for (const partition of getPartitions(permission.table)) {
+      outPermissions.push({ ...permission, table: partition });
+    }
+  }
+
+  return outPermissions;
+}
+
 export function deduplicatePermissions(
   permissions: Permission[],
 ): Permission[] {
@@ -1321,6 +2988,15 @@ export function deduplicatePermissions(
     const handler = handlers[first.type];
     // biome-ignore lint/suspicious/noExplicitAny: deep type intersection
     const newPermission = handler.deduplicate(groupedPermissions as any);
+    const sources = groupedPermissions.flatMap(
+      (permission) => permission.sources ?? [],
+    );
+    if (sources.length > 0) {
+      newPermission.sources = deduplicateArray(
+        sources,
+        (source) => `${source.file}:${source.line}`,
+      );
+    }
     outPermissions.push(newPermission);
   }
 
@@ -1436,3 +3112,42 @@ export function getRevokeActors({
 
   return { type: "success", users: usersToRevoke };
 }
+
+/**
+ * Find permissions granted outside of `managedSchemas`. Objects that aren't
+ * contained in a schema, role memberships and settings are always outside
+ * of them.
+ */
+export function findUnmanagedPermissions(
+  permissions: Permission[],
+  managedSchemas: string[],
+): string[] {
+  const schemas = new Set(managedSchemas);
+  const errors = new Set<string>();
+  for (const permission of permissions) {
+    let target: string;
+    if (permission.type === "membership") {
+      target = `membership in ${permission.group.name}`;
+    } else if (permission.type === "setting") {
+      target = `setting ${permission.name}`;
+    } else {
+      const object = permissionObject(permission);
+      const schema = objectSchema(object);
+      if (schema !== null && schemas.has(schema)) {
+        continue;
+      }
+      const name =
+        "schema" in object
+          ? formatQualifiedName(object.schema, object.name)
+          : object.name;
+      target = `${resourceTypeName(object.type)} ${name}`;
+    }
+
+    let error = `Permission granted to ${permission.user.name} outside of managed schemas: ${target}`;
+    if (permission.sources && permission.sources.length > 0) {
+      error += ` (${formatRuleSources(permission.sources)})`;
+    }
+    errors.add(error);
+  }
+  return Array.from(errors);
+}
@@ -7,19 +7,45 @@ import { SQLBackend, SQLBackendContext, SQLEntities } from "./backend.js";
 import {
   Clause,
   Literal,
-  ValidationError,
-  evaluateClause,
+  evaluateColumnClause,
   isTrueClause,
-  simpleEvaluator,
 } from "./clause.js";
 import { VERSION } from "./constants.js";
 import {
+  AggregatePermission,
+  DefaultPermission,
+  DefaultPrivilegeObjectType,
+  ForeignTablePermission,
   FunctionPermission,
+  MaterializedViewPermission,
+  MembershipOptions,
+  MembershipPermission,
+  ObjectPermission,
   Permission,
+  PermissionChange,
+  RoleChange,
+  RuleSource,
   SQLActor,
+  SQLAggregate,
+  SQLDatabase,
+  SQLDefaultPrivilegeGrant,
+  SQLDomain,
+  SQLForeignDataWrapper,
+  SQLForeignServer,
+  SQLForeignTable,
+  SQLForeignTableMetadata,
   SQLFunction,
+  SQLGrantObject,
   SQLGroup,
+  SQLLanguage,
+  SQLMaterializedView,
+  SQLParameter,
+  SQLPrivilegeGrant,
   SQLProcedure,
+  SQLRole,
+  SQLRoleAttributes,
+  SQLRoleMembership,
+  SQLRoleSetting,
   SQLRowLevelSecurityPolicy,
   SQLRowLevelSecurityPolicyPrivilege,
   SQLRowLevelSecurityPolicyPrivileges,
@@ -27,11 +53,19 @@ import {
   SQLSequence,
   SQLTable,
   SQLTableMetadata,
+  SQLTablespace,
+  SQLType,
   SQLUser,
   SQLView,
   SchemaPermission,
+  SettingPermission,
+  SettingValue,
   TablePermission,
   ViewPermission,
+  formatRuleSources,
+  formatSettingValue,
+  objectSchema,
+  permissionObject,
 } from "./sql.js";
 import { valueToSqlLiteral } from "./utils.js";
 
@@ -39,12 +73,137 @@ const ProjectDir = url.fileURLToPath(new URL(".", import.meta.url));
 
 const SqlDir = path.join(ProjectDir, "sql/pg");
 
+const PolicyCommentPrefix = "sqlauthz:";
+
+// Objects that revoke_all_from_role.sql revokes all privileges on
+const RevokedObjectClasses = [
+  "schemas",
+  "tables",
+  "views",
+  "materialized views",
+  "foreign tables",
+  "sequences",
+  "functions",
+  "procedures",
+  "aggregates",
+  "types",
+  "domains",
+  "foreign data wrappers",
+  "foreign servers",
+  "tablespaces",
+  "languages",
+  "the current database",
+  "large objects",
+  "configuration parameters",
+];
+
+// Window functions are granted privileges the same way as aggregates
+const RoutineKindExpression = `
+  CASE p.prokind
+    WHEN 'p' THEN 'procedure'
+    WHEN 'a' THEN 'aggregate'
+    WHEN 'w' THEN 'aggregate'
+    ELSE 'function'
+  END
+`;
+
+// Argument types of a pg_proc row `p` in the format used in signatures.
+// `proargtypes` includes the OUT arguments of procedures, which also
+// identify them.
+const RoutineArgsExpression = `
+  ARRAY(
+    SELECT pg_catalog.format_type(t.oid, NULL)
+    FROM unnest(p.proargtypes::oid[]) WITH ORDINALITY AS t(oid, i)
+    ORDER BY t.i
+  )::text[]
+`;
+
+interface GrantRow {
+  objectType: SQLGrantObject["type"];
+  schema: string | null;
+  name: string;
+  /** Argument types, only for functions and procedures */
+  args?: string[];
+  column: string | null;
+  grantee: string;
+  grantor: string;
+  owner: string;
+  privilege: string;
+}
+
+interface GrantSpec {
+  object: SQLGrantObject;
+  column: string | null;
+  grantee: string;
+  privilege: string;
+  /**
+   * Role other than the object's owner that granted an existing privilege,
+   * or any role that granted one which can't be revoked
+   */
+  grantedBy?: string;
+  /**
+   * Role to switch to before revoking an existing privilege, if the current
+   * user can't revoke it directly, or `null` if it can't switch to one
+   */
+  revokeAs?: string | null;
+  sources?: RuleSource[];
+}
+
+interface DefaultPrivilegeSpec {
+  owner: string | null;
+  schema: string | null;
+  objectType: DefaultPrivilegeObjectType;
+  grantee: string;
+  privilege: string;
+  sources?: RuleSource[];
+}
+
+const DefaultPrivilegeObjectNames: Record<DefaultPrivilegeObjectType, string> =
+  {
+    table: "TABLES",
+    sequence: "SEQUENCES",
+    function: "FUNCTIONS",
+  };
+
+interface RestrictivePolicy {
+  name: string;
+  table: SQLTable;
+  query: string;
+  sources?: RuleSource[];
+}
+
+export interface PostgresBackendOptions {
+  /**
+   * Revoke permissions with an inline `DO` block rather than a function in a
+   * temporary schema, so `CREATE` on the database isn't required
+   */
+  inlineRevoke?: boolean;
+}
+
 export class PostgresBackend implements SQLBackend {
-  constructor(private readonly client: pg.Client) {}
+  /**
+   * `client` may be omitted when entities are provided from elsewhere, e.g.
+   * by `SnapshotBackend`; only `fetchEntities()` requires a connection.
+   */
+  constructor(
+    private readonly client?: pg.Client,
+    private readonly options: PostgresBackendOptions = {},
+  ) {}
 
   async fetchEntities(): Promise<SQLEntities> {
+    const client = this.client;
+    if (!client) {
+      throw new Error("A database client is required to fetch entities");
+    }
+
+    // Privileges on configuration parameters were added in PostgreSQL 15
+    const version = await client.query<{ version: number }>(
+      `SELECT current_setting('server_version_num')::integer as "version"`,
+    );
+    const hasParameterPrivileges = version.rows[0]!.version >= 150000;
+
     const getUsers = () =>
-      this.client.query<{ name: string; id: number }>(
+      client.query<{ name: string; id: number }>(
         `
           SELECT
             usename as "name",
@@ -55,8 +214,17 @@ export class PostgresBackend implements SQLBackend {
         `,
       );
 
+    const getSession = () =>
+      client.query<{ currentUser: string; sessionUser: string }>(
+        `
+          SELECT
+            current_user as "currentUser",
+            session_user as "sessionUser"
+        `,
+      );
+
     const getGroups = () =>
-      this.client.query<{ name: string; userIds: number[]; id: number }>(
+      client.query<{ name: string; userIds: number[]; id: number }>(
         `
           SELECT
             groname as "name",
@@ -64,32 +232,106 @@ export class PostgresBackend implements SQLBackend {
             grosysid as "id"
           FROM
             pg_catalog.pg_group
-          WHERE NOT groname LIKE 'pg_%'
+        `,
+      );
+
+    // Timestamps are formatted like `Date.toISOString()` so that they can be
+    // compared with the ones in roles files
+    const getRoles = () =>
+      client.query<Omit<SQLRole, "type">>(
+        `
+          SELECT
+            rolname as "name",
+            rolsuper as "superuser",
+            rolcanlogin as "login",
+            rolconnlimit as "connectionLimit",
+            CASE
+              WHEN rolvaliduntil IS NULL OR NOT isfinite(rolvaliduntil)
+                THEN NULL
+              ELSE to_char(
+                rolvaliduntil AT TIME ZONE 'UTC',
+                'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'
+              )
+            END as "validUntil",
+            rolbypassrls as "bypassRls",
+            rolcreatedb as "createDb"
+          FROM
+            pg_catalog.pg_roles
+          WHERE
+            rolname !~ '^pg_'
+        `,
+      );
+
+    // The INHERIT and SET options were added in PostgreSQL 16; before
+    // that, membership was inherited unless the member was NOINHERIT.
+    const getMemberships = () =>
+      client.query<Omit<SQLRoleMembership, "type">>(
+        `
+          SELECT
+            r.rolname as "role",
+            m.rolname as "member",
+            am.admin_option as "admin",
+            COALESCE(
+              (to_jsonb(am)->>'inherit_option')::boolean,
+              m.rolinherit
+            ) as "inherit",
+            COALESCE((to_jsonb(am)->>'set_option')::boolean, true) as "set"
+          FROM
+            pg_catalog.pg_auth_members am
+            JOIN pg_catalog.pg_roles r ON r.oid = am.roleid
+            JOIN pg_catalog.pg_roles m ON m.oid = am.member
+        `,
+      );
+
+    // Settings with no role are set with ALTER DATABASE, and aren't managed
+    const getSettings = () =>
+      client.query<{ role: string; database: string | null; setting: string }>(
+        `
+          SELECT
+            r.rolname as "role",
+            d.datname as "database",
+            s.setting
+          FROM
+            pg_catalog.pg_db_role_setting drs
+            JOIN pg_catalog.pg_roles r ON r.oid = drs.setrole
+            LEFT JOIN pg_catalog.pg_database d ON d.oid = drs.setdatabase
+            CROSS JOIN LATERAL unnest(drs.setconfig) as s(setting)
         `,
       );
 
     const getTables = () =>
-      this.client.query<{
+      client.query<{
         schema: string;
         name: string;
         rlsEnabled: boolean;
+        parentSchema: string | null;
+        parentName: string | null;
       }>(
         `
           SELECT
-            schemaname as "schema",
-            tablename as "name",
-            rowsecurity as "rlsEnabled"
+            t.schemaname as "schema",
+            t.tablename as "name",
+            t.rowsecurity as "rlsEnabled",
+            pn.nspname as "parentSchema",
+            p.relname as "parentName"
           FROM
-            pg_tables
+            pg_tables t
+            JOIN pg_catalog.pg_namespace n ON n.nspname = t.schemaname
+            JOIN pg_catalog.pg_class c
+              ON c.relnamespace = n.oid AND c.relname = t.tablename
+            LEFT JOIN pg_catalog.pg_inherits i
+              ON c.relispartition AND i.inhrelid = c.oid
+            LEFT JOIN pg_catalog.pg_class p ON p.oid = i.inhparent
+            LEFT JOIN pg_catalog.pg_namespace pn ON pn.oid = p.relnamespace
           WHERE
-            schemaname != 'information_schema'
-            AND schemaname != 'pg_catalog'
-            AND schemaname != 'pg_toast'
+            t.schemaname != 'information_schema'
+            AND t.schemaname != 'pg_catalog'
+            AND t.schemaname != 'pg_toast'
         `,
       );
 
     const getTableColumns = () =>
-      this.client.query<{
+      client.query<{
         schema: string;
         table: string;
         name: string;
@@ -105,25 +347,34 @@ export class PostgresBackend implements SQLBackend {
             table_schema != 'information_schema'
             AND table_schema != 'pg_catalog'
             AND table_schema != 'pg_toast'
+          ORDER BY ordinal_position
         `,
       );
 
+    // Since PostgreSQL 15 the public schema is owned by pg_database_owner,
+    // which objects are never created by; use the database owner instead.
     const getSchemas = () =>
-      this.client.query<{ name: string }>(
+      client.query<{ name: string; owner: string }>(
         `
           SELECT
-            schema_name as "name"
+            s.schema_name as "name",
+            CASE
+              WHEN s.schema_owner = 'pg_database_owner'
+                THEN pg_catalog.pg_get_userbyid(d.datdba)
+              ELSE s.schema_owner
+            END as "owner"
           FROM
-            information_schema.schemata
+            information_schema.schemata s
+            JOIN pg_catalog.pg_database d ON d.datname = current_database()
           WHERE
-            schema_name != 'information_schema'
-            AND schema_name != 'pg_catalog'
-            AND schema_name != 'pg_toast'
+            s.schema_name != 'information_schema'
+            AND s.schema_name != 'pg_catalog'
+            AND s.schema_name != 'pg_toast'
         `,
       );
 
     const getViews = () =>
-      this.client.query<{ schema: string; name: string }>(
+      client.query<{ schema: string; name: string }>(
         `
           SELECT
             table_schema as "schema",
@@ -137,14 +388,109 @@ export class PostgresBackend implements SQLBackend {
         `,
       );
 
+    const getMaterializedViews = () =>
+      client.query<{ schema: string; name: string }>(
+        `
+          SELECT
+            schemaname as "schema",
+            matviewname as "name"
+          FROM
+            pg_catalog.pg_matviews
+          WHERE
+            schemaname != 'information_schema'
+            AND schemaname != 'pg_catalog'
+            AND schemaname != 'pg_toast'
+        `,
+      );
+
+    const getForeignDataWrappers = () =>
+      client.query<{ name: string }>(
+        `
+          SELECT fdwname as "name" FROM pg_catalog.pg_foreign_data_wrapper
+        `,
+      );
+
+    const getForeignServers = () =>
+      client.query<{ name: string }>(
+        `
+          SELECT srvname as "name" FROM pg_catalog.pg_foreign_server
+        `,
+      );
+
+    const getDatabases = () =>
+      client.query<{ name: string }>(
+        `
+          SELECT current_database() as "name"
+        `,
+      );
+
+    // Parameters that aren't currently defined, such as those of extensions
+    // that haven't been loaded, can still have privileges
+    const getParameters = async () => {
+      if (!hasParameterPrivileges) {
+        return { rows: [] };
+      }
+      return client.query<{ name: string }>(
+        `
+          SELECT name FROM pg_catalog.pg_settings
+          UNION
+          SELECT parname as "name" FROM pg_catalog.pg_parameter_acl
+        `,
+      );
+    };
+
+    // pg_global only holds shared catalogs, so it can't be used
+    const getTablespaces = () =>
+      client.query<{ name: string }>(
+        `
+          SELECT spcname as "name"
+          FROM pg_catalog.pg_tablespace
+          WHERE spcname != 'pg_global'
+        `,
+      );
+
+    // Only trusted languages can be granted
+    const getLanguages = () =>
+      client.query<{ name: string }>(
+        `
+          SELECT lanname as "name"
+          FROM pg_catalog.pg_language
+          WHERE lanpltrusted
+        `,
+      );
+
+    const getLargeObjects = () =>
+      client.query<{ name: string }>(
+        `
+          SELECT oid::text as "name"
+          FROM pg_catalog.pg_largeobject_metadata
+          ORDER BY oid
+        `,
+      );
+
+    const getForeignTables = () =>
+      client.query<{ schema: string; name: string }>(
+        `
+          SELECT
+            n.nspname as "schema",
+            c.relname as "name"
+          FROM
+            pg_catalog.pg_foreign_table ft
+            JOIN pg_catalog.pg_class c ON c.oid = ft.ftrelid
+            JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+        `,
+      );
+
     const getPolicies = () =>
-      this.client.query<{
+      client.query<{
         schema: string;
         table: string;
         permissive: "PERMISSIVE" | "RESTRICTIVE";
         cmd: string;
         name: string;
         users: string;
+        using: string | null;
+        withCheck: string | null;
       }>(
         `
           SELECT
@@ -153,7 +499,9 @@ export class PostgresBackend implements SQLBackend {
             policyname as "name",
             permissive,
             cmd,
-            roles as "users"
+            roles as "users",
+            qual as "using",
+            with_check as "withCheck"
           FROM
             pg_policies
           WHERE
@@ -163,18 +511,45 @@ export class PostgresBackend implements SQLBackend {
         `,
       );
 
+    const getPolicyComments = () =>
+      client.query<{
+        schema: string;
+        table: string;
+        name: string;
+        comment: string;
+      }>(
+        `
+          SELECT
+            n.nspname as "schema",
+            c.relname as "table",
+            p.polname as "name",
+            d.description as "comment"
+          FROM
+            pg_catalog.pg_policy p
+            JOIN pg_catalog.pg_class c ON c.oid = p.polrelid
+            JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+            JOIN pg_catalog.pg_description d
+              ON d.objoid = p.oid
+              AND d.classoid = 'pg_catalog.pg_policy'::regclass
+          WHERE
+            n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+        `,
+      );
+
     const getFunctionsAndProcedures = () =>
-      this.client.query<{
+      client.query<{
         schema: string;
         name: string;
-        isProcedure: boolean;
+        args: string[];
+        kind: "function" | "procedure" | "aggregate";
         builtin: boolean;
       }>(
         `
           SELECT
             n.nspname as "schema",
             p.proname as "name",
-            p.prokind = 'p' as "isProcedure",
+            ${RoutineArgsExpression} as "args",
+            ${RoutineKindExpression} as "kind",
             n.nspname = 'pg_catalog' as "builtin"
           FROM
             pg_catalog.pg_proc p
@@ -186,7 +561,7 @@ export class PostgresBackend implements SQLBackend {
       );
 
     const getSequences = () =>
-      this.client.query<{ name: string; schema: string }>(
+      client.query<{ name: string; schema: string }>(
         `
           SELECT
             sequence_name as "name",
@@ -200,6 +575,364 @@ export class PostgresBackend implements SQLBackend {
         `,
       );
 
+    // Array types and the row types of relations other than composite types
+    // share the privileges of the object they belong to
+    const getTypes = () =>
+      client.query<{ schema: string; name: string; kind: "type" | "domain" }>(
+        `
+          SELECT
+            n.nspname as "schema",
+            t.typname as "name",
+            CASE t.typtype WHEN 'd' THEN 'domain' ELSE 'type' END as "kind"
+          FROM
+            pg_catalog.pg_type t
+            JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+            LEFT JOIN pg_catalog.pg_class c ON c.oid = t.typrelid
+          WHERE
+            t.typtype IN ('b', 'c', 'd', 'e', 'r', 'm')
+            AND (t.typrelid = 0 OR c.relkind = 'c')
+            AND NOT EXISTS (
+              SELECT 1 FROM pg_catalog.pg_type e WHERE e.typarray = t.oid
+            )
+            AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+        `,
+      );
+
+    const getRelationGrants = () =>
+      client.query<GrantRow>(
+        `
+          SELECT
+            CASE c.relkind
+              WHEN 'v' THEN 'view'
+              WHEN 'm' THEN 'materialized-view'
+              WHEN 'f' THEN 'foreign-table'
+              WHEN 'S' THEN 'sequence'
+              ELSE 'table'
+            END as "objectType",
+            n.nspname as "schema",
+            c.relname as "name",
+            NULL as "column",
+            COALESCE(grantee.rolname, 'public') as "grantee",
+            grantor.rolname as "grantor",
+            pg_catalog.pg_get_userbyid(c.relowner) as "owner",
+            a.privilege_type as "privilege"
+          FROM
+            pg_catalog.pg_class c
+            JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+            CROSS JOIN LATERAL aclexplode(
+              COALESCE(
+                c.relacl,
+                acldefault(
+                  (CASE WHEN c.relkind = 'S' THEN 's' ELSE 'r' END)::"char",
+                  c.relowner
+                )
+              )
+            ) a
+            LEFT JOIN pg_catalog.pg_roles grantee ON grantee.oid = a.grantee
+            LEFT JOIN pg_catalog.pg_roles grantor ON grantor.oid = a.grantor
+          WHERE
+            c.relkind IN ('r', 'p', 'v', 'm', 'f', 'S')
+            AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+        `,
+      );
+
+    const getColumnGrants = () =>
+      client.query<GrantRow>(
+        `
+          SELECT
+            CASE c.relkind
+              WHEN 'v' THEN 'view'
+              WHEN 'f' THEN 'foreign-table'
+              ELSE 'table'
+            END as "objectType",
+            n.nspname as "schema",
+            c.relname as "name",
+            att.attname as "column",
+            COALESCE(grantee.rolname, 'public') as "grantee",
+            grantor.rolname as "grantor",
+            pg_catalog.pg_get_userbyid(c.relowner) as "owner",
+            a.privilege_type as "privilege"
+          FROM
+            pg_catalog.pg_attribute att
+            JOIN pg_catalog.pg_class c ON c.oid = att.attrelid
+            JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+            CROSS JOIN LATERAL aclexplode(att.attacl) a
+            LEFT JOIN pg_catalog.pg_roles grantee ON grantee.oid = a.grantee
+            LEFT JOIN pg_catalog.pg_roles grantor ON grantor.oid = a.grantor
+          WHERE
+            att.attacl IS NOT NULL
+            AND att.attnum > 0
+            AND NOT att.attisdropped
+            AND c.relkind IN ('r', 'p', 'v', 'f')
+            AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+        `,
+      );
+
+    const getSchemaGrants = () =>
+      client.query<GrantRow>(
+        `
+          SELECT
+            'schema' as "objectType",
+            NULL as "schema",
+            n.nspname as "name",
+            NULL as "column",
+            COALESCE(grantee.rolname, 'public') as "grantee",
+            grantor.rolname as "grantor",
+            pg_catalog.pg_get_userbyid(n.nspowner) as "owner",
+            a.privilege_type as "privilege"
+          FROM
+            pg_catalog.pg_namespace n
+            CROSS JOIN LATERAL aclexplode(
+              COALESCE(n.nspacl, acldefault('n', n.nspowner))
+            ) a
+            LEFT JOIN pg_catalog.pg_roles grantee ON grantee.oid = a.grantee
+            LEFT JOIN pg_catalog.pg_roles grantor ON grantor.oid = a.grantor
+          WHERE
+            n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+        `,
+      );
+
+    const getForeignGrants = () =>
+      client.query<GrantRow>(
+        `
+          SELECT
+            'foreign-data-wrapper' as "objectType",
+            NULL as "schema",
+            w.fdwname as "name",
+            NULL as "column",
+            COALESCE(grantee.rolname, 'public') as "grantee",
+            grantor.rolname as "grantor",
+            pg_catalog.pg_get_userbyid(w.fdwowner) as "owner",
+            a.privilege_type as "privilege"
+          FROM
+            pg_catalog.pg_foreign_data_wrapper w
+            CROSS JOIN LATERAL aclexplode(
+              COALESCE(w.fdwacl, acldefault('F', w.fdwowner))
+            ) a
+            LEFT JOIN pg_catalog.pg_roles grantee ON grantee.oid = a.grantee
+            LEFT JOIN pg_catalog.pg_roles grantor ON grantor.oid = a.grantor
+          UNION ALL
+          SELECT
+            'foreign-server' as "objectType",
+            NULL as "schema",
+            s.srvname as "name",
+            NULL as "column",
+            COALESCE(grantee.rolname, 'public') as "grantee",
+            grantor.rolname as "grantor",
+            pg_catalog.pg_get_userbyid(s.srvowner) as "owner",
+            a.privilege_type as "privilege"
+          FROM
+            pg_catalog.pg_foreign_server s
+            CROSS JOIN LATERAL aclexplode(
+              COALESCE(s.srvacl, acldefault('S', s.srvowner))
+            ) a
+            LEFT JOIN pg_catalog.pg_roles grantee ON grantee.oid = a.grantee
+            LEFT JOIN pg_catalog.pg_roles grantor ON grantor.oid = a.grantor
+        `,
+      );
+
+    const getDatabaseGrants = () =>
+      client.query<GrantRow>(
+        `
+          SELECT
+            'database' as "objectType",
+            NULL as "schema",
+            d.datname as "name",
+            NULL as "column",
+            COALESCE(grantee.rolname, 'public') as "grantee",
+            grantor.rolname as "grantor",
+            pg_catalog.pg_get_userbyid(d.datdba) as "owner",
+            a.privilege_type as "privilege"
+          FROM
+            pg_catalog.pg_database d
+            CROSS JOIN LATERAL aclexplode(
+              COALESCE(d.datacl, acldefault('d', d.datdba))
+            ) a
+            LEFT JOIN pg_catalog.pg_roles grantee ON grantee.oid = a.grantee
+            LEFT JOIN pg_catalog.pg_roles grantor ON grantor.oid = a.grantor
+          WHERE
+            d.datname = current_database()
+        `,
+      );
+
+    const getParameterGrants = async () => {
+      if (!hasParameterPrivileges) {
+        return { rows: [] };
+      }
+      // Parameters have no owner, and superusers grant privileges on them
+      // as the bootstrap superuser
+      return client.query<GrantRow>(
+        `
+          SELECT
+            'parameter' as "objectType",
+            NULL as "schema",
+            p.parname as "name",
+            NULL as "column",
+            COALESCE(grantee.rolname, 'public') as "grantee",
+            grantor.rolname as "grantor",
+            pg_catalog.pg_get_userbyid(10) as "owner",
+            a.privilege_type as "privilege"
+          FROM
+            pg_catalog.pg_parameter_acl p
+            CROSS JOIN LATERAL aclexplode(p.paracl) a
+            LEFT JOIN pg_catalog.pg_roles grantee ON grantee.oid = a.grantee
+            LEFT JOIN pg_catalog.pg_roles grantor ON grantor.oid = a.grantor
+        `,
+      );
+    };
+
+    const getTablespaceGrants = () =>
+      client.query<GrantRow>(
+        `
+          SELECT
+            'tablespace' as "objectType",
+            NULL as "schema",
+            t.spcname as "name",
+            NULL as "column",
+            COALESCE(grantee.rolname, 'public') as "grantee",
+            grantor.rolname as "grantor",
+            pg_catalog.pg_get_userbyid(t.spcowner) as "owner",
+            a.privilege_type as "privilege"
+          FROM
+            pg_catalog.pg_tablespace t
+            CROSS JOIN LATERAL aclexplode(
+              COALESCE(t.spcacl, acldefault('t', t.spcowner))
+            ) a
+            LEFT JOIN pg_catalog.pg_roles grantee ON grantee.oid = a.grantee
+            LEFT JOIN pg_catalog.pg_roles grantor ON grantor.oid = a.grantor
+          WHERE
+            t.spcname != 'pg_global'
+        `,
+      );
+
+    const getLanguageGrants = () =>
+      client.query<GrantRow>(
+        `
+          SELECT
+            'language' as "objectType",
+            NULL as "schema",
+            l.lanname as "name",
+            NULL as "column",
+            COALESCE(grantee.rolname, 'public') as "grantee",
+            grantor.rolname as "grantor",
+            pg_catalog.pg_get_userbyid(l.lanowner) as "owner",
+            a.privilege_type as "privilege"
+          FROM
+            pg_catalog.pg_language l
+            CROSS JOIN LATERAL aclexplode(
+              COALESCE(l.lanacl, acldefault('l', l.lanowner))
+            ) a
+            LEFT JOIN pg_catalog.pg_roles grantee ON grantee.oid = a.grantee
+            LEFT JOIN pg_catalog.pg_roles grantor ON grantor.oid = a.grantor
+          WHERE
+            l.lanpltrusted
+        `,
+      );
+
+    const getLargeObjectGrants = () =>
+      client.query<GrantRow>(
+        `
+          SELECT
+            'large-object' as "objectType",
+            NULL as "schema",
+            m.oid::text as "name",
+            NULL as "column",
+            COALESCE(grantee.rolname, 'public') as "grantee",
+            grantor.rolname as "grantor",
+            pg_catalog.pg_get_userbyid(m.lomowner) as "owner",
+            a.privilege_type as "privilege"
+          FROM
+            pg_catalog.pg_largeobject_metadata m
+            CROSS JOIN LATERAL aclexplode(
+              COALESCE(m.lomacl, acldefault('L', m.lomowner))
+            ) a
+            LEFT JOIN pg_catalog.pg_roles grantee ON grantee.oid = a.grantee
+            LEFT JOIN pg_catalog.pg_roles grantor ON grantor.oid = a.grantor
+        `,
+      );
+
+    const getTypeGrants = () =>
+      client.query<GrantRow>(
+        `
+          SELECT
+            CASE t.typtype WHEN 'd' THEN 'domain' ELSE 'type' END as "objectType",
+            n.nspname as "schema",
+            t.typname as "name",
+            NULL as "column",
+            COALESCE(grantee.rolname, 'public') as "grantee",
+            grantor.rolname as "grantor",
+            pg_catalog.pg_get_userbyid(t.typowner) as "owner",
+            a.privilege_type as "privilege"
+          FROM
+            pg_catalog.pg_type t
+            JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+            LEFT JOIN pg_catalog.pg_class c ON c.oid = t.typrelid
+            CROSS JOIN LATERAL aclexplode(
+              COALESCE(t.typacl, acldefault('T', t.typowner))
+            ) a
+            LEFT JOIN pg_catalog.pg_roles grantee ON grantee.oid = a.grantee
+            LEFT JOIN pg_catalog.pg_roles grantor ON grantor.oid = a.grantor
+          WHERE
+            t.typtype IN ('b', 'c', 'd', 'e', 'r', 'm')
+            AND (t.typrelid = 0 OR c.relkind = 'c')
+            AND NOT EXISTS (
+              SELECT 1 FROM pg_catalog.pg_type e WHERE e.typarray = t.oid
+            )
+            AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+        `,
+      );
+
+    const getRoutineGrants = () =>
+      client.query<GrantRow>(
+        `
+          SELECT DISTINCT
+            ${RoutineKindExpression} as "objectType",
+            n.nspname as "schema",
+            p.proname as "name",
+            ${RoutineArgsExpression} as "args",
+            NULL as "column",
+            COALESCE(grantee.rolname, 'public') as "grantee",
+            grantor.rolname as "grantor",
+            pg_catalog.pg_get_userbyid(p.proowner) as "owner",
+            a.privilege_type as "privilege"
+          FROM
+            pg_catalog.pg_proc p
+            JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+            CROSS JOIN LATERAL aclexplode(
+              COALESCE(p.proacl, acldefault('f', p.proowner))
+            ) a
+            LEFT JOIN pg_catalog.pg_roles grantee ON grantee.oid = a.grantee
+            LEFT JOIN pg_catalog.pg_roles grantor ON grantor.oid = a.grantor
+          WHERE
+            n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+        `,
+      );
+
+    const getDefaultPrivileges = () =>
+      client.query<Omit<SQLDefaultPrivilegeGrant, "type">>(
+        `
+          SELECT
+            owner_role.rolname as "owner",
+            n.nspname as "schema",
+            CASE d.defaclobjtype
+              WHEN 'r' THEN 'table'
+              WHEN 'S' THEN 'sequence'
+              ELSE 'function'
+            END as "objectType",
+            COALESCE(grantee.rolname, 'public') as "grantee",
+            a.privilege_type as "privilege"
+          FROM
+            pg_catalog.pg_default_acl d
+            JOIN pg_catalog.pg_roles owner_role ON owner_role.oid = d.defaclrole
+            LEFT JOIN pg_catalog.pg_namespace n ON n.oid = d.defaclnamespace
+            CROSS JOIN LATERAL aclexplode(d.defaclacl) a
+            LEFT JOIN pg_catalog.pg_roles grantee ON grantee.oid = a.grantee
+          WHERE
+            d.defaclobjtype IN ('r', 'S', 'f')
+            AND a.grantee != d.defaclrole
+        `,
+      );
+
     const [
       users,
       groups,
@@ -207,9 +940,36 @@ export class PostgresBackend implements SQLBackend {
       tableColumns,
       schemas,
       views,
+      materializedViews,
       policies,
+      policyComments,
       functionsAndProcedures,
       sequences,
+      types,
+      foreignDataWrappers,
+      foreignServers,
+      foreignTables,
+      databases,
+      parameters,
+      tablespaces,
+      languages,
+      largeObjects,
+      relationGrants,
+      columnGrants,
+      schemaGrants,
+      foreignGrants,
+      databaseGrants,
+      parameterGrants,
+      tablespaceGrants,
+      languageGrants,
+      largeObjectGrants,
+      typeGrants,
+      routineGrants,
+      defaultPrivileges,
+      memberships,
+      roles,
+      settings,
+      session,
     ] = await Promise.all([
       getUsers(),
       getGroups(),
@@ -217,9 +977,36 @@ export class PostgresBackend implements SQLBackend {
       getTableColumns(),
       getSchemas(),
       getViews(),
+      getMaterializedViews(),
       getPolicies(),
+      getPolicyComments(),
       getFunctionsAndProcedures(),
       getSequences(),
+      getTypes(),
+      getForeignDataWrappers(),
+      getForeignServers(),
+      getForeignTables(),
+      getDatabases(),
+      getParameters(),
+      getTablespaces(),
+      getLanguages(),
+      getLargeObjects(),
+      getRelationGrants(),
+      getColumnGrants(),
+      getSchemaGrants(),
+      getForeignGrants(),
+      getDatabaseGrants(),
+      getParameterGrants(),
+      getTablespaceGrants(),
+      getLanguageGrants(),
+      getLargeObjectGrants(),
+      getTypeGrants(),
+      getRoutineGrants(),
+      getDefaultPrivileges(),
+      getMemberships(),
+      getRoles(),
+      getSettings(),
+      getSession(),
     ]);
 
     const tableItems: Record<string, SQLTableMetadata> = {};
@@ -230,13 +1017,36 @@ export class PostgresBackend implements SQLBackend {
         table: { type: "table", name: table.name, schema: table.schema },
         rlsEnabled: table.rlsEnabled,
         columns: [],
+        partitionOf:
+          table.parentSchema !== null && table.parentName !== null
+            ? {
+                type: "table",
+                schema: table.parentSchema,
+                name: table.parentName,
+              }
+            : null,
+      };
+    }
+
+    const foreignTableItems: Record<string, SQLForeignTableMetadata> = {};
+    for (const table of foreignTables.rows) {
+      const fullName = `${table.schema}.${table.name}`;
+      foreignTableItems[fullName] = {
+        type: "foreign-table-metadata",
+        table: {
+          type: "foreign-table",
+          name: table.name,
+          schema: table.schema,
+        },
+        columns: [],
       };
     }
 
     for (const row of tableColumns.rows) {
       const fullName = `${row.schema}.${row.table}`;
-      if (tableItems[fullName]) {
-        tableItems[fullName]!.columns.push(row.name);
+      const item = tableItems[fullName] ?? foreignTableItems[fullName];
+      if (item) {
+        item.columns.push(row.name);
       }
     }
 
@@ -246,17 +1056,26 @@ export class PostgresBackend implements SQLBackend {
 
     const functions: SQLFunction[] = [];
     const procedures: SQLProcedure[] = [];
+    const aggregates: SQLAggregate[] = [];
     for (const {
       schema,
       name,
+      args,
       builtin,
-      isProcedure,
+      kind,
     } of functionsAndProcedures.rows) {
-      if (isProcedure) {
+      if (kind === "aggregate") {
+        // Built-in aggregates can't be called in row-level security
+        // policies, so unlike built-in functions they're not needed
+        if (!builtin) {
+          aggregates.push({ type: "aggregate", name, schema, args });
+        }
+      } else if (kind === "procedure") {
         procedures.push({
           type: "procedure",
           name,
           schema,
+          args,
           builtin,
         });
       } else {
@@ -264,6 +1083,7 @@ export class PostgresBackend implements SQLBackend {
           type: "function",
           name,
           schema,
+          args,
           builtin,
         });
       }
@@ -276,11 +1096,34 @@ export class PostgresBackend implements SQLBackend {
       Object.values(usersById).map((user) => [user.name, user]),
     );
     const groupsByName: Record<number, SQLGroup> = {};
+    const predefinedRoles: SQLGroup[] = [];
     for (const group of groups.rows) {
       const users = group.userIds.flatMap((userId) =>
         usersById[userId] ? [usersById[userId]] : [],
       );
-      groupsByName[group.name] = { type: "group", name: group.name, users };
+      const item: SQLGroup = { type: "group", name: group.name, users };
+      if (!group.name.startsWith("pg_")) {
+        groupsByName[group.name] = item;
+      } else if (group.name !== "pg_database_owner") {
+        // pg_database_owner's membership is implicit and can't be granted
+        predefinedRoles.push(item);
+      }
+    }
+
+    // Since PostgreSQL 16 a role can be granted more than once by different
+    // grantors; only the membership itself is managed
+    const membershipsByKey: Record<string, SQLRoleMembership> = {};
+    for (const row of memberships.rows) {
+      membershipsByKey[JSON.stringify([row.role, row.member])] ??= {
+        type: "role-membership",
+        ...row,
+      };
+    }
+
+    const commentsByPolicy: Record<string, string> = {};
+    for (const row of policyComments.rows) {
+      const key = [row.schema, row.table, row.name].join(".");
+      commentsByPolicy[key] = row.comment;
     }
 
     const rlsPolicies: SQLRowLevelSecurityPolicy[] = [];
@@ -316,23 +1159,151 @@ export class PostgresBackend implements SQLBackend {
         privileges,
         users,
         groups,
+        using: row.using,
+        withCheck: row.withCheck,
+        comment:
+          commentsByPolicy[[row.schema, row.table, row.name].join(".")] ?? null,
+      });
+    }
+
+    const grants: SQLPrivilegeGrant[] = [];
+    for (const row of [
+      ...relationGrants.rows,
+      ...columnGrants.rows,
+      ...schemaGrants.rows,
+      ...foreignGrants.rows,
+      ...databaseGrants.rows,
+      ...parameterGrants.rows,
+      ...tablespaceGrants.rows,
+      ...languageGrants.rows,
+      ...largeObjectGrants.rows,
+      ...typeGrants.rows,
+      ...routineGrants.rows,
+    ]) {
+      let object: SQLGrantObject;
+      switch (row.objectType) {
+        case "schema":
+        case "foreign-data-wrapper":
+        case "foreign-server":
+        case "database":
+        case "parameter":
+        case "tablespace":
+        case "language":
+        case "large-object":
+          object = { type: row.objectType, name: row.name };
+          break;
+        case "table":
+        case "view":
+        case "materialized-view":
+        case "foreign-table":
+        case "sequence":
+        case "type":
+        case "domain":
+          object = {
+            type: row.objectType,
+            schema: row.schema!,
+            name: row.name,
+          };
+          break;
+        case "function":
+        case "procedure":
+          object = {
+            type: row.objectType,
+            schema: row.schema!,
+            name: row.name,
+            args: row.args!,
+            builtin: false,
+          };
+          break;
+        case "aggregate":
+          object = {
+            type: row.objectType,
+            schema: row.schema!,
+            name: row.name,
+            args: row.args!,
+          };
+          break;
+      }
+      grants.push({
+        type: "privilege-grant",
+        object,
+        column: row.column,
+        grantee: row.grantee,
+        grantor: row.grantor,
+        owner: row.owner,
+        privilege: row.privilege,
       });
     }
 
     return {
       users: Object.values(usersById),
       groups: Object.values(groupsByName),
-      schemas: schemas.rows.map((row) => ({ type: "schema", name: row.name })),
+      predefinedRoles,
+      roles: roles.rows.map((row) => ({ type: "role", ...row })),
+      schemas: schemas.rows.map((row) => ({
+        type: "schema",
+        name: row.name,
+        owner: row.owner,
+      })),
       views: views.rows.map((row) => ({
         type: "view",
         schema: row.schema,
         name: row.name,
       })),
+      materializedViews: materializedViews.rows.map((row) => ({
+        type: "materialized-view",
+        ...row,
+      })),
       tables: Object.values(tableItems),
       rlsPolicies,
       functions,
       procedures,
+      aggregates,
       sequences: sequences.rows.map((row) => ({ type: "sequence", ...row })),
+      types: types.rows.flatMap(({ kind, ...row }) =>
+        kind === "type" ? [{ type: "type", ...row }] : [],
+      ),
+      domains: types.rows.flatMap(({ kind, ...row }) =>
+        kind === "domain" ? [{ type: "domain", ...row }] : [],
+      ),
+      foreignDataWrappers: foreignDataWrappers.rows.map((row) => ({
+        type: "foreign-data-wrapper",
+        ...row,
+      })),
+      foreignServers: foreignServers.rows.map((row) => ({
+        type: "foreign-server",
+        ...row,
+      })),
+      foreignTables: Object.values(foreignTableItems),
+      databases: databases.rows.map((row) => ({ type: "database", ...row })),
+      parameters: parameters.rows.map((row) => ({ type: "parameter", ...row })),
+      tablespaces: tablespaces.rows.map((row) => ({
+        type: "tablespace",
+        ...row,
+      })),
+      languages: languages.rows.map((row) => ({ type: "language", ...row })),
+      largeObjects: largeObjects.rows.map((row) => ({
+        type: "large-object",
+        ...row,
+      })),
+      grants,
+      defaultPrivileges: defaultPrivileges.rows.map((row) => ({
+        type: "default-privilege-grant",
+        ...row,
+      })),
+      memberships: Object.values(membershipsByKey),
+      settings: settings.rows.map(({ role, database, setting }) => {
+        const index = setting.indexOf("=");
+        return {
+          type: "role-setting",
+          role,
+          database,
+          name: setting.slice(0, index),
+          value: setting.slice(index + 1),
+        };
+      }),
+      currentUser: session.rows[0]!.currentUser,
+      sessionUser: session.rows[0]!.sessionUser,
     };
   }
 
@@ -340,12 +1311,32 @@ export class PostgresBackend implements SQLBackend {
     return JSON.stringify(identifier);
   }
 
-  private quoteTopLevelName(schema: SQLSchema | SQLActor): string {
-    return this.quoteIdentifier(schema.name);
+  private quoteTopLevelName(
+    object:
+      | SQLSchema
+      | SQLActor
+      | SQLForeignDataWrapper
+      | SQLForeignServer
+      | SQLDatabase
+      | SQLParameter
+      | SQLTablespace
+      | SQLLanguage,
+  ): string {
+    return this.quoteIdentifier(object.name);
   }
 
   private quoteQualifiedName(
-    table: SQLTable | SQLView | SQLFunction | SQLProcedure | SQLSequence,
+    table:
+      | SQLTable
+      | SQLView
+      | SQLMaterializedView
+      | SQLFunction
+      | SQLProcedure
+      | SQLAggregate
+      | SQLSequence
+      | SQLType
+      | SQLDomain
+      | SQLForeignTable,
   ): string {
     return [
       this.quoteIdentifier(table.schema),
@@ -353,6 +1344,16 @@ export class PostgresBackend implements SQLBackend {
     ].join(".");
   }
 
+  /**
+   * Argument types are formatted by PostgreSQL, so they're already quoted
+   * where necessary
+   */
+  private quoteRoutineSignature(
+    routine: SQLFunction | SQLProcedure | SQLAggregate,
+  ): string {
+    return `${this.quoteQualifiedName(routine)}(${routine.args.join(", ")})`;
+  }
+
   private async loadSqlFile(
     name: string,
     variables: Record<string, string>,
@@ -377,6 +1378,37 @@ export class PostgresBackend implements SQLBackend {
   }
 
   async getContext(entities: SQLEntities): Promise<SQLBackendContext> {
+    // Privileges granted by other roles are revoked from every user before
+    // anything else is, since the grantor may be one of the users
+    const revokeGrantsBlock = await this.loadSqlFile(
+      "revoke_grants_from_role.sql",
+      {},
+    );
+    const revokeBlock = await this.loadSqlFile("revoke_all_from_role.sql", {});
+
+    // Revoke inline so that no schema has to be created
+    if (this.options.inlineRevoke) {
+      return this.getBaseContext((users, managedSchemas) => {
+        if (users.length === 0) {
+          return [];
+        }
+        const names = users
+          .map((user) => valueToSqlLiteral(user.name))
+          .join(", ");
+        const schemas = this.managedSchemasLiteral(managedSchemas);
+        const query = [
+          `DO $$ DECLARE username TEXT; managed_schemas TEXT[] := ${schemas}; BEGIN`,
+          `FOREACH username IN ARRAY ARRAY[${names}]::TEXT[] LOOP`,
+          revokeGrantsBlock,
+          "END LOOP;",
+          `FOREACH username IN ARRAY ARRAY[${names}]::TEXT[] LOOP`,
+          revokeBlock,
+          "END LOOP; END $$;",
+        ].join("\n");
+        return [query];
+      });
+    }
+
     let tmpSchema = "";
     const tries = 0;
 
@@ -392,9 +1424,25 @@ export class PostgresBackend implements SQLBackend {
       throw new Error("Unable to choose a temporary schema name");
     }
 
+    const revokeQuery = (users: SQLActor[], managedSchemas?: string[]) => {
+      const schemas = this.managedSchemasLiteral(managedSchemas);
+      return ["revoke_grants_from_role", "revoke_all_from_role"].flatMap(
+        (func) =>
+          users.map((user) => {
+            const username = valueToSqlLiteral(user.name);
+            return `SELECT ${tmpSchema}.${func}(${username}, ${schemas});`;
+          }),
+      );
+    };
+
     const setupQuery = [
       `CREATE SCHEMA ${this.quoteIdentifier(tmpSchema)};`,
-      await this.loadSqlFile("revoke_all_from_role.sql", { tmpSchema }),
+      `CREATE FUNCTION ${tmpSchema}.revoke_grants_from_role(username TEXT, managed_schemas TEXT[]) RETURNS VOID AS $$`,
+      revokeGrantsBlock,
+      "$$ LANGUAGE plpgsql SECURITY INVOKER;",
+      `CREATE FUNCTION ${tmpSchema}.revoke_all_from_role(username TEXT, managed_schemas TEXT[]) RETURNS VOID AS $$`,
+      revokeBlock,
+      "$$ LANGUAGE plpgsql SECURITY INVOKER;",
     ].join("\n");
 
     const teardownQuery = `DROP SCHEMA ${this.quoteIdentifier(
@@ -402,224 +1450,1026 @@ export class PostgresBackend implements SQLBackend {
     )} CASCADE;`;
 
     return {
+      ...this.getBaseContext(revokeQuery),
       setupQuery,
       teardownQuery,
-      transactionStartQuery: "BEGIN;",
-      transactionCommitQuery: "COMMIT;",
-      removeAllPermissionsFromActorsQueries: (users, entities) => {
-        const revokeQueries = users.map(
-          (user) => `SELECT ${tmpSchema}.revoke_all_from_role('${user.name}');`,
-        );
+    };
+  }
+
+  private getBaseContext(
+    revokeQuery: (users: SQLActor[], managedSchemas?: string[]) => string[],
+  ): SQLBackendContext {
+    return {
+      transactionStartQuery: "BEGIN;",
+      transactionCommitQuery: "COMMIT;",
+      removeAllPermissionsFromActorsQueries: (
+        users,
+        allEntities,
+        managedSchemas,
+      ) => {
+        const revokeQueries = revokeQuery(users, managedSchemas);
+        if (users.length > 0) {
+          revokeQueries.unshift(this.revokeScopeComment(users, managedSchemas));
+        }
 
         const userNames = new Set(users.map((user) => user.name));
+        const entities = this.managedEntities(allEntities, managedSchemas);
 
         const policiesToDrop = entities.rlsPolicies.filter(
           (policy) =>
             policy.permissive === "RESTRICTIVE" &&
             policy.users.some((user) => userNames.has(user.name)),
         );
-        const dropQueries = policiesToDrop.map(
-          (policy) =>
-            `DROP POLICY ${this.quoteIdentifier(policy.name)} ` +
-            `ON ${this.quoteQualifiedName(policy.table)};`,
+        const dropQueries = policiesToDrop.map((policy) =>
+          this.dropPolicyQuery(policy),
         );
 
-        return revokeQueries.concat(dropQueries);
+        const resetQueries = entities.settings
+          .filter((setting) => userNames.has(setting.role))
+          .map((setting) => `ALTER ROLE ${this.resetSettingTarget(setting)};`);
+
+        return revokeQueries.concat(dropQueries, resetQueries);
       },
       compileGrantQueries: (permissions, entities) => {
-        const metaByTable = Object.fromEntries(
-          entities.tables.map((table) => [
-            this.quoteQualifiedName(table.table),
-            table,
-          ]),
-        );
+        const rlsQueries = this.compileRlsChanges(
+          permissions,
+          entities,
+        ).flatMap((change) => change.queries);
 
-        const tablesWithDefaultPermissivePolicies: Record<
-          string,
-          Set<string>
-        > = {};
-        const tablesWithPermissivePolicies: Record<
-          string,
-          Record<string, Set<SQLRowLevelSecurityPolicyPrivilege>>
-        > = {};
-        for (const policy of entities.rlsPolicies) {
-          if (policy.permissive === "PERMISSIVE") {
-            const tableName = this.quoteQualifiedName(policy.table);
-            if (policy.isDefault) {
-              tablesWithDefaultPermissivePolicies[tableName] ??= new Set();
-              const perms = tablesWithDefaultPermissivePolicies[tableName];
-              for (const perm of policy.privileges) {
-                perms.add(perm);
-              }
-              continue;
-            }
+        const individualGrantQueries = permissions.flatMap((perm) => [
+          ...this.sourceComment(perm.sources),
+          ...this.compileGrantQuery(perm, entities),
+        ]);
 
-            tablesWithPermissivePolicies[tableName] ??= {};
-            const users = tablesWithPermissivePolicies[tableName];
-            const policyUsers = [...policy.users];
-            for (const group of policy.groups) {
-              users[group.name] ??= new Set();
-              const groupPerms = users[group.name]!;
-              for (const perm of policy.privileges) {
-                groupPerms.add(perm);
-              }
-              policyUsers.push(...group.users);
-            }
-            for (const user of policyUsers) {
-              users[user.name] ??= new Set();
-              const userPerms = users[user.name]!;
-              for (const perm of policy.privileges) {
-                userPerms.add(perm);
-              }
-            }
+        return rlsQueries.concat(individualGrantQueries);
+      },
+      diffPermissions: (users, permissions, entities, managedSchemas) =>
+        this.diffPermissions(users, permissions, entities, managedSchemas),
+      compileRoleChanges: (changes) =>
+        changes.map((change) => this.compileRoleChange(change)),
+    };
+  }
+
+  private compileRoleChange(change: RoleChange): PermissionChange {
+    const name = this.quoteIdentifier(change.name);
+    if (change.type === "drop") {
+      // Objects owned by the role are given to the current user, and
+      // everything that was granted to it is removed, before dropping it.
+      // Both only apply to the current database, so DROP ROLE fails if the
+      // role still owns objects or holds privileges in another one.
+      return {
+        type: "drop-role",
+        description: name,
+        queries: [
+          `REASSIGN OWNED BY ${name} TO CURRENT_USER;`,
+          `DROP OWNED BY ${name};`,
+          `DROP ROLE ${name};`,
+        ],
+      };
+    }
+
+    const options = this.roleOptions(change.attributes);
+    // Only the fact that a password is set is included in the description,
+    // since it may be printed
+    const description = [name, ...options];
+    if (change.password !== undefined) {
+      options.push(
+        `PASSWORD ${valueToSqlLiteral(scramSha256(change.password))}`,
+      );
+      description.push("PASSWORD");
+    }
+    const keyword = change.type === "create" ? "CREATE" : "ALTER";
+    const withOptions = options.length > 0 ? ` WITH ${options.join(" ")}` : "";
+
+    return {
+      type: change.type === "create" ? "create-role" : "alter-role",
+      description: description.join(" "),
+      queries: [`${keyword} ROLE ${name}${withOptions};`],
+    };
+  }
+
+  private roleOptions(attributes: Partial<SQLRoleAttributes>): string[] {
+    const options: string[] = [];
+    if (attributes.login !== undefined) {
+      options.push(attributes.login ? "LOGIN" : "NOLOGIN");
+    }
+    if (attributes.connectionLimit !== undefined) {
+      options.push(`CONNECTION LIMIT ${attributes.connectionLimit}`);
+    }
+    if (attributes.validUntil !== undefined) {
+      options.push(
+        `VALID UNTIL ${valueToSqlLiteral(attributes.validUntil ?? "infinity")}`,
+      );
+    }
+    if (attributes.bypassRls !== undefined) {
+      options.push(attributes.bypassRls ? "BYPASSRLS" : "NOBYPASSRLS");
+    }
+    if (attributes.createDb !== undefined) {
+      options.push(attributes.createDb ? "CREATEDB" : "NOCREATEDB");
+    }
+    return options;
+  }
+
+  private compileRlsChanges(
+    permissions: Permission[],
+    entities: SQLEntities,
+  ): PermissionChange[] {
+    const metaByTable = Object.fromEntries(
+      entities.tables.map((table) => [
+        this.quoteQualifiedName(table.table),
+        table,
+      ]),
+    );
+
+    const tablesWithDefaultPermissivePolicies: Record<string, Set<string>> = {};
+    const tablesWithPermissivePolicies: Record<
+      string,
+      Record<string, Set<SQLRowLevelSecurityPolicyPrivilege>>
+    > = {};
+    for (const policy of entities.rlsPolicies) {
+      if (policy.permissive === "PERMISSIVE") {
+        const tableName = this.quoteQualifiedName(policy.table);
+        if (policy.isDefault) {
+          tablesWithDefaultPermissivePolicies[tableName] ??= new Set();
+          const perms = tablesWithDefaultPermissivePolicies[tableName];
+          for (const perm of policy.privileges) {
+            perms.add(perm);
           }
+          continue;
         }
 
-        const tablesToAddRlsTo = new Set<string>();
-        for (const perm of permissions) {
-          if (perm.type !== "table") {
-            continue;
+        tablesWithPermissivePolicies[tableName] ??= {};
+        const users = tablesWithPermissivePolicies[tableName];
+        const policyUsers = [...policy.users];
+        for (const group of policy.groups) {
+          users[group.name] ??= new Set();
+          const groupPerms = users[group.name]!;
+          for (const perm of policy.privileges) {
+            groupPerms.add(perm);
           }
-          if (isTrueClause(perm.rowClause)) {
-            continue;
-          }
-          if (
-            !SQLRowLevelSecurityPolicyPrivileges.includes(
-              perm.privilege as SQLRowLevelSecurityPolicyPrivilege,
-            )
-          ) {
-            continue;
-          }
-          const tableName = this.quoteQualifiedName(perm.table);
-          const table = metaByTable[tableName];
-          if (!table) {
-            continue;
-          }
-          if (!table.rlsEnabled) {
-            tablesToAddRlsTo.add(tableName);
+          policyUsers.push(...group.users);
+        }
+        for (const user of policyUsers) {
+          users[user.name] ??= new Set();
+          const userPerms = users[user.name]!;
+          for (const perm of policy.privileges) {
+            userPerms.add(perm);
           }
         }
+      }
+    }
 
-        const defaultPoliciesToCreate: Record<
-          string,
-          Record<string, Set<string>>
-        > = {};
-        for (const perm of permissions) {
-          if (perm.type !== "table") {
-            continue;
-          }
+    const tablesToAddRlsTo = new Set<string>();
+    for (const perm of permissions) {
+      if (perm.type !== "table") {
+        continue;
+      }
+      if (isTrueClause(perm.rowClause)) {
+        continue;
+      }
+      if (
+        !SQLRowLevelSecurityPolicyPrivileges.includes(
+          perm.privilege as SQLRowLevelSecurityPolicyPrivilege,
+        )
+      ) {
+        continue;
+      }
+      const tableName = this.quoteQualifiedName(perm.table);
+      const table = metaByTable[tableName];
+      if (!table) {
+        continue;
+      }
+      if (!table.rlsEnabled) {
+        tablesToAddRlsTo.add(tableName);
+      }
+    }
+
+    const defaultPoliciesToCreate: Record<
+      string,
+      Record<string, Set<string>>
+    > = {};
+    for (const perm of permissions) {
+      if (perm.type !== "table") {
+        continue;
+      }
+      if (
+        !SQLRowLevelSecurityPolicyPrivileges.includes(
+          perm.privilege as SQLRowLevelSecurityPolicyPrivilege,
+        )
+      ) {
+        continue;
+      }
+
+      const tableName = this.quoteQualifiedName(perm.table);
+      const table = metaByTable[tableName];
+      if (!table) {
+        continue;
+      }
+      if (!table.rlsEnabled || tablesToAddRlsTo.has(tableName)) {
+        continue;
+      }
+
+      const usersWithPolicies =
+        tablesWithPermissivePolicies[tableName]?.[perm.user.name];
+      const tableDefaultPerms = tablesWithDefaultPermissivePolicies[tableName];
+      const missingPerms = new Set<SQLRowLevelSecurityPolicyPrivilege>();
+      for (const perm of SQLRowLevelSecurityPolicyPrivileges) {
+        if (!usersWithPolicies?.has(perm) && !tableDefaultPerms?.has(perm)) {
+          missingPerms.add(perm);
+        }
+      }
+
+      if (missingPerms.size === 0) {
+        continue;
+      }
+
+      defaultPoliciesToCreate[tableName] ??= {};
+      defaultPoliciesToCreate[tableName]![perm.user.name] = missingPerms;
+    }
+
+    const enableRlsChanges = Array.from(tablesToAddRlsTo).map(
+      (tableName): PermissionChange => ({
+        type: "create-policy",
+        description: `policy "default_access" ON ${tableName}, enabling row-level security`,
+        queries: [
+          `ALTER TABLE ${tableName} ENABLE ROW LEVEL SECURITY;`,
+          // biome-ignore lint: best way to do this
+          `CREATE POLICY "default_access" ON ${tableName} AS PERMISSIVE FOR ` +
+            "ALL TO PUBLIC USING (true);",
+        ],
+      }),
+    );
+
+    const addDefaultPolicyChanges = Object.entries(
+      defaultPoliciesToCreate,
+    ).flatMap(([tableName, userPerms]) =>
+      Object.entries(userPerms).flatMap(([userName, perms]) => {
+        const getChange = (perm: string): PermissionChange => {
+          const extra: string[] = [];
           if (
-            !SQLRowLevelSecurityPolicyPrivileges.includes(
-              perm.privilege as SQLRowLevelSecurityPolicyPrivilege,
-            )
+            perm === "ALL" ||
+            perm === "DELETE" ||
+            perm === "SELECT" ||
+            perm === "UPDATE"
           ) {
-            continue;
+            extra.push("USING (true)");
           }
-
-          const tableName = this.quoteQualifiedName(perm.table);
-          const table = metaByTable[tableName];
-          if (!table) {
-            continue;
-          }
-          if (!table.rlsEnabled || tablesToAddRlsTo.has(tableName)) {
-            continue;
+          if (perm === "ALL" || perm === "INSERT" || perm === "UPDATE") {
+            extra.push("WITH CHECK (true)");
           }
+          const name = this.quoteIdentifier(
+            `${userName}_${perm.toLowerCase()}`,
+          );
+          return {
+            type: "create-policy",
+            description: `policy ${name} ON ${tableName}`,
+            queries: [
+              `CREATE POLICY ${name} ` +
+                `ON ${tableName} AS PERMISSIVE FOR ${perm} TO ` +
+                `${this.quoteIdentifier(userName)} ${extra.join(" ")};`,
+            ],
+          };
+        };
 
-          const usersWithPolicies =
-            tablesWithPermissivePolicies[tableName]?.[perm.user.name];
-          const tableDefaultPerms =
-            tablesWithDefaultPermissivePolicies[tableName];
-          const missingPerms = new Set<SQLRowLevelSecurityPolicyPrivilege>();
-          for (const perm of SQLRowLevelSecurityPolicyPrivileges) {
-            if (
-              !usersWithPolicies?.has(perm) &&
-              !tableDefaultPerms?.has(perm)
-            ) {
-              missingPerms.add(perm);
-            }
-          }
+        if (perms.size === SQLRowLevelSecurityPolicyPrivileges.length) {
+          return [getChange("ALL")];
+        }
 
-          if (missingPerms.size === 0) {
-            continue;
-          }
+        return Array.from(perms).map((perm) => getChange(perm));
+      }),
+    );
 
-          defaultPoliciesToCreate[tableName] ??= {};
-          defaultPoliciesToCreate[tableName]![perm.user.name] = missingPerms;
-        }
+    return enableRlsChanges.concat(addDefaultPolicyChanges);
+  }
 
-        const enableRlsQueries = Array.from(tablesToAddRlsTo).flatMap(
-          (tableName) => [
-            `ALTER TABLE ${tableName} ENABLE ROW LEVEL SECURITY;`,
-            // biome-ignore lint: best way to do this
-            `CREATE POLICY "default_access" ON ${tableName} AS PERMISSIVE FOR ` +
-              "ALL TO PUBLIC USING (true);",
-          ],
+  private diffPermissions(
+    users: SQLActor[],
+    permissions: Permission[],
+    allEntities: SQLEntities,
+    managedSchemas?: string[],
+  ): PermissionChange[] {
+    const entities = this.managedEntities(allEntities, managedSchemas);
+    const userNames = new Set(users.map((user) => user.name));
+
+    const desiredGrants = new Map<string, GrantSpec>();
+    const desiredDefaults = new Map<string, DefaultPrivilegeSpec>();
+    const desiredMemberships = new Map<string, MembershipPermission>();
+    const desiredSettings = new Map<string, SettingPermission>();
+    for (const permission of permissions) {
+      if (permission.type === "default") {
+        const spec = this.getDefaultPrivilegeSpec(permission);
+        desiredDefaults.set(this.defaultPrivilegeKey(spec), spec);
+        continue;
+      }
+      if (permission.type === "membership") {
+        desiredMemberships.set(
+          this.membershipKey(permission.group.name, permission.user.name),
+          permission,
         );
+        continue;
+      }
+      if (permission.type === "setting") {
+        desiredSettings.set(
+          this.settingKey(
+            permission.user.name,
+            permission.database,
+            permission.name,
+          ),
+          permission,
+        );
+        continue;
+      }
+      for (const grant of this.getPermissionGrants(permission, entities)) {
+        desiredGrants.set(this.grantKey(grant), grant);
+      }
+    }
 
-        const addDefaultPolicyQueries = Object.entries(
-          defaultPoliciesToCreate,
-        ).flatMap(([tableName, userPerms]) =>
-          Object.entries(userPerms).flatMap(([userName, perms]) => {
-            const getQuery = (perm: string) => {
-              const extra: string[] = [];
-              if (
-                perm === "ALL" ||
-                perm === "DELETE" ||
-                perm === "SELECT" ||
-                perm === "UPDATE"
-              ) {
-                extra.push("USING (true)");
-              }
-              if (perm === "ALL" || perm === "INSERT" || perm === "UPDATE") {
-                extra.push("WITH CHECK (true)");
-              }
-              const name = `${userName}_${perm.toLowerCase()}`;
-              return (
-                `CREATE POLICY ${this.quoteIdentifier(name)} ` +
-                `ON ${tableName} AS PERMISSIVE FOR ${perm} TO ` +
-                `${this.quoteIdentifier(userName)} ${extra.join(" ")};`
-              );
-            };
+    const existingGrants = new Map<string, GrantSpec>();
+    const extraGrants: GrantSpec[] = [];
+    for (const grant of entities.grants) {
+      if (!userNames.has(grant.grantee)) {
+        continue;
+      }
+      const key = this.grantKey(grant);
+      existingGrants.set(key, grant);
+      // The owner's own privileges aren't managed, the same as in `import`.
+      // The same privilege may have been granted by more than one role, and
+      // each grant has to be revoked by the role that made it
+      const ownPrivilege =
+        grant.grantee === grant.owner && grant.grantor === grant.owner;
+      if (!ownPrivilege && !desiredGrants.has(key)) {
+        // Grants that can't be revoked name their grantor, even the owner
+        const revokeAs = this.getRevokeRole(grant, allEntities);
+        extraGrants.push({
+          ...grant,
+          grantedBy:
+            grant.grantor === grant.owner && revokeAs !== null
+              ? undefined
+              : grant.grantor,
+          revokeAs,
+        });
+      }
+    }
 
-            if (perms.size === SQLRowLevelSecurityPolicyPrivileges.length) {
-              return [getQuery("ALL")];
-            }
+    // Revoking a privilege on a table also revokes it from each of the
+    // table's columns, so column grants may need to be applied again.
+    const revokedObjects = new Set(
+      extraGrants
+        .filter((grant) => grant.column === null)
+        .map((grant) => this.revokeKey(grant)),
+    );
+    const isObjectRevoked = (grant: GrantSpec) =>
+      revokedObjects.has(this.revokeKey(grant));
 
-            return Array.from(perms).map((perm) => getQuery(perm));
-          }),
+    const grantsToRevoke = extraGrants.filter(
+      (grant) => grant.column === null || !isObjectRevoked(grant),
+    );
+    const grantsToAdd = Array.from(desiredGrants.entries())
+      .filter(
+        ([key, grant]) =>
+          !existingGrants.has(key) ||
+          (grant.column !== null && isObjectRevoked(grant)),
+      )
+      .map(([, grant]) => grant);
+
+    const existingMemberships = new Map<string, SQLRoleMembership>();
+    for (const membership of entities.memberships) {
+      if (userNames.has(membership.member)) {
+        existingMemberships.set(
+          this.membershipKey(membership.role, membership.member),
+          membership,
         );
+      }
+    }
 
-        const rlsQueries = enableRlsQueries.concat(addDefaultPolicyQueries);
+    const revokeMembershipChanges = Array.from(existingMemberships.entries())
+      .filter(([key]) => !desiredMemberships.has(key))
+      .map(([, membership]): PermissionChange => {
+        const target =
+          `${this.quoteIdentifier(membership.role)} FROM ` +
+          this.quoteIdentifier(membership.member);
+        return {
+          type: "revoke",
+          description: target,
+          queries: [`REVOKE ${target};`],
+        };
+      });
 
-        const individualGrantQueries = permissions.flatMap((perm) =>
-          this.compileGrantQuery(perm, entities),
+    // Granting an existing membership again updates its options
+    const grantMembershipChanges = Array.from(desiredMemberships.entries())
+      .filter(([key, permission]) => {
+        const existing = existingMemberships.get(key);
+        return (
+          !existing ||
+          MembershipOptions.some(
+            (option) =>
+              permission.options[option] !== undefined &&
+              permission.options[option] !== existing[option],
+          )
         );
+      })
+      .map(
+        ([, permission]): PermissionChange => ({
+          type: "grant",
+          description: this.membershipTarget(permission),
+          queries: [
+            ...this.sourceComment(permission.sources),
+            `GRANT ${this.membershipTarget(permission)};`,
+          ],
+          sources: permission.sources,
+        }),
+      );
 
-        return rlsQueries.concat(individualGrantQueries);
+    const existingSettings = new Map<string, SQLRoleSetting>();
+    for (const setting of entities.settings) {
+      if (userNames.has(setting.role)) {
+        existingSettings.set(
+          this.settingKey(setting.role, setting.database, setting.name),
+          setting,
+        );
+      }
+    }
+
+    const resetSettingChanges = Array.from(existingSettings.entries())
+      .filter(([key]) => !desiredSettings.has(key))
+      .map(([, setting]): PermissionChange => {
+        const target = this.resetSettingTarget(setting);
+        return {
+          type: "reset-setting",
+          description: target,
+          queries: [`ALTER ROLE ${target};`],
+        };
+      });
+
+    const setSettingChanges: PermissionChange[] = [];
+    for (const [key, permission] of desiredSettings.entries()) {
+      const existing = existingSettings.get(key);
+      const value = formatSettingValue(permission.name, permission.value);
+      if (existing?.value === value) {
+        continue;
+      }
+      const target = this.setSettingTarget(permission);
+      setSettingChanges.push({
+        type: existing ? "replace-setting" : "set-setting",
+        description: target,
+        queries: [
+          ...this.sourceComment(permission.sources),
+          `ALTER ROLE ${target};`,
+        ],
+        sources: permission.sources,
+      });
+    }
+
+    const revokeChanges = this.groupGrants(grantsToRevoke).map(
+      ([grant, columns]): PermissionChange => {
+        const target =
+          `${grant.privilege}${this.formatColumnList(columns)} ON ` +
+          `${this.grantObjectName(grant.object)} FROM ` +
+          this.quoteIdentifier(grant.grantee);
+        const description =
+          grant.grantedBy === undefined
+            ? target
+            : `${target} GRANTED BY ${this.quoteIdentifier(grant.grantedBy)}`;
+        if (grant.revokeAs === undefined) {
+          return {
+            type: "revoke",
+            description,
+            queries: [`REVOKE ${target} CASCADE;`],
+          };
+        }
+        // Privileges that can't be revoked are left in place with a warning,
+        // the same as when all of a user's privileges are revoked
+        const message = valueToSqlLiteral(`Unable to revoke ${description}`);
+        if (grant.revokeAs === null) {
+          const reason = valueToSqlLiteral(
+            `permission denied to set role ${this.quoteIdentifier(
+              grant.grantedBy!,
+            )}`,
+          );
+          return {
+            type: "revoke",
+            description,
+            queries: [
+              `DO $$ BEGIN RAISE WARNING '%: %', ${message}, ${reason}; END $$;`,
+            ],
+          };
+        }
+        return {
+          type: "revoke",
+          description,
+          queries: [
+            "DO $$ BEGIN",
+            `SET ROLE ${this.quoteIdentifier(grant.revokeAs)};`,
+            `REVOKE ${target} CASCADE;`,
+            "RESET ROLE;",
+            `EXCEPTION WHEN OTHERS THEN RAISE WARNING '%: %', ${message}, SQLERRM;`,
+            "END $$;",
+          ],
+        };
       },
+    );
+
+    const grantChanges = this.groupGrants(grantsToAdd).map(
+      ([grant, columns]): PermissionChange => {
+        const target =
+          `${grant.privilege}${this.formatColumnList(columns)} ON ` +
+          `${this.grantObjectName(grant.object)} TO ` +
+          this.quoteIdentifier(grant.grantee);
+        return {
+          type: "grant",
+          description: target,
+          queries: [...this.sourceComment(grant.sources), `GRANT ${target};`],
+          sources: grant.sources,
+        };
+      },
+    );
+
+    const existingDefaults = new Map<string, DefaultPrivilegeSpec>();
+    for (const grant of entities.defaultPrivileges) {
+      if (userNames.has(grant.grantee)) {
+        existingDefaults.set(this.defaultPrivilegeKey(grant), grant);
+      }
+    }
+
+    const revokeDefaultChanges = Array.from(existingDefaults.entries())
+      .filter(([key]) => !desiredDefaults.has(key))
+      .map(
+        ([, spec]): PermissionChange => ({
+          type: "revoke",
+          description: this.defaultPrivilegeDescription("REVOKE", spec),
+          queries: [this.alterDefaultPrivilegesQuery("REVOKE", spec)],
+        }),
+      );
+
+    const grantDefaultChanges = Array.from(desiredDefaults.entries())
+      .filter(([key]) => !existingDefaults.has(key))
+      .map(
+        ([, spec]): PermissionChange => ({
+          type: "grant",
+          description: this.defaultPrivilegeDescription("GRANT", spec),
+          queries: [
+            ...this.sourceComment(spec.sources),
+            this.alterDefaultPrivilegesQuery("GRANT", spec),
+          ],
+          sources: spec.sources,
+        }),
+      );
+
+    const desiredPolicies = new Map<string, RestrictivePolicy>();
+    for (const permission of permissions) {
+      if (permission.type !== "table") {
+        continue;
+      }
+      const policy = this.compileRestrictivePolicy(permission);
+      if (policy) {
+        desiredPolicies.set(this.policyKey(policy), policy);
+      }
+    }
+
+    const existingPolicies = Object.fromEntries(
+      entities.rlsPolicies.map((policy) => [this.policyKey(policy), policy]),
+    );
+
+    const dropPolicyChanges: PermissionChange[] = [];
+    for (const policy of entities.rlsPolicies) {
+      if (policy.permissive !== "RESTRICTIVE") {
+        continue;
+      }
+      const policyActors = (policy.users as SQLActor[]).concat(policy.groups);
+      if (!policyActors.some((actor) => userNames.has(actor.name))) {
+        continue;
+      }
+      if (desiredPolicies.has(this.policyKey(policy))) {
+        continue;
+      }
+      dropPolicyChanges.push({
+        type: "drop-policy",
+        description: this.policyKey(policy),
+        queries: [this.dropPolicyQuery(policy)],
+      });
+    }
+
+    const createPolicyChanges: PermissionChange[] = [];
+    for (const [key, policy] of desiredPolicies) {
+      const createQueries = this.createPolicyQueries(policy);
+
+      const existing = existingPolicies[key];
+      if (!existing) {
+        createPolicyChanges.push({
+          type: "create-policy",
+          description: key,
+          queries: [...this.sourceComment(policy.sources), ...createQueries],
+          sources: policy.sources,
+        });
+      } else if (existing.comment !== this.policyComment(policy)) {
+        createPolicyChanges.push({
+          type: "replace-policy",
+          description: key,
+          queries: [
+            ...this.sourceComment(policy.sources),
+            this.dropPolicyQuery(existing),
+            ...createQueries,
+          ],
+          sources: policy.sources,
+        });
+      }
+    }
+
+    return [
+      ...revokeMembershipChanges,
+      ...revokeChanges,
+      ...revokeDefaultChanges,
+      ...dropPolicyChanges,
+      ...this.compileRlsChanges(permissions, entities),
+      ...grantChanges,
+      ...grantDefaultChanges,
+      ...grantMembershipChanges,
+      ...createPolicyChanges,
+      ...resetSettingChanges,
+      ...setSettingChanges,
+    ];
+  }
+
+  private getPermissionGrants(
+    permission: ObjectPermission,
+    entities: SQLEntities,
+  ): GrantSpec[] {
+    const grant: GrantSpec = {
+      object: permissionObject(permission),
+      column: null,
+      grantee: permission.user.name,
+      privilege: permission.privilege,
+      sources: permission.sources,
+    };
+    if (permission.type !== "table" && permission.type !== "foreign-table") {
+      return [grant];
+    }
+    const columns = this.getGrantColumns(permission, entities);
+    if (columns === null) {
+      return [grant];
+    }
+    return columns.map((column) => ({ ...grant, column }));
+  }
+
+  private getDefaultPrivilegeSpec(
+    permission: DefaultPermission,
+  ): DefaultPrivilegeSpec {
+    return {
+      owner: permission.schema.owner ?? null,
+      schema: permission.schema.name,
+      objectType: permission.objectType,
+      grantee: permission.user.name,
+      privilege: permission.privilege,
+      sources: permission.sources,
     };
   }
 
-  private evalColumnQuery(clause: Clause, column: string): boolean {
-    const evaluate = simpleEvaluator({
-      variableName: "col",
-      errorVariableName: "col",
-      getValue: (value) => {
-        if (value.type === "function-call") {
-          throw new ValidationError("col: invalid function call");
-        }
-        if (value.type === "value") {
-          return value.value;
-        }
-        if (value.value === "col") {
-          return column;
+  private defaultPrivilegeKey(spec: DefaultPrivilegeSpec): string {
+    return JSON.stringify([
+      spec.owner,
+      spec.schema,
+      spec.objectType,
+      spec.grantee,
+      spec.privilege,
+    ]);
+  }
+
+  private defaultPrivilegeDescription(
+    action: "GRANT" | "REVOKE",
+    spec: DefaultPrivilegeSpec,
+  ): string {
+    const parts = [
+      `default privilege ${spec.privilege}`,
+      `ON ${DefaultPrivilegeObjectNames[spec.objectType]}`,
+    ];
+    if (spec.schema !== null) {
+      parts.push(`IN SCHEMA ${this.quoteIdentifier(spec.schema)}`);
+    }
+    if (spec.owner !== null) {
+      parts.push(`FOR ROLE ${this.quoteIdentifier(spec.owner)}`);
+    }
+    parts.push(action === "GRANT" ? "TO" : "FROM");
+    parts.push(this.quoteIdentifier(spec.grantee));
+    return parts.join(" ");
+  }
+
+  /**
+   * Privileges on objects created in the future. Without an owner, they
+   * apply to objects created by the role that runs the query.
+   */
+  private alterDefaultPrivilegesQuery(
+    action: "GRANT" | "REVOKE",
+    spec: DefaultPrivilegeSpec,
+  ): string {
+    const parts = ["ALTER DEFAULT PRIVILEGES"];
+    if (spec.owner !== null) {
+      parts.push(`FOR ROLE ${this.quoteIdentifier(spec.owner)}`);
+    }
+    if (spec.schema !== null) {
+      parts.push(`IN SCHEMA ${this.quoteIdentifier(spec.schema)}`);
+    }
+    parts.push(
+      action,
+      spec.privilege,
+      `ON ${DefaultPrivilegeObjectNames[spec.objectType]}`,
+      action === "GRANT" ? "TO" : "FROM",
+      this.quoteIdentifier(spec.grantee),
+    );
+    return `${parts.join(" ")};`;
+  }
+
+  /**
+   * Role to switch to in order to revoke a privilege. `REVOKE` only removes
+   * privileges granted by the current user, or by the object's owner for
+   * superusers, so other privileges are revoked as the role that granted
+   * them. Returns `undefined` if no switch is needed, and `null` if the
+   * session user can't switch to the grantor.
+   */
+  private getRevokeRole(
+    grant: SQLPrivilegeGrant,
+    entities: SQLEntities,
+  ): string | null | undefined {
+    const { currentUser, sessionUser } = entities;
+    if (currentUser === null || sessionUser === null) {
+      return grant.grantor === grant.owner ? undefined : grant.grantor;
+    }
+    const isSuperuser = (name: string) =>
+      entities.roles.some((role) => role.name === name && role.superuser);
+    if (
+      grant.grantor === currentUser ||
+      (grant.grantor === grant.owner && isSuperuser(currentUser))
+    ) {
+      return undefined;
+    }
+    if (isSuperuser(sessionUser)) {
+      return grant.grantor;
+    }
+    // SET ROLE is allowed through chains of memberships with the SET option
+    const settable = new Set([sessionUser]);
+    const queue = [sessionUser];
+    while (queue.length > 0) {
+      const member = queue.pop()!;
+      for (const membership of entities.memberships) {
+        if (
+          membership.member === member &&
+          membership.set &&
+          !settable.has(membership.role)
+        ) {
+          settable.add(membership.role);
+          queue.push(membership.role);
         }
-        throw new ValidationError(`col: invalid clause value: ${value.value}`);
-      },
+      }
+    }
+    return settable.has(grant.grantor) ? grant.grantor : null;
+  }
+
+  private membershipKey(role: string, member: string): string {
+    return JSON.stringify([role, member]);
+  }
+
+  /**
+   * The INHERIT and SET options require PostgreSQL 16, so options are only
+   * included if a rule specifies them
+   */
+  private membershipTarget(permission: MembershipPermission): string {
+    const target =
+      `${this.quoteTopLevelName(permission.group)} TO ` +
+      this.quoteTopLevelName(permission.user);
+    const options = MembershipOptions.flatMap((option) => {
+      const value = permission.options[option];
+      if (value === undefined) {
+        return [];
+      }
+      return [`${option.toUpperCase()} ${value ? "TRUE" : "FALSE"}`];
     });
+    if (options.length === 0) {
+      return target;
+    }
+    return `${target} WITH ${options.join(", ")}`;
+  }
+
+  private settingKey(
+    role: string,
+    database: string | null,
+    name: string,
+  ): string {
+    return JSON.stringify([role, database, name]);
+  }
+
+  private settingRole(role: string, database: string | null): string {
+    const quotedRole = this.quoteIdentifier(role);
+    if (database === null) {
+      return quotedRole;
+    }
+    return `${quotedRole} IN DATABASE ${this.quoteIdentifier(database)}`;
+  }
+
+  private setSettingTarget(permission: SettingPermission): string {
+    const role = this.settingRole(permission.user.name, permission.database);
+    const value = this.settingValueLiteral(permission.value);
+    return `${role} SET ${permission.name} TO ${value}`;
+  }
+
+  private resetSettingTarget(setting: SQLRoleSetting): string {
+    const role = this.settingRole(setting.role, setting.database);
+    return `${role} RESET ${setting.name}`;
+  }
+
+  private settingValueLiteral(value: SettingValue): string {
+    if (Array.isArray(value)) {
+      return value.map((item) => valueToSqlLiteral(item)).join(", ");
+    }
+    return valueToSqlLiteral(value);
+  }
+
+  private grantKey(grant: GrantSpec): string {
+    return JSON.stringify([
+      this.grantObjectName(grant.object),
+      grant.column,
+      grant.grantee,
+      grant.privilege,
+    ]);
+  }
+
+  /** Key of the object-level grant, and the role that has to revoke it */
+  private revokeKey(grant: GrantSpec): string {
+    return JSON.stringify([
+      this.grantKey({ ...grant, column: null }),
+      grant.grantedBy ?? null,
+    ]);
+  }
 
-    const result = evaluateClause({ clause, evaluate });
-    return result.type === "success" && result.result;
+  private groupGrants(grants: GrantSpec[]): [GrantSpec, string[] | null][] {
+    const groups: Record<string, [GrantSpec, string[] | null]> = {};
+    for (const grant of grants) {
+      const key = this.revokeKey(grant);
+      if (grant.column === null) {
+        groups[key] = [grant, null];
+        continue;
+      }
+      const columnsKey = `${key}.columns`;
+      groups[columnsKey] ??= [grant, []];
+      groups[columnsKey]![1]!.push(grant.column);
+    }
+    return Object.values(groups);
+  }
+
+  private formatColumnList(columns: string[] | null): string {
+    if (columns === null) {
+      return "";
+    }
+    const colNameList = columns.map((col) => this.quoteIdentifier(col));
+    return ` (${colNameList.join(", ")})`;
+  }
+
+  private grantObjectName(object: SQLGrantObject): string {
+    switch (object.type) {
+      case "schema":
+        return `SCHEMA ${this.quoteTopLevelName(object)}`;
+      case "table":
+      case "view":
+      case "materialized-view":
+      case "foreign-table":
+        return this.quoteQualifiedName(object);
+      case "function":
+        return `FUNCTION ${this.quoteRoutineSignature(object)}`;
+      case "procedure":
+        return `PROCEDURE ${this.quoteRoutineSignature(object)}`;
+      case "aggregate":
+        return `ROUTINE ${this.quoteRoutineSignature(object)}`;
+      case "sequence":
+        return `SEQUENCE ${this.quoteQualifiedName(object)}`;
+      case "type":
+        return `TYPE ${this.quoteQualifiedName(object)}`;
+      case "domain":
+        return `DOMAIN ${this.quoteQualifiedName(object)}`;
+      case "foreign-data-wrapper":
+        return `FOREIGN DATA WRAPPER ${this.quoteTopLevelName(object)}`;
+      case "foreign-server":
+        return `FOREIGN SERVER ${this.quoteTopLevelName(object)}`;
+      case "database":
+        return `DATABASE ${this.quoteTopLevelName(object)}`;
+      case "parameter":
+        return `PARAMETER ${this.quoteTopLevelName(object)}`;
+      case "tablespace":
+        return `TABLESPACE ${this.quoteTopLevelName(object)}`;
+      case "language":
+        return `LANGUAGE ${this.quoteTopLevelName(object)}`;
+      case "large-object":
+        // Large objects are identified by their OID, which isn't quoted
+        return `LARGE OBJECT ${object.name}`;
+      default: {
+        const _: never = object;
+        throw new Error(
+          `Invalid object type: ${(object as SQLGrantObject).type}`,
+        );
+      }
+    }
+  }
+
+  private managedSchemasLiteral(managedSchemas?: string[]): string {
+    if (!managedSchemas) {
+      return "NULL::TEXT[]";
+    }
+    const names = managedSchemas
+      .map((schema) => valueToSqlLiteral(schema))
+      .join(", ");
+    return `ARRAY[${names}]::TEXT[]`;
+  }
+
+  /**
+   * Existing permissions are only revoked on `managedSchemas` and the
+   * objects in them, so other permissions are left out of the entities
+   * that are used to find them
+   */
+  private managedEntities(
+    entities: SQLEntities,
+    managedSchemas?: string[],
+  ): SQLEntities {
+    if (!managedSchemas) {
+      return entities;
+    }
+    const schemas = new Set(managedSchemas);
+    const isManaged = (schema: string | null) =>
+      schema !== null && schemas.has(schema);
+
+    return {
+      ...entities,
+      grants: entities.grants.filter((grant) =>
+        isManaged(objectSchema(grant.object)),
+      ),
+      defaultPrivileges: entities.defaultPrivileges.filter((grant) =>
+        isManaged(grant.schema),
+      ),
+      rlsPolicies: entities.rlsPolicies.filter((policy) =>
+        isManaged(policy.table.schema),
+      ),
+      memberships: [],
+      settings: [],
+    };
+  }
+
+  private revokeScopeComment(
+    users: SQLActor[],
+    managedSchemas?: string[],
+  ): string {
+    const names = users.map((user) => this.quoteIdentifier(user.name));
+    if (managedSchemas) {
+      const schemas = managedSchemas.map((schema) =>
+        this.quoteIdentifier(schema),
+      );
+      const scope = [
+        "restrictive row-level security policies",
+        "default privileges",
+        `all privileges on schemas ${schemas.join(
+          ", ",
+        )} and the objects in them`,
+      ];
+      return `-- Revoking from ${names.join(", ")}: ${scope.join(", ")}`;
+    }
+    const scope = [
+      "role memberships",
+      "role settings",
+      "restrictive row-level security policies",
+      "default privileges",
+      `all privileges on ${RevokedObjectClasses.join(", ")}`,
+    ];
+    return `-- Revoking from ${names.join(", ")}: ${scope.join(", ")}`;
+  }
+
+  private sourceComment(sources: RuleSource[] | undefined): string[] {
+    if (!sources || sources.length === 0) {
+      return [];
+    }
+    return [`-- ${formatRuleSources(sources)}`];
+  }
+
+  private policyKey(policy: { name: string; table: SQLTable }): string {
+    return (
+      `policy ${this.quoteIdentifier(policy.name)} ` +
+      `ON ${this.quoteQualifiedName(policy.table)}`
+    );
+  }
+
+  private policyComment(policy: RestrictivePolicy): string {
+    const hash = crypto.createHash("sha256").update(policy.query);
+    return `${PolicyCommentPrefix}${hash.digest("hex")}`;
+  }
+
+  private createPolicyQueries(policy: RestrictivePolicy): string[] {
+    return [
+      policy.query,
+      `COMMENT ON POLICY ${this.quoteIdentifier(policy.name)} ` +
+        `ON ${this.quoteQualifiedName(policy.table)} ` +
+        `IS ${valueToSqlLiteral(this.policyComment(policy))};`,
+    ];
+  }
+
+  private dropPolicyQuery(policy: SQLRowLevelSecurityPolicy): string {
+    return (
+      `DROP POLICY ${this.quoteIdentifier(policy.name)} ` +
+      `ON ${this.quoteQualifiedName(policy.table)};`
+    );
   }
 
   private clauseToSql(clause: Clause): string {
@@ -683,6 +2533,72 @@ export class PostgresBackend implements SQLBackend {
     return valueToSqlLiteral(clause.value);
   }
 
+  private getGrantColumns(
+    permission: TablePermission | ForeignTablePermission,
+    entities: SQLEntities,
+  ): string[] | null {
+    if (isTrueClause(permission.columnClause)) {
+      return null;
+    }
+    if (
+      permission.privilege !== "SELECT" &&
+      permission.privilege !== "INSERT" &&
+      permission.privilege !== "UPDATE"
+    ) {
+      return null;
+    }
+    const tables: (SQLTableMetadata | SQLForeignTableMetadata)[] =
+      permission.type === "table" ? entities.tables : entities.foreignTables;
+    const table = tables.filter(
+      (table) =>
+        table.table.schema === permission.table.schema &&
+        table.table.name === permission.table.name,
+    )[0]!;
+    return table.columns.filter((column) =>
+      evaluateColumnClause(permission.columnClause, column),
+    );
+  }
+
+  private compileRestrictivePolicy(
+    permission: TablePermission,
+  ): RestrictivePolicy | null {
+    if (isTrueClause(permission.rowClause)) {
+      return null;
+    }
+
+    const rowClauseSql = this.clauseToSql(permission.rowClause);
+    let policyClauses: string;
+    switch (permission.privilege) {
+      case "SELECT":
+      case "DELETE":
+        policyClauses = `USING (${rowClauseSql})`;
+        break;
+      case "INSERT":
+        policyClauses = `WITH CHECK (${rowClauseSql})`;
+        break;
+      case "UPDATE":
+        policyClauses = `USING (${rowClauseSql}) WITH CHECK (${rowClauseSql})`;
+        break;
+      default:
+        return null;
+    }
+
+    const name = [permission.privilege, permission.user.name]
+      .join("_")
+      .toLowerCase();
+
+    return {
+      name,
+      table: permission.table,
+      sources: permission.sources,
+      query:
+        `CREATE POLICY ${this.quoteIdentifier(name)} ON ` +
+        `${this.quoteQualifiedName(permission.table)} AS RESTRICTIVE ` +
+        `FOR ${permission.privilege} TO ` +
+        `${this.quoteTopLevelName(permission.user)} ${policyClauses};`,
+    };
+  }
+
   private compileGrantQuery(
     permission: Permission,
     entities: SQLEntities,
@@ -707,133 +2623,28 @@ export class PostgresBackend implements SQLBackend {
           }
         }
       case "table": {
-        let columnPart = "";
-        if (!isTrueClause(permission.columnClause)) {
-          const table = entities.tables.filter(
-            (table) =>
-              table.table.schema === permission.table.schema &&
-              table.table.name === permission.table.name,
-          )[0]!;
-          const columnNames = table.columns.filter((column) =>
-            this.evalColumnQuery(permission.columnClause, column),
-          );
-          const colNameList = columnNames.map((col) =>
-            this.quoteIdentifier(col),
-          );
-          columnPart = ` (${colNameList.join(", ")})`;
-        }
-
         switch (permission.privilege) {
-          case "SELECT": {
-            const out = [
-              `GRANT SELECT${columnPart} ON ${this.quoteQualifiedName(
-                permission.table,
-              )} TO ${this.quoteTopLevelName(permission.user)};`,
-            ];
-            if (!isTrueClause(permission.rowClause)) {
-              const policyName = [permission.privilege, permission.user.name]
-                .join("_")
-                .toLowerCase();
-
-              out.push(
-                `CREATE POLICY ${this.quoteIdentifier(
-                  policyName,
-                )} ON ${this.quoteQualifiedName(
-                  permission.table,
-                )} AS RESTRICTIVE FOR SELECT TO ${this.quoteTopLevelName(
-                  permission.user,
-                )} USING (${this.clauseToSql(permission.rowClause)});`,
-              );
-            }
-            return out;
-          }
-          case "INSERT": {
-            const out = [
-              `GRANT INSERT${columnPart} ON ${this.quoteQualifiedName(
-                permission.table,
-              )} TO ${this.quoteTopLevelName(permission.user)};`,
-            ];
-            if (!isTrueClause(permission.rowClause)) {
-              const policyName = [permission.privilege, permission.user.name]
-                .join("_")
-                .toLowerCase();
-
-              out.push(
-                `CREATE POLICY ${this.quoteIdentifier(
-                  policyName,
-                )} ON ${this.quoteQualifiedName(
-                  permission.table,
-                )} AS RESTRICTIVE FOR INSERT TO ${this.quoteTopLevelName(
-                  permission.user,
-                )} WITH CHECK (${this.clauseToSql(permission.rowClause)});`,
-              );
-            }
-            return out;
-          }
-          case "UPDATE": {
+          case "SELECT":
+          case "INSERT":
+          case "UPDATE":
+          case "DELETE":
+          case "TRUNCATE":
+          case "TRIGGER":
+          case "REFERENCES": {
+            const columns = this.getGrantColumns(permission, entities);
             const out = [
-              `GRANT UPDATE${columnPart} ON ${this.quoteQualifiedName(
+              `GRANT ${permission.privilege}${this.formatColumnList(
+                columns,
+              )} ON ${this.quoteQualifiedName(
                 permission.table,
               )} TO ${this.quoteTopLevelName(permission.user)};`,
             ];
-            if (!isTrueClause(permission.rowClause)) {
-              const policyName = [permission.privilege, permission.user.name]
-                .join("_")
-                .toLowerCase();
-
-              const rowClauseSql = this.clauseToSql(permission.rowClause);
-
-              out.push(
-                `CREATE POLICY ${this.quoteIdentifier(
-                  policyName,
-                )} ON ${this.quoteQualifiedName(
-                  permission.table,
-                )} AS RESTRICTIVE FOR UPDATE TO ${this.quoteTopLevelName(
-                  permission.user,
-                )} USING (${rowClauseSql}) WITH CHECK (${rowClauseSql});`,
-              );
-            }
-            return out;
-          }
-          case "DELETE": {
-            const out = [
-              `GRANT DELETE ON ${this.quoteQualifiedName(permission.table)} ` +
-                `TO ${this.quoteTopLevelName(permission.user)};`,
-            ];
-            if (!isTrueClause(permission.rowClause)) {
-              const policyName = [permission.privilege, permission.user.name]
-                .join("_")
-                .toLowerCase();
-
-              out.push(
-                `CREATE POLICY ${this.quoteIdentifier(
-                  policyName,
-                )} ON ${this.quoteQualifiedName(
-                  permission.table,
-                )} AS RESTRICTIVE FOR DELETE TO ${this.quoteTopLevelName(
-                  permission.user,
-                )} USING (${this.clauseToSql(permission.rowClause)});`,
-              );
+            const policy = this.compileRestrictivePolicy(permission);
+            if (policy) {
+              out.push(...this.createPolicyQueries(policy));
             }
             return out;
           }
-          case "TRUNCATE":
-            return [
-              `GRANT TRUNCATE ON ${this.quoteQualifiedName(
-                permission.table,
-              )} TO ${this.quoteTopLevelName(permission.user)};`,
-            ];
-          case "TRIGGER":
-            return [
-              `GRANT TRIGGER ON ${this.quoteQualifiedName(permission.table)} ` +
-                `TO ${this.quoteTopLevelName(permission.user)};`,
-            ];
-          case "REFERENCES":
-            return [
-              `GRANT REFERENCES ON ${this.quoteQualifiedName(
-                permission.table,
-              )} TO ${this.quoteTopLevelName(permission.user)};`,
-            ];
           default: {
             const _: never = permission;
             throw new Error(
@@ -866,12 +2677,30 @@ export class PostgresBackend implements SQLBackend {
           }
         }
       }
+      case "materialized-view": {
+        switch (permission.privilege) {
+          case "SELECT":
+            return [
+              `GRANT ${permission.privilege} ON ${this.quoteQualifiedName(
+                permission.view,
+              )} TO ${this.quoteTopLevelName(permission.user)};`,
+            ];
+          default: {
+            const _: never = permission;
+            throw new Error(
+              `Invalid materialized view privilege: ${
+                (permission as MaterializedViewPermission).privilege
+              }`,
+            );
+          }
+        }
+      }
       case "function": {
         switch (permission.privilege) {
           case "EXECUTE":
             return [
               `GRANT ${permission.privilege} ON FUNCTION ` +
-                `${this.quoteQualifiedName(permission.function)} ` +
+                `${this.quoteRoutineSignature(permission.function)} ` +
                 `TO ${this.quoteTopLevelName(permission.user)};`,
             ];
           default: {
@@ -889,7 +2718,7 @@ export class PostgresBackend implements SQLBackend {
           case "EXECUTE":
             return [
               `GRANT ${permission.privilege} ON PROCEDURE ` +
-                `${this.quoteQualifiedName(permission.procedure)} ` +
+                `${this.quoteRoutineSignature(permission.procedure)} ` +
                 `TO ${this.quoteTopLevelName(permission.user)};`,
             ];
           default: {
@@ -902,6 +2731,24 @@ export class PostgresBackend implements SQLBackend {
           }
         }
       }
+      case "aggregate": {
+        switch (permission.privilege) {
+          case "EXECUTE":
+            return [
+              `GRANT ${permission.privilege} ON ROUTINE ` +
+                `${this.quoteRoutineSignature(permission.aggregate)} ` +
+                `TO ${this.quoteTopLevelName(permission.user)};`,
+            ];
+          default: {
+            const _: never = permission;
+            throw new Error(
+              `Invalid aggregate privilege: ${
+                (permission as AggregatePermission).privilege
+              }`,
+            );
+          }
+        }
+      }
       case "sequence": {
         switch (permission.privilege) {
           case "USAGE":
@@ -922,6 +2769,81 @@ export class PostgresBackend implements SQLBackend {
           }
         }
       }
+      case "foreign-data-wrapper":
+        return [
+          `GRANT ${permission.privilege} ON FOREIGN DATA WRAPPER ` +
+            `${this.quoteTopLevelName(permission.wrapper)} ` +
+            `TO ${this.quoteTopLevelName(permission.user)};`,
+        ];
+      case "foreign-server":
+        return [
+          `GRANT ${permission.privilege} ON FOREIGN SERVER ` +
+            `${this.quoteTopLevelName(permission.server)} ` +
+            `TO ${this.quoteTopLevelName(permission.user)};`,
+        ];
+      case "type":
+        return [
+          `GRANT ${permission.privilege} ON TYPE ` +
+            `${this.quoteQualifiedName(permission.dataType)} ` +
+            `TO ${this.quoteTopLevelName(permission.user)};`,
+        ];
+      case "domain":
+        return [
+          `GRANT ${permission.privilege} ON DOMAIN ` +
+            `${this.quoteQualifiedName(permission.domain)} ` +
+            `TO ${this.quoteTopLevelName(permission.user)};`,
+        ];
+      case "database":
+        return [
+          `GRANT ${permission.privilege} ON DATABASE ` +
+            `${this.quoteTopLevelName(permission.database)} ` +
+            `TO ${this.quoteTopLevelName(permission.user)};`,
+        ];
+      case "parameter":
+        return [
+          `GRANT ${permission.privilege} ON PARAMETER ` +
+            `${this.quoteTopLevelName(permission.parameter)} ` +
+            `TO ${this.quoteTopLevelName(permission.user)};`,
+        ];
+      case "tablespace":
+        return [
+          `GRANT ${permission.privilege} ON TABLESPACE ` +
+            `${this.quoteTopLevelName(permission.tablespace)} ` +
+            `TO ${this.quoteTopLevelName(permission.user)};`,
+        ];
+      case "language":
+        return [
+          `GRANT ${permission.privilege} ON LANGUAGE ` +
+            `${this.quoteTopLevelName(permission.language)} ` +
+            `TO ${this.quoteTopLevelName(permission.user)};`,
+        ];
+      case "large-object":
+        return [
+          `GRANT ${permission.privilege} ON LARGE OBJECT ` +
+            `${permission.largeObject.name} ` +
+            `TO ${this.quoteTopLevelName(permission.user)};`,
+        ];
+      case "foreign-table": {
+        const columns = this.getGrantColumns(permission, entities);
+        return [
+          `GRANT ${permission.privilege}${this.formatColumnList(
+            columns,
+          )} ON ${this.quoteQualifiedName(
+            permission.table,
+          )} TO ${this.quoteTopLevelName(permission.user)};`,
+        ];
+      }
+      case "default":
+        return [
+          this.alterDefaultPrivilegesQuery(
+            "GRANT",
+            this.getDefaultPrivilegeSpec(permission),
+          ),
+        ];
+      case "membership":
+        return [`GRANT ${this.membershipTarget(permission)};`];
+      case "setting":
+        return [`ALTER ROLE ${this.setSettingTarget(permission)};`];
       default: {
         const _: never = permission;
         throw new Error(
@@ -931,3 +2853,31 @@ export class PostgresBackend implements SQLBackend {
     }
   }
 }
+
+/**
+ * Compute a SCRAM-SHA-256 verifier for a password, in the format that
+ * PostgreSQL stores, so the plain text password isn't sent to the server
+ * or written to logs.
+ */
+function scramSha256(password: string): string {
+  const iterations = 4096;
+  const salt = crypto.randomBytes(16);
+  const saltedPassword = crypto.pbkdf2Sync(
+    password,
+    salt,
+    iterations,
+    32,
+    "sha256",
+  );
+  const hmac = (key: string) =>
+    crypto.createHmac("sha256", saltedPassword).update(key).digest();
+  const storedKey = crypto
+    .createHash("sha256")
+    .update(hmac("Client Key"))
+    .digest();
+  const serverKey = hmac("Server Key");
+  return [
+    `SCRAM-SHA-256$${iterations}:${salt.toString("base64")}`,
+    `${storedKey.toString("base64")}:${serverKey.toString("base64")}`,
+  ].join("$");
+}
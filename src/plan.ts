@@ -0,0 +1,162 @@
+import crypto from "node:crypto";
+import pg from "pg";
+import { CompileQueryArgs, compileQuery } from "./api.js";
+import { SQLBackend, SQLEntities } from "./backend.js";
+import { VERSION } from "./constants.js";
+import { PostgresBackend } from "./pg-backend.js";
+
+export interface Plan {
+  version: string;
+  createdAt: string;
+  fingerprint: string;
+  query: string;
+}
+
+function canonicalize(value: unknown): unknown {
+  if (value instanceof Set) {
+    return canonicalize(Array.from(value));
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(canonicalize);
+    const keyed = items.map((item) => [JSON.stringify(item), item] as const);
+    keyed.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return keyed.map(([, item]) => item);
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return Object.fromEntries(
+      entries.map(([key, item]) => [key, canonicalize(item)]),
+    );
+  }
+  return value;
+}
+
+export function fingerprintEntities(entities: SQLEntities): string {
+  const content = JSON.stringify(canonicalize(entities));
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+export interface CreatePlanSuccess {
+  type: "success";
+  plan: Plan;
+}
+
+export interface CreatePlanError {
+  type: "error";
+  errors: string[];
+}
+
+export type CreatePlanResult = CreatePlanSuccess | CreatePlanError;
+
+export async function createPlan({
+  backend,
+  entities,
+  ...args
+}: CompileQueryArgs): Promise<CreatePlanResult> {
+  if (entities === undefined) {
+    entities = await backend.fetchEntities();
+  }
+
+  // Entities read from DDL files never match the ones in a database, so
+  // the plan could never be applied
+  if (entities.currentUser === null) {
+    return {
+      type: "error",
+      errors: ["Plans can only be created from a database or a snapshot"],
+    };
+  }
+
+  // `applyPlan` runs the query in its own transaction
+  const result = await compileQuery({
+    backend,
+    entities,
+    ...args,
+    includeTransaction: false,
+  });
+  if (result.type !== "success") {
+    return result;
+  }
+
+  return {
+    type: "success",
+    plan: {
+      version: VERSION,
+      createdAt: new Date().toISOString(),
+      fingerprint: fingerprintEntities(entities),
+      query: result.query,
+    },
+  };
+}
+
+export function parsePlan(content: string): Plan {
+  let obj: unknown;
+  try {
+    obj = JSON.parse(content);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new PlanError(`Invalid plan file: ${error.message}`);
+    }
+    throw error;
+  }
+
+  if (obj === null || typeof obj !== "object") {
+    throw new PlanError("Invalid plan file: expected an object");
+  }
+
+  const plan = obj as Record<string, unknown>;
+  for (const key of ["version", "createdAt", "fingerprint", "query"]) {
+    if (typeof plan[key] !== "string") {
+      throw new PlanError(`Invalid plan file: missing '${key}'`);
+    }
+  }
+
+  return plan as unknown as Plan;
+}
+
+export interface VerifyPlanArgs {
+  backend: SQLBackend;
+  plan: Plan;
+}
+
+export async function verifyPlan({
+  backend,
+  plan,
+}: VerifyPlanArgs): Promise<void> {
+  const entities = await backend.fetchEntities();
+  const fingerprint = fingerprintEntities(entities);
+  if (fingerprint !== plan.fingerprint) {
+    throw new PlanError(
+      `Database objects or permissions have changed since the plan was created at ${plan.createdAt}. Create a new plan and try again.`,
+    );
+  }
+}
+
+export interface ApplyPlanArgs {
+  client: pg.Client;
+  plan: Plan;
+}
+
+/**
+ * Run a plan's query. The plan is verified in the same transaction, against
+ * the state of the database when the transaction started. This doesn't lock
+ * anything, so changes that other sessions commit while the query runs,
+ * such as a concurrent `GRANT`, aren't detected.
+ */
+export async function applyPlan({
+  client,
+  plan,
+}: ApplyPlanArgs): Promise<void> {
+  await client.query("BEGIN ISOLATION LEVEL REPEATABLE READ");
+  try {
+    await verifyPlan({ backend: new PostgresBackend(client), plan });
+    await client.query(plan.query);
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  }
+}
+
+export class PlanError extends Error {}
@@ -0,0 +1,322 @@
+import fs from "node:fs";
+import { SQLEntities } from "./backend.js";
+import {
+  RoleAttributeNames,
+  RoleChange,
+  SQLGroup,
+  SQLRoleAttributes,
+  SQLUser,
+} from "./sql.js";
+
+/**
+ * Role that should exist in the database. Attributes that aren't specified
+ * are left as they are for existing roles, and use PostgreSQL's defaults
+ * for new roles.
+ */
+export interface RoleDefinition extends Partial<SQLRoleAttributes> {
+  name: string;
+  /** Name of an environment variable containing the role's password */
+  passwordEnv?: string;
+}
+
+const DefaultRoleAttributes: SQLRoleAttributes = {
+  login: false,
+  connectionLimit: -1,
+  validUntil: null,
+  bypassRls: false,
+  createDb: false,
+};
+
+const RoleDefinitionTypes: Record<
+  Exclude<keyof RoleDefinition, "name">,
+  string
+> = {
+  login: "boolean",
+  connectionLimit: "number",
+  validUntil: "string",
+  bypassRls: "boolean",
+  createDb: "boolean",
+  passwordEnv: "string",
+};
+
+/**
+ * Normalize a `VALID UNTIL` timestamp to ISO 8601, returning `null` for
+ * `infinity` and `undefined` if the value can't be parsed.
+ */
+export function parseValidUntil(value: string): string | null | undefined {
+  if (value.toLowerCase() === "infinity") {
+    return null;
+  }
+  const timestamp = Date.parse(value);
+  if (Number.isNaN(timestamp)) {
+    return undefined;
+  }
+  return new Date(timestamp).toISOString();
+}
+
+/**
+ * Parse a roles file, which is a JSON object mapping role names to their
+ * attributes.
+ */
+export function parseRolesFile(content: string): RoleDefinition[] {
+  let obj: unknown;
+  try {
+    obj = JSON.parse(content);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new RolesError(`Invalid roles file: ${error.message}`);
+    }
+    throw error;
+  }
+
+  if (obj === null || typeof obj !== "object" || Array.isArray(obj)) {
+    throw new RolesError("Invalid roles file: expected an object");
+  }
+
+  const roles: RoleDefinition[] = [];
+  for (const [name, attributes] of Object.entries(obj)) {
+    if (
+      attributes === null ||
+      typeof attributes !== "object" ||
+      Array.isArray(attributes)
+    ) {
+      throw new RolesError(
+        `Invalid roles file: expected an object for role '${name}'`,
+      );
+    }
+    for (const [key, value] of Object.entries(attributes)) {
+      const expected =
+        RoleDefinitionTypes[key as keyof typeof RoleDefinitionTypes];
+      if (expected === undefined) {
+        throw new RolesError(
+          `Invalid roles file: unknown attribute '${key}' for role '${name}'`,
+        );
+      }
+      const type =
+        value === null && key === "validUntil" ? "string" : typeof value;
+      if (type !== expected) {
+        throw new RolesError(
+          `Invalid roles file: '${key}' for role '${name}' must be a ${expected}`,
+        );
+      }
+    }
+    roles.push({ ...attributes, name });
+  }
+
+  return roles;
+}
+
+export async function loadRolesFile(path: string): Promise<RoleDefinition[]> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(path, { encoding: "utf8" });
+  } catch (error) {
+    throw new RolesError(`Unable to read roles file ${path}: ${error}`);
+  }
+  return parseRolesFile(content);
+}
+
+export interface PlanRolesArgs {
+  roles: RoleDefinition[];
+  entities: SQLEntities;
+  /**
+   * Drop roles other than superusers and the connecting user that aren't
+   * defined in `roles`
+   */
+  dropUnmanagedRoles?: boolean;
+  /**
+   * Set the passwords of existing roles. Passwords can't be compared with
+   * the ones that are stored, so they are only set for new roles otherwise.
+   */
+  setPasswords?: boolean;
+  env?: Record<string, string | undefined>;
+}
+
+export interface PlanRolesSuccess {
+  type: "success";
+  changes: RoleChange[];
+  /** `entities`, with the changes applied */
+  entities: SQLEntities;
+}
+
+export interface PlanRolesError {
+  type: "error";
+  errors: string[];
+}
+
+export type PlanRolesResult = PlanRolesSuccess | PlanRolesError;
+
+export function planRoles({
+  roles,
+  entities,
+  dropUnmanagedRoles,
+  setPasswords,
+  env = process.env,
+}: PlanRolesArgs): PlanRolesResult {
+  const existingRoles = new Map(
+    entities.roles.map((role) => [role.name, role]),
+  );
+  const definedNames = new Set<string>();
+  const changes: RoleChange[] = [];
+  const errors: string[] = [];
+
+  for (const { name, passwordEnv, ...definition } of roles) {
+    if (definedNames.has(name)) {
+      errors.push(`Role defined more than once: ${name}`);
+      continue;
+    }
+    definedNames.add(name);
+
+    if (name.startsWith("pg_")) {
+      errors.push(`Role names starting with pg_ are reserved: ${name}`);
+      continue;
+    }
+
+    const existing = existingRoles.get(name);
+    if (existing?.superuser) {
+      errors.push(`Unable to manage superuser role: ${name}`);
+      continue;
+    }
+
+    const attributes: Partial<SQLRoleAttributes> = {};
+    for (const key of RoleAttributeNames) {
+      if (definition[key] !== undefined) {
+        Object.assign(attributes, { [key]: definition[key] });
+      }
+    }
+    if (typeof attributes.validUntil === "string") {
+      const validUntil = parseValidUntil(attributes.validUntil);
+      if (validUntil === undefined) {
+        errors.push(
+          `Invalid VALID UNTIL timestamp for role ${name}: ${attributes.validUntil}`,
+        );
+        continue;
+      }
+      attributes.validUntil = validUntil;
+    }
+
+    let password: string | undefined;
+    if (passwordEnv !== undefined && (setPasswords || !existing)) {
+      password = env[passwordEnv];
+      if (password === undefined) {
+        errors.push(
+          `Environment variable ${passwordEnv} for the password of role ${name} is not set`,
+        );
+        continue;
+      }
+    }
+
+    if (!existing) {
+      changes.push({ type: "create", name, attributes, password });
+      continue;
+    }
+
+    const drift: Partial<SQLRoleAttributes> = {};
+    for (const key of RoleAttributeNames) {
+      if (attributes[key] !== undefined && attributes[key] !== existing[key]) {
+        Object.assign(drift, { [key]: attributes[key] });
+      }
+    }
+    if (Object.keys(drift).length > 0 || password !== undefined) {
+      changes.push({ type: "alter", name, attributes: drift, password });
+    }
+  }
+
+  if (dropUnmanagedRoles) {
+    // The roles that sqlauthz is running as can't be dropped
+    const sessionRoles = new Set([entities.currentUser, entities.sessionUser]);
+    for (const role of entities.roles) {
+      if (
+        !role.superuser &&
+        !definedNames.has(role.name) &&
+        !sessionRoles.has(role.name)
+      ) {
+        changes.push({ type: "drop", name: role.name, attributes: {} });
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { type: "error", errors };
+  }
+
+  return {
+    type: "success",
+    changes,
+    entities: applyRoleChanges(entities, changes),
+  };
+}
+
+function applyRoleChanges(
+  entities: SQLEntities,
+  changes: RoleChange[],
+): SQLEntities {
+  const roles = new Map(entities.roles.map((role) => [role.name, role]));
+  for (const change of changes) {
+    const existing = roles.get(change.name);
+    if (change.type === "drop") {
+      roles.delete(change.name);
+    } else if (existing) {
+      roles.set(change.name, { ...existing, ...change.attributes });
+    } else {
+      roles.set(change.name, {
+        type: "role",
+        name: change.name,
+        superuser: false,
+        ...DefaultRoleAttributes,
+        ...change.attributes,
+      });
+    }
+  }
+
+  // Only roles that were changed are moved between users and groups, so
+  // entities without role attributes are left as they are
+  const changed = new Set(changes.map((change) => change.name));
+  const isUser = (name: string) => {
+    const role = roles.get(name);
+    return role?.login === true && !role.superuser;
+  };
+  const isGroup = (name: string) => roles.get(name)?.login === false;
+
+  const users: SQLUser[] = entities.users.filter(
+    (user) => !changed.has(user.name) || isUser(user.name),
+  );
+  const groups: SQLGroup[] = entities.groups.filter(
+    (group) => !changed.has(group.name) || isGroup(group.name),
+  );
+  for (const name of changed) {
+    if (isUser(name) && !users.some((user) => user.name === name)) {
+      users.push({ type: "user", name });
+    }
+    if (isGroup(name) && !groups.some((group) => group.name === name)) {
+      groups.push({ type: "group", name, users: [] });
+    }
+  }
+
+  const userNames = new Set(users.map((user) => user.name));
+  const dropped = new Set(
+    changes.flatMap((change) => (change.type === "drop" ? [change.name] : [])),
+  );
+
+  return {
+    ...entities,
+    users,
+    groups: groups.map((group) => ({
+      ...group,
+      users: group.users.filter(
+        (user) => !changed.has(user.name) || userNames.has(user.name),
+      ),
+    })),
+    predefinedRoles: entities.predefinedRoles.map((group) => ({
+      ...group,
+      users: group.users.filter((user) => !dropped.has(user.name)),
+    })),
+    roles: Array.from(roles.values()),
+    memberships: entities.memberships.filter(
+      (membership) =>
+        !dropped.has(membership.role) && !dropped.has(membership.member),
+    ),
+  };
+}
+
+export class RolesError extends Error {}
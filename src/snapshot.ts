@@ -0,0 +1,147 @@
+import fs from "node:fs";
+import { SQLBackend, SQLBackendContext, SQLEntities } from "./backend.js";
+import { VERSION } from "./constants.js";
+import { PostgresBackend } from "./pg-backend.js";
+
+export interface Snapshot {
+  version: string;
+  createdAt: string;
+  entities: SQLEntities;
+}
+
+const EntityKeys = [
+  "users",
+  "groups",
+  "predefinedRoles",
+  "roles",
+  "schemas",
+  "tables",
+  "views",
+  "materializedViews",
+  "rlsPolicies",
+  "functions",
+  "procedures",
+  "aggregates",
+  "sequences",
+  "types",
+  "domains",
+  "foreignDataWrappers",
+  "foreignServers",
+  "foreignTables",
+  "databases",
+  "parameters",
+  "tablespaces",
+  "languages",
+  "largeObjects",
+  "grants",
+  "defaultPrivileges",
+  "memberships",
+  "settings",
+] as const satisfies (keyof SQLEntities)[];
+
+const SessionKeys = [
+  "currentUser",
+  "sessionUser",
+] as const satisfies (keyof SQLEntities)[];
+
+export interface CreateSnapshotArgs {
+  backend: SQLBackend;
+}
+
+export async function createSnapshot({
+  backend,
+}: CreateSnapshotArgs): Promise<Snapshot> {
+  const entities = await backend.fetchEntities();
+  return {
+    version: VERSION,
+    createdAt: new Date().toISOString(),
+    entities,
+  };
+}
+
+export function serializeSnapshot(snapshot: Snapshot): string {
+  return JSON.stringify(
+    snapshot,
+    (_, value) => (value instanceof Set ? Array.from(value) : value),
+    2,
+  );
+}
+
+export function parseSnapshot(content: string): Snapshot {
+  let obj: unknown;
+  try {
+    obj = JSON.parse(content);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new SnapshotError(`Invalid snapshot file: ${error.message}`);
+    }
+    throw error;
+  }
+
+  if (obj === null || typeof obj !== "object") {
+    throw new SnapshotError("Invalid snapshot file: expected an object");
+  }
+
+  const snapshot = obj as Record<string, unknown>;
+  for (const key of ["version", "createdAt"]) {
+    if (typeof snapshot[key] !== "string") {
+      throw new SnapshotError(`Invalid snapshot file: missing '${key}'`);
+    }
+  }
+
+  const entities = snapshot.entities as Record<string, unknown> | undefined;
+  if (entities === null || typeof entities !== "object") {
+    throw new SnapshotError("Invalid snapshot file: missing 'entities'");
+  }
+  for (const key of EntityKeys) {
+    if (!Array.isArray(entities[key])) {
+      throw new SnapshotError(
+        `Invalid snapshot file: missing 'entities.${key}'`,
+      );
+    }
+  }
+  for (const key of SessionKeys) {
+    if (typeof entities[key] !== "string" && entities[key] !== null) {
+      throw new SnapshotError(
+        `Invalid snapshot file: missing 'entities.${key}'`,
+      );
+    }
+  }
+
+  const result = snapshot as unknown as Snapshot;
+  for (const policy of result.entities.rlsPolicies) {
+    policy.privileges = new Set(policy.privileges);
+  }
+
+  return result;
+}
+
+/**
+ * Backend that reads entities from a snapshot file instead of a database
+ * connection. Queries are compiled using `backend`, which does not need to
+ * be connected.
+ */
+export class SnapshotBackend implements SQLBackend {
+  constructor(
+    private readonly path: string,
+    private readonly backend: SQLBackend = new PostgresBackend(),
+  ) {}
+
+  async fetchEntities(): Promise<SQLEntities> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.path, { encoding: "utf8" });
+    } catch (error) {
+      throw new SnapshotError(
+        `Unable to read snapshot file ${this.path}: ${error}`,
+      );
+    }
+    return parseSnapshot(content).entities;
+  }
+
+  getContext(entities: SQLEntities): Promise<SQLBackendContext> {
+    return this.backend.getContext(entities);
+  }
+}
+
+export class SnapshotError extends Error {}
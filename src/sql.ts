@@ -13,16 +13,26 @@ export interface SQLView {
   name: string;
 }
 
+export interface SQLMaterializedView {
+  type: "materialized-view";
+  schema: string;
+  name: string;
+}
+
 export interface SQLTableMetadata {
   type: "table-metadata";
   table: SQLTable;
   rlsEnabled: boolean;
   columns: string[];
+  /** Partitioned table that this table is a partition of, if any */
+  partitionOf: SQLTable | null;
 }
 
 export interface SQLSchema {
   type: "schema";
   name: string;
+  /** Role that owns the schema, if known */
+  owner?: string;
 }
 
 export const SQLRowLevelSecurityPolicyPrivileges = [
@@ -44,12 +54,20 @@ export interface SQLRowLevelSecurityPolicy {
   isDefault: boolean;
   users: SQLUser[];
   groups: SQLGroup[];
+  using: string | null;
+  withCheck: string | null;
+  comment: string | null;
 }
 
 export interface SQLFunction {
   type: "function";
   schema: string;
   name: string;
+  /**
+   * Types of the arguments that identify the function, as formatted by
+   * PostgreSQL e.g. `integer` or `character varying`
+   */
+  args: string[];
   builtin: boolean;
 }
 
@@ -57,15 +75,106 @@ export interface SQLProcedure {
   type: "procedure";
   schema: string;
   name: string;
+  /** Types of the arguments that identify the procedure */
+  args: string[];
   builtin: boolean;
 }
 
+/**
+ * Aggregate or window function. Only those outside of `pg_catalog` are
+ * included.
+ */
+export interface SQLAggregate {
+  type: "aggregate";
+  schema: string;
+  name: string;
+  /**
+   * Types of the arguments that identify the aggregate, including the
+   * `ORDER BY` arguments of ordered-set aggregates
+   */
+  args: string[];
+}
+
 export interface SQLSequence {
   type: "sequence";
   schema: string;
   name: string;
 }
 
+/**
+ * User-defined type that isn't a domain, such as an enum, range or
+ * composite type. Array types and the row types of tables aren't included,
+ * since their privileges can't be granted separately.
+ */
+export interface SQLType {
+  type: "type";
+  schema: string;
+  name: string;
+}
+
+export interface SQLDomain {
+  type: "domain";
+  schema: string;
+  name: string;
+}
+
+export interface SQLForeignDataWrapper {
+  type: "foreign-data-wrapper";
+  name: string;
+}
+
+export interface SQLForeignServer {
+  type: "foreign-server";
+  name: string;
+}
+
+export interface SQLForeignTable {
+  type: "foreign-table";
+  schema: string;
+  name: string;
+}
+
+export interface SQLForeignTableMetadata {
+  type: "foreign-table-metadata";
+  table: SQLForeignTable;
+  columns: string[];
+}
+
+/**
+ * Database that `sqlauthz` is connected to. Privileges on other databases
+ * aren't managed, since each database is managed separately.
+ */
+export interface SQLDatabase {
+  type: "database";
+  name: string;
+}
+
+/**
+ * Configuration parameter whose privileges can be granted, which requires
+ * PostgreSQL 15 or later
+ */
+export interface SQLParameter {
+  type: "parameter";
+  name: string;
+}
+
+export interface SQLTablespace {
+  type: "tablespace";
+  name: string;
+}
+
+/** Trusted procedural language; untrusted languages can't be granted */
+export interface SQLLanguage {
+  type: "language";
+  name: string;
+}
+
+export interface SQLLargeObject {
+  type: "large-object";
+  /** OID of the large object */
+  name: string;
+}
+
 export interface SQLUser {
   type: "user";
   name: string;
@@ -79,6 +188,103 @@ export interface SQLGroup {
 
 export type SQLActor = SQLUser | SQLGroup;
 
+/**
+ * Attributes of a role that can be managed declaratively. `validUntil` is
+ * an ISO 8601 timestamp, or `null` if the password never expires.
+ */
+export interface SQLRoleAttributes {
+  login: boolean;
+  connectionLimit: number;
+  validUntil: string | null;
+  bypassRls: boolean;
+  createDb: boolean;
+}
+
+export const RoleAttributeNames = [
+  "login",
+  "connectionLimit",
+  "validUntil",
+  "bypassRls",
+  "createDb",
+] as const satisfies (keyof SQLRoleAttributes)[];
+
+export interface SQLRole extends SQLRoleAttributes {
+  type: "role";
+  name: string;
+  superuser: boolean;
+}
+
+export type SQLGrantObject =
+  | SQLSchema
+  | SQLTable
+  | SQLView
+  | SQLMaterializedView
+  | SQLFunction
+  | SQLProcedure
+  | SQLAggregate
+  | SQLSequence
+  | SQLType
+  | SQLDomain
+  | SQLForeignDataWrapper
+  | SQLForeignServer
+  | SQLForeignTable
+  | SQLDatabase
+  | SQLParameter
+  | SQLTablespace
+  | SQLLanguage
+  | SQLLargeObject;
+
+export interface SQLPrivilegeGrant {
+  type: "privilege-grant";
+  object: SQLGrantObject;
+  column: string | null;
+  grantee: string;
+  grantor: string;
+  /** Owner of the object, which can revoke privileges that it granted */
+  owner: string;
+  privilege: string;
+}
+
+export const DefaultPrivilegeObjectTypes = [
+  "table",
+  "sequence",
+  "function",
+] as const;
+
+export type DefaultPrivilegeObjectType =
+  (typeof DefaultPrivilegeObjectTypes)[number];
+
+export interface SQLDefaultPrivilegeGrant {
+  type: "default-privilege-grant";
+  owner: string;
+  schema: string | null;
+  objectType: DefaultPrivilegeObjectType;
+  grantee: string;
+  privilege: string;
+}
+
+export interface SQLRoleMembership {
+  type: "role-membership";
+  role: string;
+  member: string;
+  admin: boolean;
+  inherit: boolean;
+  set: boolean;
+}
+
+/**
+ * Session default set for a role with `ALTER ROLE ... SET`, either in every
+ * database (`database` is `null`) or only in one. `value` is the value as
+ * PostgreSQL stores it.
+ */
+export interface SQLRoleSetting {
+  type: "role-setting";
+  role: string;
+  database: string | null;
+  name: string;
+  value: string;
+}
+
 export const TablePrivileges = [
   "SELECT",
   "INSERT",
@@ -101,6 +307,11 @@ export const ViewPrivileges = [
 
 export type ViewPrivilege = (typeof ViewPrivileges)[number];
 
+export const MaterializedViewPrivileges = ["SELECT"] as const;
+
+export type MaterializedViewPrivilege =
+  (typeof MaterializedViewPrivileges)[number];
+
 export const SchemaPrivileges = ["USAGE", "CREATE"] as const;
 
 export type SchemaPrivilege = (typeof SchemaPrivileges)[number];
@@ -113,12 +324,81 @@ export const ProcedurePrivileges = ["EXECUTE"] as const;
 
 export type ProcedurePrivilege = (typeof FunctionPrivileges)[number];
 
+export const AggregatePrivileges = ["EXECUTE"] as const;
+
+export type AggregatePrivilege = (typeof AggregatePrivileges)[number];
+
 export const SequencePrivileges = ["USAGE", "SELECT", "UPDATE"] as const;
 
 export type SequencePrivilege = (typeof SequencePrivileges)[number];
 
+export const TypePrivileges = ["USAGE"] as const;
+
+export type TypePrivilege = (typeof TypePrivileges)[number];
+
+export const DomainPrivileges = ["USAGE"] as const;
+
+export type DomainPrivilege = (typeof DomainPrivileges)[number];
+
+export const ForeignDataWrapperPrivileges = ["USAGE"] as const;
+
+export type ForeignDataWrapperPrivilege =
+  (typeof ForeignDataWrapperPrivileges)[number];
+
+export const ForeignServerPrivileges = ["USAGE"] as const;
+
+export type ForeignServerPrivilege = (typeof ForeignServerPrivileges)[number];
+
+export const DatabasePrivileges = ["CONNECT", "TEMPORARY", "CREATE"] as const;
+
+export type DatabasePrivilege = (typeof DatabasePrivileges)[number];
+
+export const ParameterPrivileges = ["SET", "ALTER SYSTEM"] as const;
+
+export type ParameterPrivilege = (typeof ParameterPrivileges)[number];
+
+export const TablespacePrivileges = ["CREATE"] as const;
+
+export type TablespacePrivilege = (typeof TablespacePrivileges)[number];
+
+export const LanguagePrivileges = ["USAGE"] as const;
+
+export type LanguagePrivilege = (typeof LanguagePrivileges)[number];
+
+export const LargeObjectPrivileges = ["SELECT", "UPDATE"] as const;
+
+export type LargeObjectPrivilege = (typeof LargeObjectPrivileges)[number];
+
+export const ForeignTablePrivileges = [
+  "SELECT",
+  "INSERT",
+  "UPDATE",
+  "DELETE",
+] as const;
+
+export type ForeignTablePrivilege = (typeof ForeignTablePrivileges)[number];
+
+export const DefaultPrivileges = {
+  table: TablePrivileges,
+  sequence: SequencePrivileges,
+  function: FunctionPrivileges,
+} as const satisfies Record<DefaultPrivilegeObjectType, readonly string[]>;
+
+export type DefaultPrivilege =
+  (typeof DefaultPrivileges)[DefaultPrivilegeObjectType][number];
+
+export const MembershipOptions = ["admin", "inherit", "set"] as const;
+
+export type MembershipOption = (typeof MembershipOptions)[number];
+
+export interface RuleSource {
+  file: string;
+  line: number;
+}
+
 export interface BasePermission {
   user: SQLActor;
+  sources?: RuleSource[];
 }
 
 export interface TablePermission extends BasePermission {
@@ -141,6 +421,12 @@ export interface ViewPermission extends BasePermission {
   privilege: ViewPrivilege;
 }
 
+export interface MaterializedViewPermission extends BasePermission {
+  type: "materialized-view";
+  view: SQLMaterializedView;
+  privilege: MaterializedViewPrivilege;
+}
+
 export interface FunctionPermission extends BasePermission {
   type: "function";
   function: SQLFunction;
@@ -153,24 +439,316 @@ export interface ProcedurePermission extends BasePermission {
   privilege: ProcedurePrivilege;
 }
 
+export interface AggregatePermission extends BasePermission {
+  type: "aggregate";
+  aggregate: SQLAggregate;
+  privilege: AggregatePrivilege;
+}
+
 export interface SequencePermission extends BasePermission {
   type: "sequence";
   sequence: SQLSequence;
   privilege: SequencePrivilege;
 }
 
+export interface TypePermission extends BasePermission {
+  type: "type";
+  dataType: SQLType;
+  privilege: TypePrivilege;
+}
+
+export interface DomainPermission extends BasePermission {
+  type: "domain";
+  domain: SQLDomain;
+  privilege: DomainPrivilege;
+}
+
+export interface ForeignDataWrapperPermission extends BasePermission {
+  type: "foreign-data-wrapper";
+  wrapper: SQLForeignDataWrapper;
+  privilege: ForeignDataWrapperPrivilege;
+}
+
+export interface ForeignServerPermission extends BasePermission {
+  type: "foreign-server";
+  server: SQLForeignServer;
+  privilege: ForeignServerPrivilege;
+}
+
+/**
+ * Foreign tables don't support row-level security, so unlike
+ * `TablePermission` only the columns can be restricted
+ */
+export interface ForeignTablePermission extends BasePermission {
+  type: "foreign-table";
+  table: SQLForeignTable;
+  privilege: ForeignTablePrivilege;
+  columnClause: Clause;
+}
+
+export interface DatabasePermission extends BasePermission {
+  type: "database";
+  database: SQLDatabase;
+  privilege: DatabasePrivilege;
+}
+
+export interface ParameterPermission extends BasePermission {
+  type: "parameter";
+  parameter: SQLParameter;
+  privilege: ParameterPrivilege;
+}
+
+export interface TablespacePermission extends BasePermission {
+  type: "tablespace";
+  tablespace: SQLTablespace;
+  privilege: TablespacePrivilege;
+}
+
+export interface LanguagePermission extends BasePermission {
+  type: "language";
+  language: SQLLanguage;
+  privilege: LanguagePrivilege;
+}
+
+export interface LargeObjectPermission extends BasePermission {
+  type: "large-object";
+  largeObject: SQLLargeObject;
+  privilege: LargeObjectPrivilege;
+}
+
+/**
+ * Privilege granted on objects created in a schema in the future, via
+ * `ALTER DEFAULT PRIVILEGES`. `function` also covers procedures and
+ * aggregates.
+ */
+export interface DefaultPermission extends BasePermission {
+  type: "default";
+  schema: SQLSchema;
+  objectType: DefaultPrivilegeObjectType;
+  privilege: DefaultPrivilege;
+}
+
+/**
+ * Membership of `user` in `group`, granted via `GRANT group TO user`.
+ * Options that aren't specified are left as PostgreSQL sets them.
+ */
+export interface MembershipPermission extends BasePermission {
+  type: "membership";
+  group: SQLGroup;
+  privilege: "MEMBER";
+  options: Partial<Record<MembershipOption, boolean>>;
+}
+
+export type SettingValue = string | number | boolean | string[];
+
+/**
+ * Session default for `user`, set via `ALTER ROLE ... SET`. If `database` is
+ * `null`, the setting applies in every database.
+ */
+export interface SettingPermission extends BasePermission {
+  type: "setting";
+  name: string;
+  value: SettingValue;
+  database: string | null;
+  privilege: "SET";
+}
+
 export type Permission =
   | TablePermission
   | SchemaPermission
   | ViewPermission
+  | MaterializedViewPermission
   | FunctionPermission
   | ProcedurePermission
-  | SequencePermission;
+  | AggregatePermission
+  | SequencePermission
+  | TypePermission
+  | DomainPermission
+  | ForeignDataWrapperPermission
+  | ForeignServerPermission
+  | ForeignTablePermission
+  | DatabasePermission
+  | ParameterPermission
+  | TablespacePermission
+  | LanguagePermission
+  | LargeObjectPermission
+  | DefaultPermission
+  | MembershipPermission
+  | SettingPermission;
 
 export type Privilege = {
   [P in Permission as P["type"]]: P["privilege"];
 }[Permission["type"]];
 
+export type ObjectPermission = Exclude<
+  Permission,
+  MembershipPermission | SettingPermission
+>;
+
+export function permissionObject(permission: ObjectPermission): SQLGrantObject {
+  switch (permission.type) {
+    case "schema":
+    case "default":
+      return permission.schema;
+    case "table":
+      return permission.table;
+    case "view":
+    case "materialized-view":
+      return permission.view;
+    case "function":
+      return permission.function;
+    case "procedure":
+      return permission.procedure;
+    case "aggregate":
+      return permission.aggregate;
+    case "sequence":
+      return permission.sequence;
+    case "type":
+      return permission.dataType;
+    case "domain":
+      return permission.domain;
+    case "foreign-data-wrapper":
+      return permission.wrapper;
+    case "foreign-server":
+      return permission.server;
+    case "foreign-table":
+      return permission.table;
+    case "database":
+      return permission.database;
+    case "parameter":
+      return permission.parameter;
+    case "tablespace":
+      return permission.tablespace;
+    case "language":
+      return permission.language;
+    case "large-object":
+      return permission.largeObject;
+    default: {
+      const _: never = permission;
+      throw new Error(
+        `Invalid permission: ${(permission as ObjectPermission).type}`,
+      );
+    }
+  }
+}
+
+/**
+ * Schema containing an object, or `null` for objects that aren't contained
+ * in a schema. Schemas are considered to contain themselves.
+ */
+export function objectSchema(object: SQLGrantObject): string | null {
+  switch (object.type) {
+    case "schema":
+      return object.name;
+    case "table":
+    case "view":
+    case "materialized-view":
+    case "function":
+    case "procedure":
+    case "aggregate":
+    case "sequence":
+    case "type":
+    case "domain":
+    case "foreign-table":
+      return object.schema;
+    case "foreign-data-wrapper":
+    case "foreign-server":
+    case "database":
+    case "parameter":
+    case "tablespace":
+    case "language":
+    case "large-object":
+      return null;
+    default: {
+      const _: never = object;
+      throw new Error(`Invalid object: ${(object as SQLGrantObject).type}`);
+    }
+  }
+}
+
+export type PermissionChangeType =
+  | "grant"
+  | "revoke"
+  | "create-policy"
+  | "drop-policy"
+  | "replace-policy"
+  | "set-setting"
+  | "replace-setting"
+  | "reset-setting"
+  | "create-role"
+  | "alter-role"
+  | "drop-role";
+
+/**
+ * Change to a role defined in a roles file. `attributes` only contains the
+ * attributes that should be set; `password` is the plain text password.
+ */
+export interface RoleChange {
+  type: "create" | "alter" | "drop";
+  name: string;
+  attributes: Partial<SQLRoleAttributes>;
+  password?: string;
+}
+
+export interface PermissionChange {
+  type: PermissionChangeType;
+  description: string;
+  queries: string[];
+  sources?: RuleSource[];
+}
+
+export function formatRuleSources(sources: RuleSource[]): string {
+  return sources.map((source) => `${source.file}:${source.line}`).join(", ");
+}
+
+/**
+ * Settings whose values are lists of identifiers, which PostgreSQL quotes
+ * when needed when storing them
+ */
+export const ListSettings = [
+  "search_path",
+  "temp_tablespaces",
+  "local_preload_libraries",
+  "session_preload_libraries",
+];
+
+/**
+ * Format a setting value the way PostgreSQL stores it in
+ * `pg_db_role_setting`, so that it can be compared with existing settings
+ */
+export function formatSettingValue(name: string, value: SettingValue): string {
+  if (!Array.isArray(value)) {
+    return value.toString();
+  }
+  if (!ListSettings.includes(name)) {
+    return value.join(", ");
+  }
+  return value
+    .map((item) =>
+      /^[a-z_][a-z0-9_$]*$/.test(item)
+        ? item
+        : `"${item.replaceAll('"', '""')}"`,
+    )
+    .join(", ");
+}
+
+/**
+ * Parse a setting value stored by PostgreSQL, splitting the values of
+ * list settings into their items
+ */
+export function parseSettingValue(name: string, value: string): SettingValue {
+  if (!ListSettings.includes(name)) {
+    return value;
+  }
+  const items: string[] = [];
+  for (const match of value.matchAll(/"((?:[^"]|"")*)"|[^,\s]+/g)) {
+    items.push(
+      match[1] === undefined ? match[0] : match[1].replaceAll('""', '"'),
+    );
+  }
+  return items;
+}
+
 export function parseQualifiedName(tableName: string): [string, string] | null {
   const parts = tableName.split(".");
   if (parts.length !== 2) {
@@ -183,13 +761,36 @@ export function formatQualifiedName(schema: string, name: string): string {
   return `${schema}.${name}`;
 }
 
+/**
+ * Format the signature of a function or procedure, which distinguishes it
+ * from overloads with the same name e.g. `lower(text)`
+ */
+export function formatSignature(
+  routine: SQLFunction | SQLProcedure | SQLAggregate,
+): string {
+  return `${routine.name}(${routine.args.join(", ")})`;
+}
+
+/**
+ * Name of an object type as it appears in `resource.type` conditions in
+ * rules, which use underscores rather than dashes
+ */
+export function resourceTypeName(
+  type: Permission["type"] | SQLGrantObject["type"],
+): string {
+  return type.replaceAll("-", "_");
+}
+
 export interface ConstructFullQueryArgs {
   context: SQLBackendContext;
   entities: SQLEntities;
   revokeUsers: SQLActor[];
   permissions: Permission[];
+  roleChanges?: RoleChange[];
   includeSetupAndTeardown?: boolean;
   includeTransaction?: boolean;
+  incremental?: boolean;
+  managedSchemas?: string[];
 }
 
 export function constructFullQuery({
@@ -197,8 +798,11 @@ export function constructFullQuery({
   context,
   revokeUsers,
   permissions,
+  roleChanges,
   includeSetupAndTeardown,
   includeTransaction,
+  incremental,
+  managedSchemas,
 }: ConstructFullQueryArgs): string {
   if (includeSetupAndTeardown === undefined) {
     includeSetupAndTeardown = true;
@@ -213,24 +817,47 @@ export function constructFullQuery({
     queryParts.push(context.transactionStartQuery);
   }
 
-  if (context.setupQuery && includeSetupAndTeardown) {
-    queryParts.push(context.setupQuery);
+  // Roles have to exist before anything can be granted to them
+  if (roleChanges && roleChanges.length > 0) {
+    if (!context.compileRoleChanges) {
+      throw new Error("Backend does not support managing roles");
+    }
+    const changes = context.compileRoleChanges(roleChanges);
+    queryParts.push(...changes.flatMap((change) => change.queries));
   }
 
-  if (includeSetupAndTeardown) {
-    const removeQueries = context.removeAllPermissionsFromActorsQueries(
+  if (incremental) {
+    if (!context.diffPermissions) {
+      throw new Error("Backend does not support incremental updates");
+    }
+    const changes = context.diffPermissions(
       revokeUsers,
+      permissions,
       entities,
+      managedSchemas,
     );
-
-    queryParts.push(...removeQueries);
-  }
-
-  const grantQueries = context.compileGrantQueries(permissions, entities);
-  queryParts.push(...grantQueries);
-
-  if (context.teardownQuery && includeSetupAndTeardown) {
-    queryParts.push(context.teardownQuery);
+    queryParts.push(...changes.flatMap((change) => change.queries));
+  } else {
+    if (context.setupQuery && includeSetupAndTeardown) {
+      queryParts.push(context.setupQuery);
+    }
+
+    if (includeSetupAndTeardown) {
+      const removeQueries = context.removeAllPermissionsFromActorsQueries(
+        revokeUsers,
+        entities,
+        managedSchemas,
+      );
+
+      queryParts.push(...removeQueries);
+    }
+
+    const grantQueries = context.compileGrantQueries(permissions, entities);
+    queryParts.push(...grantQueries);
+
+    if (context.teardownQuery && includeSetupAndTeardown) {
+      queryParts.push(context.teardownQuery);
+    }
   }
   if (context.transactionCommitQuery && includeTransaction) {
     queryParts.push(context.transactionCommitQuery);
@@ -1,24 +1,43 @@
-CREATE FUNCTION {{tmpSchema}}.revoke_all_from_role(username TEXT) RETURNS TEXT AS $$
 declare
     role_row record;
     schema_row record;
+    type_row record;
+    default_row record;
 begin
-    -- Revoke all existing roles
+    -- When managed_schemas is set, only privileges on those schemas and the
+    -- objects in them are revoked, and everything else is left alone.
+    -- Revoke all existing roles. Since PostgreSQL 16 a membership can be
+    -- granted by more than one role, and each grant is revoked separately
     FOR role_row IN
         SELECT
-            m.roleid::regrole::text as rolename
+            g.rolname as rolename,
+            grantor.rolname as grantor_name
         FROM
             pg_roles r
             JOIN pg_auth_members m ON r.oid = m.member
+            JOIN pg_roles g ON g.oid = m.roleid
+            LEFT JOIN pg_roles grantor ON grantor.oid = m.grantor
         WHERE
             r.rolname = username
+            AND managed_schemas IS NULL
     LOOP
-        execute format('REVOKE %I FROM %I', role_row.rolename, username);
+        IF role_row.grantor_name IS NULL THEN
+            execute format('REVOKE %I FROM %I', role_row.rolename, username);
+        ELSE
+            execute format(
+                'REVOKE %I FROM %I GRANTED BY %I',
+                role_row.rolename,
+                username,
+                role_row.grantor_name
+            );
+        END IF;
     END LOOP;
     -- Revoke all existing privileges
     FOR schema_row IN 
         SELECT DISTINCT schema_name FROM information_schema.schemata
-        WHERE schema_name NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        WHERE
+            schema_name NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+            AND (managed_schemas IS NULL OR schema_name = ANY(managed_schemas))
     LOOP
         execute format(
             'REVOKE USAGE ON SCHEMA %I FROM %I CASCADE',
@@ -30,11 +49,11 @@ begin
             schema_row.schema_name,
             username
         );
-        -- execute format(
-        --     'REVOKE ALL PRIVILEGES ON ALL SEQUENCES IN SCHEMA %I FROM %I CASCADE',
-        --     schema_row.schema_name,
-        --     username
-        -- );
+        execute format(
+            'REVOKE ALL PRIVILEGES ON ALL SEQUENCES IN SCHEMA %I FROM %I CASCADE',
+            schema_row.schema_name,
+            username
+        );
         execute format(
             'REVOKE ALL PRIVILEGES ON SCHEMA %I FROM %I CASCADE',
             schema_row.schema_name,
@@ -51,7 +70,77 @@ begin
             username
         );
     END LOOP;
-
-    return username;
+    -- There's no ALL TYPES IN SCHEMA, so types and domains are revoked
+    -- one at a time
+    FOR type_row IN
+        SELECT
+            CASE t.typtype WHEN 'd' THEN 'DOMAIN' ELSE 'TYPE' END as object_type,
+            n.nspname as schema_name,
+            t.typname as type_name
+        FROM
+            pg_type t
+            JOIN pg_namespace n ON n.oid = t.typnamespace
+            LEFT JOIN pg_class c ON c.oid = t.typrelid
+        WHERE
+            t.typtype IN ('b', 'c', 'd', 'e', 'r', 'm')
+            AND (t.typrelid = 0 OR c.relkind = 'c')
+            AND NOT EXISTS (SELECT 1 FROM pg_type e WHERE e.typarray = t.oid)
+            AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+            AND (managed_schemas IS NULL OR n.nspname = ANY(managed_schemas))
+    LOOP
+        execute format(
+            'REVOKE ALL PRIVILEGES ON %s %I.%I FROM %I CASCADE',
+            type_row.object_type,
+            type_row.schema_name,
+            type_row.type_name,
+            username
+        );
+    END LOOP;
+    -- Privileges on objects that aren't contained in a schema, such as the
+    -- database and tablespaces, are all revoked by revoke_grants_from_role.sql,
+    -- since REVOKE fails on those that the current user has no privileges on
+    -- Revoke all default privileges on objects created in the future
+    FOR default_row IN
+        SELECT
+            owner_role.rolname as owner_name,
+            n.nspname as schema_name,
+            CASE d.defaclobjtype
+                WHEN 'r' THEN 'TABLES'
+                WHEN 'S' THEN 'SEQUENCES'
+                WHEN 'f' THEN 'FUNCTIONS'
+                WHEN 'T' THEN 'TYPES'
+                WHEN 'n' THEN 'SCHEMAS'
+            END as object_type
+        FROM
+            pg_default_acl d
+            JOIN pg_roles owner_role ON owner_role.oid = d.defaclrole
+            LEFT JOIN pg_namespace n ON n.oid = d.defaclnamespace
+        WHERE
+            owner_role.rolname != username
+            AND EXISTS (
+                SELECT 1
+                FROM
+                    aclexplode(d.defaclacl) a
+                    JOIN pg_roles grantee ON grantee.oid = a.grantee
+                WHERE grantee.rolname = username
+            )
+            AND (managed_schemas IS NULL OR n.nspname = ANY(managed_schemas))
+    LOOP
+        IF default_row.schema_name IS NULL THEN
+            execute format(
+                'ALTER DEFAULT PRIVILEGES FOR ROLE %I REVOKE ALL ON %s FROM %I',
+                default_row.owner_name,
+                default_row.object_type,
+                username
+            );
+        ELSE
+            execute format(
+                'ALTER DEFAULT PRIVILEGES FOR ROLE %I IN SCHEMA %I REVOKE ALL ON %s FROM %I',
+                default_row.owner_name,
+                default_row.schema_name,
+                default_row.object_type,
+                username
+            );
+        END IF;
+    END LOOP;
 end;
-$$ LANGUAGE plpgsql STRICT SECURITY INVOKER;
@@ -0,0 +1,213 @@
+declare
+    grant_row record;
+    grant_query TEXT;
+    invoking_role TEXT := current_user;
+    invoking_superuser BOOLEAN;
+    -- The SET option of role memberships was added in PostgreSQL 16
+    set_privilege TEXT := CASE
+        WHEN current_setting('server_version_num')::integer >= 160000 THEN 'SET'
+        ELSE 'MEMBER'
+    END;
+begin
+    SELECT rolsuper INTO invoking_superuser FROM pg_roles WHERE rolname = current_user;
+    -- REVOKE only removes privileges granted by the current role, or by the
+    -- owner of the object for superusers, so privileges granted by other
+    -- roles are revoked by switching to the role that granted them. This runs
+    -- for every user before revoke_all_from_role.sql runs for any of them,
+    -- since the grantor may be one of the other users, and it may not be
+    -- able to revoke anything once its own privileges are gone. Privileges
+    -- that can't be revoked, e.g. because the session user can't switch to
+    -- the grantor, are reported as warnings and left in place.
+    -- When managed_schemas is set, only privileges on those schemas and the
+    -- objects in them are revoked.
+    grant_query := '
+        SELECT
+            CASE WHEN c.relkind = ''S'' THEN ''SEQUENCE'' ELSE ''TABLE'' END
+                as object_type,
+            format(''%I.%I'', n.nspname, c.relname) as object_name,
+            a.grantor,
+            c.relowner as owner,
+            n.nspname as schema_name
+        FROM
+            pg_class c
+            JOIN pg_namespace n ON n.oid = c.relnamespace
+            CROSS JOIN LATERAL aclexplode(c.relacl) a
+        WHERE a.grantee = $1
+        UNION ALL
+        SELECT ''SCHEMA'', format(''%I'', n.nspname), a.grantor, n.nspowner, n.nspname
+        FROM pg_namespace n CROSS JOIN LATERAL aclexplode(n.nspacl) a
+        WHERE a.grantee = $1
+        UNION ALL
+        SELECT
+            ''ROUTINE'',
+            format(
+                ''%I.%I(%s)'',
+                n.nspname,
+                p.proname,
+                pg_get_function_identity_arguments(p.oid)
+            ),
+            a.grantor,
+            p.proowner,
+            n.nspname
+        FROM
+            pg_proc p
+            JOIN pg_namespace n ON n.oid = p.pronamespace
+            CROSS JOIN LATERAL aclexplode(p.proacl) a
+        WHERE a.grantee = $1
+        UNION ALL
+        SELECT
+            ''TYPE'',
+            format(''%I.%I'', n.nspname, t.typname),
+            a.grantor,
+            t.typowner,
+            n.nspname
+        FROM
+            pg_type t
+            JOIN pg_namespace n ON n.oid = t.typnamespace
+            CROSS JOIN LATERAL aclexplode(t.typacl) a
+        WHERE a.grantee = $1
+        UNION ALL
+        SELECT ''DATABASE'', format(''%I'', d.datname), a.grantor, d.datdba, NULL
+        FROM pg_database d CROSS JOIN LATERAL aclexplode(d.datacl) a
+        WHERE a.grantee = $1 AND d.datname = current_database()
+        UNION ALL
+        SELECT ''FOREIGN DATA WRAPPER'', format(''%I'', w.fdwname), a.grantor, w.fdwowner, NULL
+        FROM pg_foreign_data_wrapper w CROSS JOIN LATERAL aclexplode(w.fdwacl) a
+        WHERE a.grantee = $1
+        UNION ALL
+        SELECT ''FOREIGN SERVER'', format(''%I'', s.srvname), a.grantor, s.srvowner, NULL
+        FROM pg_foreign_server s CROSS JOIN LATERAL aclexplode(s.srvacl) a
+        WHERE a.grantee = $1
+        UNION ALL
+        SELECT ''TABLESPACE'', format(''%I'', t.spcname), a.grantor, t.spcowner, NULL
+        FROM pg_tablespace t CROSS JOIN LATERAL aclexplode(t.spcacl) a
+        WHERE a.grantee = $1
+        UNION ALL
+        SELECT ''LANGUAGE'', format(''%I'', l.lanname), a.grantor, l.lanowner, NULL
+        FROM pg_language l CROSS JOIN LATERAL aclexplode(l.lanacl) a
+        WHERE a.grantee = $1
+        UNION ALL
+        SELECT ''LARGE OBJECT'', m.oid::text, a.grantor, m.lomowner, NULL
+        FROM pg_largeobject_metadata m CROSS JOIN LATERAL aclexplode(m.lomacl) a
+        WHERE a.grantee = $1
+    ';
+    -- Parameters have no owner, and superusers grant privileges on them as
+    -- the bootstrap superuser
+    IF current_setting('server_version_num')::integer >= 150000 THEN
+        grant_query := grant_query || '
+            UNION ALL
+            SELECT ''PARAMETER'', format(''%I'', p.parname), a.grantor, 10::oid, NULL
+            FROM pg_parameter_acl p CROSS JOIN LATERAL aclexplode(p.paracl) a
+            WHERE a.grantee = $1
+        ';
+    END IF;
+    FOR grant_row IN EXECUTE
+        'SELECT DISTINCT
+            acl.object_type,
+            acl.object_name,
+            grantor.rolname as grantor_name,
+            acl.grantor = acl.owner as owner_grant
+        FROM (' || grant_query || ') acl
+        JOIN pg_roles grantor ON grantor.oid = acl.grantor
+        WHERE
+            ($2::TEXT[] IS NULL OR acl.schema_name = ANY($2))
+            AND (
+                acl.schema_name IS NULL
+                OR acl.schema_name NOT IN (''pg_catalog'', ''information_schema'', ''pg_toast'')
+            )'
+        USING (SELECT oid FROM pg_roles WHERE rolname = username), managed_schemas
+    LOOP
+        BEGIN
+            IF grant_row.grantor_name = invoking_role
+                OR (invoking_superuser AND grant_row.owner_grant)
+            THEN
+                execute format(
+                    'REVOKE ALL PRIVILEGES ON %s %s FROM %I CASCADE',
+                    grant_row.object_type,
+                    grant_row.object_name,
+                    username
+                );
+            ELSIF pg_has_role(session_user, grant_row.grantor_name, set_privilege) THEN
+                execute format('SET LOCAL ROLE %I', grant_row.grantor_name);
+                execute format(
+                    'REVOKE ALL PRIVILEGES ON %s %s FROM %I CASCADE',
+                    grant_row.object_type,
+                    grant_row.object_name,
+                    username
+                );
+                execute format('SET LOCAL ROLE %I', invoking_role);
+            ELSE
+                RAISE WARNING 'Unable to revoke privileges on % % granted to % by %: permission denied to set role "%"',
+                    lower(grant_row.object_type),
+                    grant_row.object_name,
+                    username,
+                    grant_row.grantor_name,
+                    grant_row.grantor_name;
+            END IF;
+        EXCEPTION WHEN OTHERS THEN
+            RAISE WARNING 'Unable to revoke privileges on % % granted to % by %: %',
+                lower(grant_row.object_type),
+                grant_row.object_name,
+                username,
+                grant_row.grantor_name,
+                SQLERRM;
+        END;
+    END LOOP;
+    -- The grantor of column privileges may not hold any privileges on the
+    -- table itself, so they are revoked separately
+    FOR grant_row IN
+        SELECT
+            format('%I.%I', n.nspname, c.relname) as table_name,
+            string_agg(DISTINCT format('%I', att.attname), ', ') as column_names,
+            grantor.rolname as grantor_name,
+            a.grantor = c.relowner as owner_grant
+        FROM
+            pg_attribute att
+            JOIN pg_class c ON c.oid = att.attrelid
+            JOIN pg_namespace n ON n.oid = c.relnamespace
+            CROSS JOIN LATERAL aclexplode(att.attacl) a
+            JOIN pg_roles grantee ON grantee.oid = a.grantee
+            JOIN pg_roles grantor ON grantor.oid = a.grantor
+        WHERE
+            grantee.rolname = username
+            AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+            AND (managed_schemas IS NULL OR n.nspname = ANY(managed_schemas))
+        GROUP BY n.nspname, c.relname, grantor.rolname, a.grantor = c.relowner
+    LOOP
+        BEGIN
+            IF grant_row.grantor_name = invoking_role
+                OR (invoking_superuser AND grant_row.owner_grant)
+            THEN
+                execute format(
+                    'REVOKE ALL PRIVILEGES (%s) ON TABLE %s FROM %I CASCADE',
+                    grant_row.column_names,
+                    grant_row.table_name,
+                    username
+                );
+            ELSIF pg_has_role(session_user, grant_row.grantor_name, set_privilege) THEN
+                execute format('SET LOCAL ROLE %I', grant_row.grantor_name);
+                execute format(
+                    'REVOKE ALL PRIVILEGES (%s) ON TABLE %s FROM %I CASCADE',
+                    grant_row.column_names,
+                    grant_row.table_name,
+                    username
+                );
+                execute format('SET LOCAL ROLE %I', invoking_role);
+            ELSE
+                RAISE WARNING 'Unable to revoke privileges on columns (%) of table % granted to % by %: permission denied to set role "%"',
+                    grant_row.column_names,
+                    grant_row.table_name,
+                    username,
+                    grant_row.grantor_name,
+                    grant_row.grantor_name;
+            END IF;
+        EXCEPTION WHEN OTHERS THEN
+            RAISE WARNING 'Unable to revoke privileges on columns (%) of table % granted to % by %: %',
+                grant_row.column_names,
+                grant_row.table_name,
+                username,
+                grant_row.grantor_name,
+                SQLERRM;
+        END;
+    END LOOP;
+end;
@@ -0,0 +1,153 @@
+import assert from "node:assert";
+import { after, before, describe, it } from "node:test";
+import { checkPermissions, compileQuery } from "../src/api.js";
+import {
+  TestEnv,
+  createEnv,
+  dbNameGenerator,
+  rulesFile,
+  userNameGenerator,
+} from "./utils.js";
+
+describe(checkPermissions.name, async () => {
+  for (const incremental of [false, true]) {
+    const mode = incremental ? "incremental" : "full";
+
+    await describe(mode, async () => {
+      const user1 = userNameGenerator();
+      const user2 = userNameGenerator();
+      const db = dbNameGenerator();
+      const args = {
+        paths: [rulesFile("basic-1")],
+        vars: { user1, user2 },
+      };
+
+      let env: TestEnv;
+
+      before(async () => {
+        env = await createEnv("basic", db, { user1, user2 });
+      });
+
+      after(async () => {
+        await env.teardown();
+      });
+
+      await it("reports missing permissions", async () => {
+        const result = await checkPermissions({
+          backend: env.backend,
+          ...args,
+        });
+        assert.equal(result.type, "success");
+        if (result.type !== "success") {
+          return;
+        }
+
+        const types = new Set(result.changes.map((change) => change.type));
+        assert.deepEqual(types, new Set(["grant", "create-policy"]));
+      });
+
+      await it("reports no changes once applied", async () => {
+        const query = await compileQuery({
+          backend: env.backend,
+          incremental,
+          ...args,
+        });
+        assert.equal(query.type, "success");
+        if (query.type !== "success") {
+          return;
+        }
+        await env.client.query(query.query);
+
+        const result = await checkPermissions({
+          backend: env.backend,
+          ...args,
+        });
+        assert.deepEqual(result, { type: "success", changes: [] });
+      });
+
+      await it("reports extra grants", async () => {
+        await env.client.query(`GRANT TRUNCATE ON test.articles TO ${user1}`);
+
+        const result = await checkPermissions({
+          backend: env.backend,
+          ...args,
+        });
+        assert.equal(result.type, "success");
+        if (result.type !== "success") {
+          return;
+        }
+
+        assert.equal(result.changes.length, 1);
+        assert.equal(result.changes[0]?.type, "revoke");
+      });
+
+      await it("reports extra default privileges", async () => {
+        await env.client.query(`
+          REVOKE TRUNCATE ON test.articles FROM ${user1};
+          ALTER DEFAULT PRIVILEGES IN SCHEMA test
+            GRANT SELECT ON TABLES TO ${user1};
+        `);
+
+        const result = await checkPermissions({
+          backend: env.backend,
+          ...args,
+        });
+        assert.equal(result.type, "success");
+        if (result.type !== "success") {
+          return;
+        }
+
+        assert.equal(result.changes.length, 1);
+        assert.equal(result.changes[0]?.type, "revoke");
+        assert.ok(
+          result.changes[0]?.description.startsWith(
+            "default privilege SELECT ON TABLES",
+          ),
+        );
+      });
+
+      await it("reports extra memberships", async () => {
+        await env.client.query(`
+          ALTER DEFAULT PRIVILEGES IN SCHEMA test
+            REVOKE SELECT ON TABLES FROM ${user1};
+          GRANT pg_monitor TO ${user1};
+        `);
+
+        const result = await checkPermissions({
+          backend: env.backend,
+          ...args,
+        });
+        assert.equal(result.type, "success");
+        if (result.type !== "success") {
+          return;
+        }
+
+        assert.deepEqual(
+          result.changes.map((change) => [change.type, change.description]),
+          [["revoke", `"pg_monitor" FROM "${user1}"`]],
+        );
+      });
+
+      await it("reports extra settings", async () => {
+        await env.client.query(`
+          REVOKE pg_monitor FROM ${user1};
+          ALTER ROLE ${user1} SET work_mem TO '64MB';
+        `);
+
+        const result = await checkPermissions({
+          backend: env.backend,
+          ...args,
+        });
+        assert.equal(result.type, "success");
+        if (result.type !== "success") {
+          return;
+        }
+
+        assert.deepEqual(
+          result.changes.map((change) => [change.type, change.description]),
+          [["reset-setting", `"${user1}" RESET work_mem`]],
+        );
+      });
+    });
+  }
+});
@@ -0,0 +1,357 @@
+import assert from "node:assert";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { compileQuery } from "../src/api.js";
+import { DdlBackend, DdlError, listDdlFiles, parseDdl } from "../src/ddl.js";
+import { createPlan } from "../src/plan.js";
+import {
+  TestEnv,
+  createEnv,
+  dbNameGenerator,
+  loadEnv,
+  rootUser,
+  rulesFile,
+  userNameGenerator,
+} from "./utils.js";
+
+describe(parseDdl.name, async () => {
+  await it("applies migrations in order", () => {
+    const entities = parseDdl([
+      {
+        file: "001_init.sql",
+        content: `
+          CREATE DATABASE blog;
+          CREATE TABLESPACE archive LOCATION '/mnt/archive';
+          CREATE LANGUAGE plsample HANDLER plsample_call_handler;
+          CREATE SCHEMA app AUTHORIZATION bob;
+          CREATE TABLE app.articles (
+            id SERIAL PRIMARY KEY,
+            title VARCHAR(255) NOT NULL,
+            "Body" TEXT,
+            CONSTRAINT title_unique UNIQUE (title)
+          );
+          CREATE TABLE app.drafts (LIKE app.articles);
+          CREATE TYPE app.status AS ENUM ('draft', 'published');
+          CREATE ROLE readers;
+          CREATE USER bob WITH PASSWORD 'secret' IN ROLE readers;
+        `,
+      },
+      {
+        file: "002_changes.sql",
+        content: `
+          SET search_path TO app;
+          ALTER TABLE articles RENAME COLUMN title TO headline,
+            ADD COLUMN author_id int;
+          ALTER TABLE articles ENABLE ROW LEVEL SECURITY;
+          ALTER DATABASE blog RENAME TO articles;
+          ALTER TABLESPACE archive RENAME TO cold;
+          ALTER TYPE status RENAME TO article_status;
+          CREATE DOMAIN email AS TEXT CHECK (VALUE LIKE '%@%');
+          DROP TABLE drafts;
+          CREATE VIEW article_titles AS SELECT headline FROM articles;
+          CREATE MATERIALIZED VIEW article_counts AS
+            SELECT author_id, count(*) FROM articles GROUP BY author_id
+            WITH NO DATA;
+          ALTER MATERIALIZED VIEW article_counts RENAME TO author_counts;
+          CREATE FUNCTION is_owner(id int) RETURNS boolean
+            LANGUAGE sql AS $$ SELECT true; $$;
+          CREATE FUNCTION is_owner(IN id int8, names varchar(20)[] DEFAULT '{}',
+            OUT result boolean) LANGUAGE sql AS $$ SELECT true; $$;
+          ALTER FUNCTION is_owner(bigint, character varying[])
+            RENAME TO owns_article;
+          CREATE AGGREGATE word_count(text) (SFUNC = textcat, STYPE = text);
+          CREATE AGGREGATE legacy_count (BASETYPE = ANY, SFUNC = int8inc,
+            STYPE = int8);
+          DROP AGGREGATE legacy_count(*);
+          CREATE FUNCTION row_rank() RETURNS bigint WINDOW LANGUAGE internal
+            AS 'window_rank';
+          CREATE PROCEDURE archive() BEGIN ATOMIC
+            UPDATE articles SET headline = 'x';
+          END;
+          CREATE POLICY readers_select ON articles AS RESTRICTIVE FOR SELECT
+            TO readers USING (author_id = 1);
+          CREATE GROUP writers;
+          GRANT writers TO bob;
+          GRANT SELECT ON articles TO bob;
+          ALTER ROLE bob WITH CONNECTION LIMIT 3 VALID UNTIL '2030-01-01'
+            CREATEDB;
+        `,
+      },
+    ]);
+
+    assert.deepEqual(entities.schemas, [
+      { type: "schema", name: "public" },
+      { type: "schema", name: "app", owner: "bob" },
+    ]);
+    assert.deepEqual(entities.databases, [
+      { type: "database", name: "articles" },
+    ]);
+    assert.deepEqual(entities.tablespaces, [
+      { type: "tablespace", name: "pg_default" },
+      { type: "tablespace", name: "cold" },
+    ]);
+    assert.deepEqual(entities.languages, [
+      { type: "language", name: "sql" },
+      { type: "language", name: "plpgsql" },
+    ]);
+    assert.deepEqual(entities.tables, [
+      {
+        type: "table-metadata",
+        table: { type: "table", schema: "app", name: "articles" },
+        rlsEnabled: true,
+        columns: ["id", "headline", "Body", "author_id"],
+        partitionOf: null,
+      },
+    ]);
+    assert.deepEqual(entities.sequences, [
+      { type: "sequence", schema: "app", name: "articles_id_seq" },
+    ]);
+    assert.deepEqual(entities.views, [
+      { type: "view", schema: "app", name: "article_titles" },
+    ]);
+    assert.deepEqual(entities.materializedViews, [
+      { type: "materialized-view", schema: "app", name: "author_counts" },
+    ]);
+    assert.deepEqual(entities.types, [
+      { type: "type", schema: "app", name: "article_status" },
+    ]);
+    assert.deepEqual(entities.domains, [
+      { type: "domain", schema: "app", name: "email" },
+    ]);
+    assert.deepEqual(entities.functions, [
+      {
+        type: "function",
+        schema: "app",
+        name: "is_owner",
+        args: ["integer"],
+        builtin: false,
+      },
+      {
+        type: "function",
+        schema: "app",
+        name: "owns_article",
+        args: ["bigint", "character varying[]"],
+        builtin: false,
+      },
+    ]);
+    assert.deepEqual(entities.procedures, [
+      {
+        type: "procedure",
+        schema: "app",
+        name: "archive",
+        args: [],
+        builtin: false,
+      },
+    ]);
+    assert.deepEqual(entities.aggregates, [
+      { type: "aggregate", schema: "app", name: "word_count", args: ["text"] },
+      { type: "aggregate", schema: "app", name: "row_rank", args: [] },
+    ]);
+    assert.deepEqual(entities.users, [{ type: "user", name: "bob" }]);
+    assert.deepEqual(
+      entities.roles.find((role) => role.name === "bob"),
+      {
+        type: "role",
+        name: "bob",
+        superuser: false,
+        login: true,
+        connectionLimit: 3,
+        validUntil: "2030-01-01T00:00:00.000Z",
+        bypassRls: false,
+        createDb: true,
+      },
+    );
+    assert.deepEqual(
+      entities.groups.map((group) => [
+        group.name,
+        group.users.map((user) => user.name),
+      ]),
+      [
+        ["readers", ["bob"]],
+        ["writers", ["bob"]],
+      ],
+    );
+    assert.equal(entities.rlsPolicies.length, 1);
+    assert.equal(entities.rlsPolicies[0]?.permissive, "RESTRICTIVE");
+    assert.deepEqual(entities.rlsPolicies[0]?.privileges, new Set(["SELECT"]));
+    assert.equal(entities.rlsPolicies[0]?.using, "author_id = 1");
+    assert.deepEqual(entities.grants, []);
+  });
+
+  await it("reads schema dumps", () => {
+    const entities = parseDdl([
+      {
+        file: "dump.sql",
+        content: `
+          \\restrict abc123
+          SELECT pg_catalog.set_config('search_path', '', false);
+          CREATE TABLE public.orders (
+              id integer NOT NULL,
+              total numeric
+          );
+          ALTER TABLE public.orders OWNER TO postgres;
+          ALTER TABLE public.orders ALTER COLUMN id ADD GENERATED ALWAYS AS IDENTITY (
+              SEQUENCE NAME public.orders_id_seq
+              START WITH 1
+          );
+          CREATE SEQUENCE public.invoice_seq;
+          ALTER SEQUENCE public.invoice_seq OWNED BY public.orders.total;
+          /* dropping the table drops its sequences */
+          DROP TABLE public.orders;
+          \\unrestrict abc123
+        `,
+      },
+    ]);
+    assert.deepEqual(entities.tables, []);
+    assert.deepEqual(entities.sequences, []);
+  });
+
+  await it("tracks partitions", () => {
+    const entities = parseDdl([
+      {
+        file: "partitions.sql",
+        content: `
+          CREATE TABLE events (id int, created_at date)
+            PARTITION BY RANGE (created_at);
+          CREATE TABLE events_2024_01 PARTITION OF events
+            FOR VALUES FROM ('2024-01-01') TO ('2024-02-01');
+          CREATE TABLE events_2024_02 (LIKE events);
+          ALTER TABLE events ATTACH PARTITION events_2024_02
+            FOR VALUES FROM ('2024-02-01') TO ('2024-03-01');
+          ALTER TABLE events DETACH PARTITION events_2024_01;
+          ALTER TABLE events RENAME TO all_events;
+          CREATE TABLE logs (id int) PARTITION BY HASH (id);
+          CREATE TABLE logs_0 PARTITION OF logs
+            FOR VALUES WITH (MODULUS 1, REMAINDER 0);
+          DROP TABLE logs;
+        `,
+      },
+    ]);
+    assert.deepEqual(
+      entities.tables.map((table) => [table.table.name, table.partitionOf]),
+      [
+        ["events_2024_01", null],
+        [
+          "events_2024_02",
+          { type: "table", schema: "public", name: "all_events" },
+        ],
+        ["all_events", null],
+      ],
+    );
+  });
+
+  await it("reads foreign data wrappers, servers and tables", () => {
+    const entities = parseDdl([
+      {
+        file: "fdw.sql",
+        content: `
+          CREATE FOREIGN DATA WRAPPER legacy_fdw;
+          CREATE SERVER IF NOT EXISTS legacy FOREIGN DATA WRAPPER legacy_fdw
+            OPTIONS (host 'legacy.internal', dbname 'app');
+          CREATE USER MAPPING FOR CURRENT_USER SERVER legacy;
+          CREATE FOREIGN TABLE public.accounts (
+            id integer NOT NULL,
+            email text OPTIONS (column_name 'mail')
+          ) SERVER legacy;
+          ALTER FOREIGN TABLE accounts RENAME COLUMN email TO address,
+            ADD COLUMN created_at timestamp;
+          ALTER SERVER legacy RENAME TO legacy_db;
+        `,
+      },
+    ]);
+    assert.deepEqual(entities.foreignDataWrappers, [
+      { type: "foreign-data-wrapper", name: "legacy_fdw" },
+    ]);
+    assert.deepEqual(entities.foreignServers, [
+      { type: "foreign-server", name: "legacy_db" },
+    ]);
+    assert.deepEqual(entities.foreignTables, [
+      {
+        type: "foreign-table-metadata",
+        table: { type: "foreign-table", schema: "public", name: "accounts" },
+        columns: ["id", "address", "created_at"],
+      },
+    ]);
+    assert.deepEqual(entities.users, []);
+  });
+
+  await it("reports the location of invalid statements", () => {
+    assert.throws(
+      () =>
+        parseDdl([
+          {
+            file: "bad.sql",
+            content: "CREATE SCHEMA app;\n\nCREATE POLICY p ON app.t BLAH;",
+          },
+        ]),
+      (error) =>
+        error instanceof DdlError && error.message.startsWith("bad.sql:3:"),
+    );
+  });
+});
+
+describe(DdlBackend.name, async () => {
+  const user1 = userNameGenerator();
+  const user2 = userNameGenerator();
+  const db = dbNameGenerator();
+
+  let env: TestEnv;
+  let tmpDir: string;
+
+  before(async () => {
+    env = await createEnv("basic", db, { user1, user2 });
+    tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "sqlauthz-"));
+    const [setup] = await loadEnv("basic", { user1, user2 });
+    await fs.promises.writeFile(
+      path.join(tmpDir, "2_schema.sql"),
+      `CREATE SCHEMA test AUTHORIZATION ${rootUser};`,
+    );
+    await fs.promises.writeFile(
+      path.join(tmpDir, "10_setup.sql"),
+      setup.replace("CREATE SCHEMA test;", ""),
+    );
+  });
+
+  after(async () => {
+    await env.teardown();
+    await fs.promises.rm(tmpDir, { recursive: true });
+  });
+
+  await it("orders migration files by name", async () => {
+    const files = await listDdlFiles([tmpDir]);
+    assert.deepEqual(
+      files.map((file) => path.basename(file)),
+      ["2_schema.sql", "10_setup.sql"],
+    );
+  });
+
+  await it("compiles the same queries as the database", async () => {
+    const args = {
+      paths: [rulesFile("basic-1")],
+      vars: { user1, user2 },
+      includeSetupAndTeardown: false,
+      includeTransaction: false,
+    };
+    const offline = await compileQuery({
+      backend: new DdlBackend([tmpDir]),
+      ...args,
+    });
+    const online = await compileQuery({ backend: env.backend, ...args });
+    assert.equal(offline.type, "success");
+    assert.deepEqual(offline, online);
+  });
+
+  await it("can't create plans", async () => {
+    const result = await createPlan({
+      backend: new DdlBackend([tmpDir]),
+      paths: [rulesFile("basic-1")],
+      vars: { user1, user2 },
+    });
+    assert.deepEqual(result, {
+      type: "error",
+      errors: ["Plans can only be created from a database or a snapshot"],
+    });
+  });
+});
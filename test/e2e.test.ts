@@ -1,18 +1,35 @@
 import assert from "node:assert";
 import { after, before, describe, it } from "node:test";
+import pg from "pg";
+import { compileQuery } from "../src/api.js";
+import { PostgresBackend } from "../src/pg-backend.js";
 import {
+  TestEnv,
+  createEnv,
   dbClientGenerator,
   dbNameGenerator,
   dbUrl,
+  rootPassword,
+  rootUser,
+  rulesFile,
   setupEnv as rawSetupEnv,
   userNameGenerator,
 } from "./utils.js";
 
-for (const iterations of [1, 3]) {
+const modes = [
+  { iterations: 1, incremental: false },
+  { iterations: 3, incremental: false },
+  { iterations: 1, incremental: true },
+  { iterations: 3, incremental: true },
+];
+
+for (const { iterations, incremental } of modes) {
   const setupEnv: typeof rawSetupEnv = (env, rules, db, vars, opts) =>
-    rawSetupEnv(env, rules, db, vars, opts, iterations);
+    rawSetupEnv(env, rules, db, vars, { incremental, ...opts }, iterations);
+
+  const mode = incremental ? "incremental" : "full";
 
-  describe(`${iterations}: all tests`, () => {
+  describe(`${iterations}, ${mode}: all tests`, () => {
     for (const tests of ["basic-1", "basic-3"]) {
       describe(tests, async () => {
         const user1 = userNameGenerator();
@@ -211,6 +228,49 @@ for (const iterations of [1, 3]) {
       });
     });
 
+    describe("test-default-privileges-1", async () => {
+      const user1 = userNameGenerator();
+      const user2 = userNameGenerator();
+      const db = dbNameGenerator();
+      const useRootClient = dbClientGenerator(
+        dbUrl(rootUser, rootPassword, db),
+      );
+      const useClient1 = dbClientGenerator(dbUrl(user1, "blah", db));
+      const useClient2 = dbClientGenerator(dbUrl(user2, "blah", db));
+
+      let teardown: () => Promise<void> = async () => {};
+
+      before(async () => {
+        teardown = await setupEnv("basic", "default-privileges-1", db, {
+          user1,
+          user2,
+        });
+        await useRootClient(async (client) => {
+          await client.query("CREATE TABLE test.created_later (id INT)");
+        });
+      });
+
+      after(async () => {
+        await teardown();
+      });
+
+      await it("user1: can access tables created later", async () => {
+        await useClient1(async (client) => {
+          const result = await client.query("SELECT * FROM test.created_later");
+          assert.equal(result.rowCount, 0);
+        });
+      });
+
+      await it("user2: cannot access tables created later", async () => {
+        await useClient2(async (client) => {
+          await assert.rejects(
+            client.query("SELECT * FROM test.created_later"),
+            { message: "permission denied for table created_later" },
+          );
+        });
+      });
+    });
+
     describe("test-basic-8", async () => {
       const user1 = userNameGenerator();
       const user2 = userNameGenerator();
@@ -547,6 +607,95 @@ for (const iterations of [1, 3]) {
       }
     });
 
+    describe("test-member-1", async () => {
+      const user1 = userNameGenerator();
+      const user2 = userNameGenerator();
+      const user3 = userNameGenerator();
+      const db = dbNameGenerator();
+      const useClient1 = dbClientGenerator(dbUrl(user1, "blah", db));
+      const useClient2 = dbClientGenerator(dbUrl(user2, "blah", db));
+
+      let teardown: () => Promise<void> = async () => {};
+
+      before(async () => {
+        teardown = await setupEnv("group", "member-1", db, {
+          user1,
+          user2,
+          user3,
+        });
+      });
+
+      after(async () => {
+        await teardown();
+      });
+
+      await it("user1: can access test.articles", async () => {
+        await useClient1(async (client) => {
+          const result = await client.query("SELECT * FROM test.articles");
+          assert.equal(result.rowCount, 12);
+        });
+      });
+
+      await it("user2: cannot access test.articles", async () => {
+        await useClient2(async (client) => {
+          await assert.rejects(client.query("SELECT * FROM test.articles"), {
+            message: "permission denied for schema test",
+          });
+        });
+      });
+
+      await it("user2: can access test.articles as pg_read_all_data", async () => {
+        await useClient2(async (client) => {
+          await client.query("SET ROLE pg_read_all_data");
+          const result = await client.query("SELECT * FROM test.articles");
+          assert.equal(result.rowCount, 12);
+        });
+      });
+    });
+
+    describe("test-setting-1", async () => {
+      const user1 = userNameGenerator();
+      const user2 = userNameGenerator();
+      const db = dbNameGenerator();
+      const useClient1 = dbClientGenerator(dbUrl(user1, "blah", db));
+      const useClient2 = dbClientGenerator(dbUrl(user2, "blah", db));
+
+      let teardown: () => Promise<void> = async () => {};
+
+      before(async () => {
+        teardown = await setupEnv("basic", "setting-1", db, {
+          user1,
+          user2,
+          db,
+        });
+      });
+
+      after(async () => {
+        await teardown();
+      });
+
+      await it("user1: uses the search path and settings", async () => {
+        await useClient1(async (client) => {
+          const result = await client.query("SELECT * FROM articles");
+          assert.equal(result.rowCount, 12);
+          const settings = await client.query(
+            "SELECT current_setting('statement_timeout') as timeout, " +
+              "current_setting('app.tenant_id') as tenant",
+          );
+          assert.deepEqual(settings.rows, [{ timeout: "5s", tenant: "acme" }]);
+        });
+      });
+
+      await it("user2: uses custom settings", async () => {
+        await useClient2(async (client) => {
+          const result = await client.query(
+            "SELECT current_setting('app.tenant_id') as tenant",
+          );
+          assert.deepEqual(result.rows, [{ tenant: "acme" }]);
+        });
+      });
+    });
+
     for (const rules of ["view-1", "view-2"]) {
       describe(`test-${rules}`, async () => {
         const user1 = userNameGenerator();
@@ -609,18 +758,393 @@ for (const iterations of [1, 3]) {
           });
         });
 
-        await it("user1: should not be able to access test.author_a_articles", async () => {
-          await useClient(async (client) => {
-            await assert.rejects(
-              client.query("SELECT * FROM test.author_a_articles"),
-              {
-                message: "permission denied for view author_a_articles",
-              },
-            );
-          });
+        await it("user1: should not be able to access test.author_a_articles", async () => {
+          await useClient(async (client) => {
+            await assert.rejects(
+              client.query("SELECT * FROM test.author_a_articles"),
+              {
+                message: "permission denied for view author_a_articles",
+              },
+            );
+          });
+        });
+      });
+    }
+
+    for (const rules of ["materialized-view-1", "materialized-view-2"]) {
+      describe(`test-${rules}`, async () => {
+        const user1 = userNameGenerator();
+        const db = dbNameGenerator();
+        const useClient = dbClientGenerator(dbUrl(user1, "blah", db));
+
+        let teardown: () => Promise<void> = async () => {};
+
+        before(async () => {
+          teardown = await setupEnv("materialized-view", rules, db, {
+            user1,
+          });
+        });
+
+        after(async () => {
+          await teardown();
+        });
+
+        await it("user1: should be able to access test.article_counts", async () => {
+          await useClient(async (client) => {
+            const result = await client.query(
+              "SELECT * FROM test.article_counts",
+            );
+            assert.equal(result.rowCount, 3);
+          });
+        });
+
+        await it("user1: should not be able to access test.articles", async () => {
+          await useClient(async (client) => {
+            await assert.rejects(client.query("SELECT * FROM test.articles"), {
+              message: "permission denied for table articles",
+            });
+          });
+        });
+
+        await it("user1: should not be able to access test.author_a_articles", async () => {
+          await useClient(async (client) => {
+            await assert.rejects(
+              client.query("SELECT * FROM test.author_a_articles"),
+              {
+                message: "permission denied for view author_a_articles",
+              },
+            );
+          });
+        });
+      });
+    }
+
+    describe("test-foreign-data-1", async () => {
+      const user1 = userNameGenerator();
+      const db = dbNameGenerator();
+      const useClient = dbClientGenerator(dbUrl(user1, "blah", db));
+
+      let teardown: () => Promise<void> = async () => {};
+
+      before(async () => {
+        teardown = await setupEnv("foreign-data", "foreign-data-1", db, {
+          user1,
+        });
+      });
+
+      after(async () => {
+        await teardown();
+      });
+
+      await it("user1: should be able to use legacy_fdw and legacy", async () => {
+        await useClient(async (client) => {
+          const result = await client.query(
+            `
+              SELECT
+                has_foreign_data_wrapper_privilege('legacy_fdw', 'USAGE') as "fdw",
+                has_server_privilege('legacy', 'USAGE') as "legacy",
+                has_server_privilege('archive', 'USAGE') as "archive"
+            `,
+          );
+          assert.deepEqual(result.rows, [
+            { fdw: true, legacy: true, archive: false },
+          ]);
+        });
+      });
+
+      await it("user1: should be able to select some columns of test.accounts", async () => {
+        await useClient(async (client) => {
+          const result = await client.query(
+            `
+              SELECT
+                has_table_privilege('test.accounts', 'SELECT') as "table",
+                has_column_privilege('test.accounts', 'email', 'SELECT') as "email",
+                has_column_privilege('test.accounts', 'password', 'SELECT') as "password"
+            `,
+          );
+          assert.deepEqual(result.rows, [
+            { table: false, email: true, password: false },
+          ]);
+        });
+      });
+
+      await it("user1: should be able to select from and insert into test.orders", async () => {
+        await useClient(async (client) => {
+          const result = await client.query(
+            `
+              SELECT
+                has_table_privilege('test.orders', 'SELECT') as "select",
+                has_table_privilege('test.orders', 'INSERT') as "insert",
+                has_table_privilege('test.orders', 'DELETE') as "delete"
+            `,
+          );
+          assert.deepEqual(result.rows, [
+            { select: true, insert: true, delete: false },
+          ]);
+        });
+      });
+    });
+
+    describe("test-parameters-1", async () => {
+      const user1 = userNameGenerator();
+      const db = dbNameGenerator();
+      const useClient = dbClientGenerator(dbUrl(user1, "blah", db));
+
+      let teardown: () => Promise<void> = async () => {};
+
+      before(async () => {
+        teardown = await setupEnv("parameters", "parameters-1", db, {
+          user1,
+        });
+      });
+
+      after(async () => {
+        await teardown();
+      });
+
+      await it("user1: should be able to set log_min_duration_statement", async () => {
+        await useClient(async (client) => {
+          await client.query("SET log_min_duration_statement = 100");
+        });
+      });
+
+      await it("user1: should not be able to set log_statement", async () => {
+        await useClient(async (client) => {
+          await assert.rejects(client.query("SET log_statement = 'all'"), {
+            message: 'permission denied to set parameter "log_statement"',
+          });
+        });
+      });
+    });
+
+    describe("test-parameters-2", async () => {
+      const user1 = userNameGenerator();
+      const db = dbNameGenerator();
+      const useClient = dbClientGenerator(dbUrl(user1, "blah", db));
+
+      let teardown: () => Promise<void> = async () => {};
+
+      before(async () => {
+        teardown = await setupEnv("parameters", "parameters-2", db, {
+          user1,
+        });
+      });
+
+      after(async () => {
+        await teardown();
+      });
+
+      await it("user1: should not be granted parameters by a wildcard", async () => {
+        await useClient(async (client) => {
+          const result = await client.query(
+            `
+              SELECT
+                has_parameter_privilege('log_min_duration_statement', 'SET') as "set",
+                has_parameter_privilege('log_min_duration_statement', 'ALTER SYSTEM') as "alterSystem"
+            `,
+          );
+          assert.deepEqual(result.rows, [{ set: false, alterSystem: false }]);
+        });
+      });
+    });
+
+    describe("test-misc-objects-1", async () => {
+      const user1 = userNameGenerator();
+      const db = dbNameGenerator();
+      const useClient = dbClientGenerator(dbUrl(user1, "blah", db));
+
+      let teardown: () => Promise<void> = async () => {};
+
+      before(async () => {
+        teardown = await setupEnv("misc-objects", "misc-objects-1", db, {
+          user1,
+        });
+      });
+
+      after(async () => {
+        await teardown();
+      });
+
+      await it("user1: should be able to create in pg_default and use plpgsql", async () => {
+        await useClient(async (client) => {
+          const result = await client.query(
+            `
+              SELECT
+                has_tablespace_privilege('pg_default', 'CREATE') as "tablespace",
+                has_language_privilege('plpgsql', 'USAGE') as "language"
+            `,
+          );
+          assert.deepEqual(result.rows, [{ tablespace: true, language: true }]);
+        });
+      });
+
+      await it("user1: should only be able to read large object 4242", async () => {
+        await useClient(async (client) => {
+          await client.query("SELECT lo_get(4242)");
+          await assert.rejects(client.query("SELECT lo_get(4243)"), {
+            message: "permission denied for large object 4243",
+          });
+        });
+      });
+    });
+
+    describe("test-misc-objects-2", async () => {
+      const user1 = userNameGenerator();
+      const db = dbNameGenerator();
+      const useClient = dbClientGenerator(dbUrl(user1, "blah", db));
+
+      let teardown: () => Promise<void> = async () => {};
+
+      before(async () => {
+        teardown = await setupEnv("misc-objects", "misc-objects-2", db, {
+          user1,
+        });
+      });
+
+      after(async () => {
+        await teardown();
+      });
+
+      await it("user1: should not be granted tablespaces by a wildcard", async () => {
+        await useClient(async (client) => {
+          const result = await client.query(
+            `
+              SELECT
+                has_tablespace_privilege('pg_default', 'CREATE') as "tablespace"
+            `,
+          );
+          assert.deepEqual(result.rows, [{ tablespace: false }]);
+        });
+      });
+    });
+
+    describe("test-types-1", async () => {
+      const user1 = userNameGenerator();
+      const db = dbNameGenerator();
+      const useClient = dbClientGenerator(dbUrl(user1, "blah", db));
+
+      let teardown: () => Promise<void> = async () => {};
+
+      before(async () => {
+        teardown = await setupEnv("types", "types-1", db, { user1 });
+      });
+
+      after(async () => {
+        await teardown();
+      });
+
+      await it("user1: should be able to use types in test", async () => {
+        await useClient(async (client) => {
+          const result = await client.query(
+            `
+              SELECT
+                has_type_privilege('test.mood', 'USAGE') as "mood",
+                has_type_privilege('test.point2', 'USAGE') as "point2",
+                has_type_privilege('test.floatrange', 'USAGE') as "floatrange",
+                has_type_privilege('test.floatmultirange', 'USAGE')
+                  as "floatmultirange"
+            `,
+          );
+          assert.deepEqual(result.rows, [
+            {
+              mood: true,
+              point2: true,
+              floatrange: true,
+              floatmultirange: true,
+            },
+          ]);
+        });
+      });
+
+      await it("user1: should only be able to use test.email", async () => {
+        await useClient(async (client) => {
+          const result = await client.query(
+            `
+              SELECT
+                has_type_privilege('test.email', 'USAGE') as "email",
+                has_type_privilege('test.positive', 'USAGE') as "positive"
+            `,
+          );
+          assert.deepEqual(result.rows, [{ email: true, positive: false }]);
+        });
+      });
+    });
+
+    describe("test-database-1", async () => {
+      const user1 = userNameGenerator();
+      const user2 = userNameGenerator();
+      const db = dbNameGenerator();
+      const useClient1 = dbClientGenerator(dbUrl(user1, "blah", db));
+      const useClient2 = dbClientGenerator(dbUrl(user2, "blah", db));
+
+      let teardown: () => Promise<void> = async () => {};
+
+      before(async () => {
+        teardown = await setupEnv("database", "database-1", db, {
+          user1,
+          user2,
+        });
+      });
+
+      after(async () => {
+        await teardown();
+      });
+
+      await it("user1: should be able to connect and create temporary tables", async () => {
+        await useClient1(async (client) => {
+          await client.query("CREATE TEMPORARY TABLE scratch (id INTEGER)");
+          const result = await client.query(
+            "SELECT has_database_privilege(current_database(), 'CREATE') as \"create\"",
+          );
+          assert.deepEqual(result.rows, [{ create: false }]);
+        });
+      });
+
+      await it("user2: should not be able to connect", async () => {
+        await assert.rejects(
+          useClient2(async () => {}),
+          { message: `permission denied for database "${db}"` },
+        );
+      });
+    });
+
+    describe("test-database-2", async () => {
+      const user1 = userNameGenerator();
+      const user2 = userNameGenerator();
+      const db = dbNameGenerator();
+      const useRootClient = dbClientGenerator(
+        dbUrl(rootUser, rootPassword, db),
+      );
+
+      let teardown: () => Promise<void> = async () => {};
+
+      before(async () => {
+        teardown = await setupEnv("database", "database-2", db, {
+          user1,
+          user2,
+        });
+      });
+
+      after(async () => {
+        await teardown();
+      });
+
+      await it("user1: should not be granted the database by a wildcard", async () => {
+        await useRootClient(async (client) => {
+          const result = await client.query(
+            `
+              SELECT
+                has_database_privilege($1, current_database(), 'CONNECT')
+                  as "connect",
+                has_database_privilege($1, current_database(), 'CREATE')
+                  as "create"
+            `,
+            [user1],
+          );
+          assert.deepEqual(result.rows, [{ connect: false, create: false }]);
         });
       });
-    }
+    });
 
     for (const rules of [
       "functions-and-procedures-1",
@@ -674,6 +1198,9 @@ for (const iterations of [1, 3]) {
         const user1 = userNameGenerator();
         const db = dbNameGenerator();
         const useClient = dbClientGenerator(dbUrl(user1, "blah", db));
+        const useRootClient = dbClientGenerator(
+          dbUrl(rootUser, rootPassword, db),
+        );
 
         let teardown: () => Promise<void> = async () => {};
 
@@ -681,6 +1208,11 @@ for (const iterations of [1, 3]) {
           teardown = await setupEnv("functions-and-procedures", rules, db, {
             user1,
           });
+          await useRootClient(async (client) => {
+            await client.query(
+              "CREATE FUNCTION test.created_later() RETURNS INT AS $$ SELECT 1 $$ LANGUAGE SQL",
+            );
+          });
         });
 
         after(async () => {
@@ -695,6 +1227,14 @@ for (const iterations of [1, 3]) {
           });
         });
 
+        await it("user1: cannot access functions created later", async () => {
+          await useClient(async (client) => {
+            await assert.rejects(client.query("SELECT test.created_later()"), {
+              message: "permission denied for function created_later",
+            });
+          });
+        });
+
         await it("user1: can access test.insert_articles", async () => {
           await useClient(async (client) => {
             const result = await client.query(
@@ -706,6 +1246,82 @@ for (const iterations of [1, 3]) {
       });
     }
 
+    describe("test-functions-and-procedures-5", async () => {
+      const user1 = userNameGenerator();
+      const db = dbNameGenerator();
+      const useClient = dbClientGenerator(dbUrl(user1, "blah", db));
+
+      let teardown: () => Promise<void> = async () => {};
+
+      before(async () => {
+        teardown = await setupEnv(
+          "functions-and-procedures",
+          "functions-and-procedures-5",
+          db,
+          { user1 },
+        );
+      });
+
+      after(async () => {
+        await teardown();
+      });
+
+      await it("user1: can access test.test_func(integer)", async () => {
+        await useClient(async (client) => {
+          const result = await client.query<{ r: number }>(
+            "SELECT test.test_func(2) as r",
+          );
+          assert.equal(result.rows[0]?.r, 2);
+        });
+      });
+
+      await it("user1: cannot access test.test_func()", async () => {
+        await useClient(async (client) => {
+          await assert.rejects(client.query("SELECT test.test_func()"), {
+            message: "permission denied for function test_func",
+          });
+        });
+      });
+    });
+
+    describe("test-functions-and-procedures-6", async () => {
+      const user1 = userNameGenerator();
+      const db = dbNameGenerator();
+      const useClient = dbClientGenerator(dbUrl(user1, "blah", db));
+
+      let teardown: () => Promise<void> = async () => {};
+
+      before(async () => {
+        teardown = await setupEnv(
+          "functions-and-procedures",
+          "functions-and-procedures-6",
+          db,
+          { user1 },
+        );
+      });
+
+      after(async () => {
+        await teardown();
+      });
+
+      await it("user1: can access test.total", async () => {
+        await useClient(async (client) => {
+          const result = await client.query<{ r: number }>(
+            "SELECT test.total(value) as r FROM (VALUES (1), (2)) v(value)",
+          );
+          assert.equal(result.rows[0]?.r, 3);
+        });
+      });
+
+      await it("user1: cannot access test.test_func", async () => {
+        await useClient(async (client) => {
+          await assert.rejects(client.query("SELECT test.test_func()"), {
+            message: "permission denied for function test_func",
+          });
+        });
+      });
+    });
+
     for (const rules of ["sequence-1", "sequence-2"]) {
       describe(`test-${rules}`, async () => {
         const user1 = userNameGenerator();
@@ -1403,5 +2019,441 @@ for (const iterations of [1, 3]) {
         });
       }
     });
+
+    describe("test-revoke-all-1", { skip: incremental }, async () => {
+      const user1 = userNameGenerator();
+      const user2 = userNameGenerator();
+      const db = dbNameGenerator();
+      const useRootClient = dbClientGenerator(
+        dbUrl(rootUser, rootPassword, db),
+      );
+      const userRevokePolicy = {
+        type: "users" as const,
+        users: [user1, user2],
+      };
+
+      let teardown: () => Promise<void> = async () => {};
+
+      before(async () => {
+        teardown = await setupEnv(
+          "revoke-all",
+          "revoke-all-1",
+          db,
+          { user1, user2 },
+          { userRevokePolicy },
+        );
+      });
+
+      after(async () => {
+        await teardown();
+      });
+
+      await it("user2: privileges granted outside of rules are revoked", async () => {
+        await useRootClient(async (client) => {
+          const result = await client.query(
+            `
+              SELECT
+                has_schema_privilege($1, 'test', 'USAGE') as "schema",
+                has_sequence_privilege($1, 'test.articles_id_seq', 'USAGE')
+                  as "sequence",
+                has_type_privilege($1, 'test.floatrange', 'USAGE') as "type",
+                has_type_privilege($1, 'test.floatmultirange', 'USAGE')
+                  as "multirange",
+                has_database_privilege($1, current_database(), 'CREATE')
+                  as "database"
+            `,
+            [user2],
+          );
+          assert.deepEqual(result.rows[0], {
+            schema: false,
+            sequence: false,
+            type: false,
+            multirange: false,
+            database: false,
+          });
+        });
+      });
+
+      await it("reports the scope of the revoke in the query", async () => {
+        await useRootClient(async (client) => {
+          const result = await compileQuery({
+            backend: new PostgresBackend(client),
+            paths: [rulesFile("revoke-all-1")],
+            vars: { user1, user2 },
+            userRevokePolicy,
+          });
+          assert.equal(result.type, "success");
+          assert.match(
+            result.type === "success" ? result.query : "",
+            new RegExp(
+              `-- Revoking from "${user1}", "${user2}": .* sequences, .*, large objects`,
+            ),
+          );
+        });
+      });
+    });
+
+    describe("test-inline-revoke-1", { skip: incremental }, async () => {
+      const user1 = userNameGenerator();
+      const user2 = userNameGenerator();
+      const db = dbNameGenerator();
+      const useRootClient = dbClientGenerator(
+        dbUrl(rootUser, rootPassword, db),
+      );
+
+      let env: TestEnv | undefined;
+      const queries: string[] = [];
+
+      before(async () => {
+        env = await createEnv("revoke-all", db, { user1, user2 });
+        const backend = new PostgresBackend(env.client, { inlineRevoke: true });
+        for (let i = 0; i < iterations; i++) {
+          const result = await compileQuery({
+            backend,
+            paths: [rulesFile("revoke-all-1")],
+            vars: { user1, user2 },
+            userRevokePolicy: { type: "users", users: [user1, user2] },
+          });
+          assert.equal(result.type, "success");
+          if (result.type === "success") {
+            queries.push(result.query);
+            await env.client.query(result.query);
+          }
+        }
+      });
+
+      after(async () => {
+        await env?.teardown();
+      });
+
+      await it("does not create a schema", () => {
+        for (const query of queries) {
+          assert.doesNotMatch(query, /CREATE SCHEMA/);
+        }
+      });
+
+      await it("user2: privileges granted outside of rules are revoked", async () => {
+        await useRootClient(async (client) => {
+          const result = await client.query(
+            `
+              SELECT
+                has_schema_privilege($1, 'test', 'USAGE') as "schema",
+                has_sequence_privilege($1, 'test.articles_id_seq', 'USAGE')
+                  as "sequence",
+                has_database_privilege($1, current_database(), 'CREATE')
+                  as "database"
+            `,
+            [user2],
+          );
+          assert.deepEqual(result.rows[0], {
+            schema: false,
+            sequence: false,
+            database: false,
+          });
+        });
+      });
+
+      await it("user1: privileges from rules are granted", async () => {
+        await useRootClient(async (client) => {
+          const result = await client.query(
+            `SELECT has_schema_privilege($1, 'test', 'USAGE') as "schema"`,
+            [user1],
+          );
+          assert.deepEqual(result.rows[0], { schema: true });
+        });
+      });
+    });
+
+    describe("test-grantors-1", async () => {
+      const user1 = userNameGenerator();
+      const user2 = userNameGenerator();
+      const db = dbNameGenerator();
+      const useRootClient = dbClientGenerator(
+        dbUrl(rootUser, rootPassword, db),
+      );
+
+      let teardown: () => Promise<void> = async () => {};
+
+      before(async () => {
+        teardown = await setupEnv(
+          "grantors",
+          "grantors-1",
+          db,
+          { user1, user2 },
+          { userRevokePolicy: { type: "users", users: [user1, user2] } },
+        );
+      });
+
+      after(async () => {
+        await teardown();
+      });
+
+      await it("user2: privileges granted by other roles are revoked", async () => {
+        await useRootClient(async (client) => {
+          const result = await client.query(
+            `
+              SELECT
+                has_schema_privilege($1, 'test', 'USAGE') as "schema",
+                has_table_privilege($1, 'test.articles', 'SELECT') as "table",
+                has_column_privilege($1, 'test.authors', 'name', 'SELECT')
+                  as "column"
+            `,
+            [user2],
+          );
+          assert.deepEqual(result.rows[0], {
+            schema: false,
+            table: false,
+            column: false,
+          });
+        });
+      });
+
+      await it("grantor: privileges are not revoked", async () => {
+        await useRootClient(async (client) => {
+          const result = await client.query(
+            `
+              SELECT
+                has_schema_privilege($1, 'test', 'USAGE WITH GRANT OPTION')
+                  as "schema",
+                has_table_privilege(
+                  $1, 'test.articles', 'SELECT WITH GRANT OPTION'
+                ) as "table"
+            `,
+            [`${user1}_grantor`],
+          );
+          assert.deepEqual(result.rows[0], { schema: true, table: true });
+        });
+      });
+    });
+
+    describe("test-grantors-2", { skip: incremental }, async () => {
+      const user1 = userNameGenerator();
+      const user2 = userNameGenerator();
+      const db = dbNameGenerator();
+
+      let env: TestEnv | undefined;
+      let warnings: string[] = [];
+
+      before(async () => {
+        env = await createEnv("grantors", db, { user1, user2 });
+        // The grantor can no longer look up the objects that it granted
+        // privileges on, so it can't revoke them
+        await env.client.query(
+          `REVOKE USAGE ON SCHEMA test FROM ${user1}_grantor CASCADE`,
+        );
+        env.client.on("notice", (notice) => {
+          if (notice.severity === "WARNING") {
+            warnings.push(notice.message ?? "");
+          }
+        });
+      });
+
+      after(async () => {
+        await env?.teardown();
+      });
+
+      const cases = [
+        {
+          name: "inlineRevoke=false",
+          inlineRevoke: false,
+          incremental: false,
+          warning: `Unable to revoke privileges on table test.articles granted to ${user2} by ${user1}_grantor: permission denied for schema test`,
+        },
+        {
+          name: "inlineRevoke=true",
+          inlineRevoke: true,
+          incremental: false,
+          warning: `Unable to revoke privileges on table test.articles granted to ${user2} by ${user1}_grantor: permission denied for schema test`,
+        },
+        {
+          name: "incremental",
+          inlineRevoke: false,
+          incremental: true,
+          warning: `Unable to revoke SELECT ON "test"."articles" FROM "${user2}" GRANTED BY "${user1}_grantor": permission denied for schema test`,
+        },
+      ];
+
+      for (const testCase of cases) {
+        await it(`warns if privileges can't be revoked, ${testCase.name}`, async () => {
+          const result = await compileQuery({
+            backend: new PostgresBackend(env!.client, {
+              inlineRevoke: testCase.inlineRevoke,
+            }),
+            paths: [rulesFile("grantors-1")],
+            vars: { user1, user2 },
+            userRevokePolicy: { type: "users", users: [user1, user2] },
+            incremental: testCase.incremental,
+          });
+          assert.equal(result.type, "success");
+          warnings = [];
+          await env!.client.query(
+            result.type === "success" ? result.query : "",
+          );
+          assert.ok(warnings.includes(testCase.warning), warnings.join("\n"));
+
+          const privileges = await env!.client.query(
+            "SELECT has_table_privilege($1, 'test.articles', 'SELECT') as \"table\"",
+            [user2],
+          );
+          assert.deepEqual(privileges.rows[0], { table: true });
+        });
+      }
+    });
+
+    describe("test-managed-schemas-1", async () => {
+      const user1 = userNameGenerator();
+      const user2 = userNameGenerator();
+      const db = dbNameGenerator();
+      const useRootClient = dbClientGenerator(
+        dbUrl(rootUser, rootPassword, db),
+      );
+
+      let teardown: () => Promise<void> = async () => {};
+
+      before(async () => {
+        teardown = await setupEnv(
+          "managed-schemas",
+          "managed-schemas-1",
+          db,
+          { user1, user2 },
+          {
+            userRevokePolicy: { type: "users", users: [user1, user2] },
+            managedSchemas: ["team_a"],
+          },
+        );
+      });
+
+      after(async () => {
+        await teardown();
+      });
+
+      const getPrivileges = (client: pg.Client, user: string) =>
+        client
+          .query(
+            `
+              SELECT
+                has_schema_privilege($1, 'team_a', 'USAGE') as "teamA",
+                has_table_privilege($1, 'team_a.articles', 'SELECT')
+                  as "articles",
+                has_table_privilege($1, 'team_a.authors', 'SELECT')
+                  as "authors",
+                has_schema_privilege($1, 'team_b', 'USAGE') as "teamB",
+                has_table_privilege($1, 'team_b.orders', 'SELECT')
+                  as "orders",
+                has_database_privilege($1, current_database(), 'CREATE')
+                  as "database"
+            `,
+            [user],
+          )
+          .then((result) => result.rows[0]);
+
+      await it("user1: privileges are granted in managed schemas", async () => {
+        await useRootClient(async (client) => {
+          assert.deepEqual(await getPrivileges(client, user1), {
+            teamA: true,
+            articles: true,
+            authors: false,
+            teamB: true,
+            orders: true,
+            database: false,
+          });
+        });
+      });
+
+      await it("user2: privileges are only revoked in managed schemas", async () => {
+        await useRootClient(async (client) => {
+          assert.deepEqual(await getPrivileges(client, user2), {
+            teamA: false,
+            articles: false,
+            authors: false,
+            teamB: true,
+            orders: true,
+            database: true,
+          });
+        });
+      });
+
+      await it("should fail when granting outside of managed schemas", async () => {
+        const db = dbNameGenerator();
+        const user1 = userNameGenerator();
+        const user2 = userNameGenerator();
+
+        await assert.rejects(
+          setupEnv(
+            "managed-schemas",
+            "managed-schemas-2",
+            db,
+            { user1, user2 },
+            { managedSchemas: ["team_a"] },
+          ),
+          {
+            message:
+              /Permission granted to .+ outside of managed schemas: table team_b\.orders/,
+          },
+        );
+      });
+    });
+
+    describe("test-partitions-1", async () => {
+      const user1 = userNameGenerator();
+      const user2 = userNameGenerator();
+      const db = dbNameGenerator();
+      const useClient1 = dbClientGenerator(dbUrl(user1, "blah", db));
+      const useClient2 = dbClientGenerator(dbUrl(user2, "blah", db));
+
+      let teardown: () => Promise<void> = async () => {};
+
+      before(async () => {
+        teardown = await setupEnv(
+          "partitions",
+          "partitions-1",
+          db,
+          { user1, user2 },
+          { propagateToPartitions: true },
+        );
+      });
+
+      after(async () => {
+        await teardown();
+      });
+
+      await it("user1: row-level security on the partitioned table", async () => {
+        await useClient1(async (client) => {
+          const result = await client.query("SELECT * FROM test.events");
+          assert.equal(result.rowCount, 4);
+        });
+      });
+
+      await it("user1: row-level security on partitions", async () => {
+        await useClient1(async (client) => {
+          for (const [table, rowCount] of [
+            ["events_2024_01", 2],
+            ["events_2024_02", 2],
+            ["events_2024_02_click", 2],
+            ["events_2024_02_other", 0],
+          ] as const) {
+            const result = await client.query(`SELECT * FROM test.${table}`);
+            assert.equal(result.rowCount, rowCount);
+          }
+        });
+      });
+
+      await it("user2: access to partitions only", async () => {
+        await useClient2(async (client) => {
+          for (const [table, rowCount] of [
+            ["events_2024_01", 3],
+            ["events_2024_02", 3],
+            ["events_2024_02_click", 2],
+          ] as const) {
+            const result = await client.query(`SELECT * FROM test.${table}`);
+            assert.equal(result.rowCount, rowCount);
+          }
+
+          await assert.rejects(client.query("SELECT * FROM test.events"), {
+            message: "permission denied for table events",
+          });
+        });
+      });
+    });
   });
 }
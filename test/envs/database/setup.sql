@@ -0,0 +1,14 @@
+BEGIN;
+
+-- Users can only connect to the database if they're granted CONNECT
+DO $$
+BEGIN
+    EXECUTE format('REVOKE ALL ON DATABASE %I FROM PUBLIC', current_database());
+END;
+$$;
+
+CREATE USER {{user1}} WITH PASSWORD 'blah';
+
+CREATE USER {{user2}} WITH PASSWORD 'blah';
+
+COMMIT;
@@ -0,0 +1,26 @@
+BEGIN;
+
+CREATE SCHEMA test;
+
+-- A wrapper without a handler is enough to grant privileges on foreign
+-- tables, though they can't be queried
+CREATE FOREIGN DATA WRAPPER legacy_fdw;
+
+CREATE SERVER legacy FOREIGN DATA WRAPPER legacy_fdw;
+
+CREATE SERVER archive FOREIGN DATA WRAPPER legacy_fdw;
+
+CREATE FOREIGN TABLE test.accounts (
+    id INTEGER NOT NULL,
+    email TEXT,
+    password TEXT
+) SERVER legacy;
+
+CREATE FOREIGN TABLE test.orders (
+    id INTEGER NOT NULL,
+    total NUMERIC
+) SERVER legacy;
+
+CREATE USER {{user1}} WITH PASSWORD 'blah';
+
+COMMIT;
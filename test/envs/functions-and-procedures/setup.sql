@@ -9,6 +9,15 @@ CREATE FUNCTION test.test_func() RETURNS integer
     AS $$ SELECT 1 $$
     LANGUAGE SQL;
 
+CREATE FUNCTION test.test_func(value integer) RETURNS integer
+    AS $$ SELECT value $$
+    LANGUAGE SQL;
+
+CREATE AGGREGATE test.total(integer) (
+    SFUNC = int4pl,
+    STYPE = integer
+);
+
 CREATE TABLE test.articles (
     id SERIAL PRIMARY KEY,
     title VARCHAR(255) NOT NULL
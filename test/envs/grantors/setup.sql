@@ -0,0 +1,38 @@
+BEGIN;
+
+CREATE SCHEMA test;
+
+CREATE TABLE test.articles (
+    id SERIAL PRIMARY KEY,
+    title VARCHAR(255) NOT NULL
+);
+
+CREATE TABLE test.authors (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL
+);
+
+CREATE USER {{user1}} WITH PASSWORD 'blah';
+
+CREATE USER {{user2}} WITH PASSWORD 'blah';
+
+CREATE ROLE {{user1}}_grantor;
+
+GRANT USAGE ON SCHEMA test TO {{user1}}_grantor WITH GRANT OPTION;
+
+GRANT SELECT ON test.articles TO {{user1}}_grantor WITH GRANT OPTION;
+
+GRANT SELECT (name) ON test.authors TO {{user1}}_grantor WITH GRANT OPTION;
+
+-- Privileges granted by a role other than the owner
+SET ROLE {{user1}}_grantor;
+
+GRANT USAGE ON SCHEMA test TO {{user2}};
+
+GRANT SELECT ON test.articles TO {{user2}};
+
+GRANT SELECT (name) ON test.authors TO {{user2}};
+
+RESET ROLE;
+
+COMMIT;
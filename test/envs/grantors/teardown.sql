@@ -0,0 +1,3 @@
+DROP ROLE {{user1}}_grantor;
+DROP ROLE {{user1}};
+DROP ROLE {{user2}};
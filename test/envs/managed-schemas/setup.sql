@@ -0,0 +1,42 @@
+BEGIN;
+
+CREATE SCHEMA team_a;
+
+CREATE SCHEMA team_b;
+
+CREATE TABLE team_a.articles (
+    id SERIAL PRIMARY KEY,
+    title VARCHAR(255) NOT NULL
+);
+
+CREATE TABLE team_a.authors (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL
+);
+
+CREATE TABLE team_b.orders (
+    id SERIAL PRIMARY KEY,
+    total NUMERIC NOT NULL
+);
+
+CREATE USER {{user1}} WITH PASSWORD 'blah';
+
+CREATE USER {{user2}} WITH PASSWORD 'blah';
+
+-- Privileges managed by another team
+GRANT USAGE ON SCHEMA team_b TO {{user1}}, {{user2}};
+
+GRANT SELECT ON team_b.orders TO {{user1}}, {{user2}};
+
+DO $$
+begin
+    execute format('GRANT CREATE ON DATABASE %I TO {{user2}}', current_database());
+end;
+$$;
+
+-- Privileges that aren't granted by the rules anymore
+GRANT USAGE ON SCHEMA team_a TO {{user2}};
+
+GRANT SELECT ON team_a.authors TO {{user2}};
+
+COMMIT;
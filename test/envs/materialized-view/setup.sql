@@ -0,0 +1,30 @@
+BEGIN;
+
+CREATE SCHEMA test;
+
+CREATE TABLE test.articles (
+    id SERIAL PRIMARY KEY,
+    title VARCHAR(255) NOT NULL,
+    author VARCHAR(100)
+);
+
+CREATE VIEW test.author_a_articles AS (
+    SELECT * FROM test.articles WHERE author = 'Author A'
+);
+
+CREATE MATERIALIZED VIEW test.article_counts AS (
+    SELECT author, count(*) AS articles FROM test.articles GROUP BY author
+) WITH NO DATA;
+
+INSERT INTO test.articles (title, author) VALUES
+('Article 1', 'Author A'),
+('Article 2', 'Author B'),
+('Article 3', 'Author C'),
+('Article 4', 'Author A'),
+('Article 5', 'Author B');
+
+REFRESH MATERIALIZED VIEW test.article_counts;
+
+CREATE USER {{user1}} WITH PASSWORD 'blah';
+
+COMMIT;
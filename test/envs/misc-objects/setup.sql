@@ -0,0 +1,11 @@
+BEGIN;
+
+REVOKE USAGE ON LANGUAGE plpgsql FROM PUBLIC;
+
+SELECT lo_create(4242);
+
+SELECT lo_create(4243);
+
+CREATE USER {{user1}} WITH PASSWORD 'blah';
+
+COMMIT;
@@ -0,0 +1,4 @@
+-- Tablespace privileges are shared between databases, so they aren't
+-- dropped along with the test database
+DROP OWNED BY {{user1}};
+DROP ROLE {{user1}};
@@ -0,0 +1,5 @@
+BEGIN;
+
+CREATE USER {{user1}} WITH PASSWORD 'blah';
+
+COMMIT;
@@ -0,0 +1,36 @@
+BEGIN;
+
+CREATE SCHEMA test;
+
+CREATE TABLE test.events (
+    id SERIAL,
+    kind VARCHAR(20) NOT NULL,
+    created_at DATE NOT NULL
+) PARTITION BY RANGE (created_at);
+
+CREATE TABLE test.events_2024_01 PARTITION OF test.events
+    FOR VALUES FROM ('2024-01-01') TO ('2024-02-01');
+
+CREATE TABLE test.events_2024_02 PARTITION OF test.events
+    FOR VALUES FROM ('2024-02-01') TO ('2024-03-01')
+    PARTITION BY LIST (kind);
+
+CREATE TABLE test.events_2024_02_click PARTITION OF test.events_2024_02
+    FOR VALUES IN ('click');
+
+CREATE TABLE test.events_2024_02_other PARTITION OF test.events_2024_02
+    DEFAULT;
+
+INSERT INTO test.events (kind, created_at) VALUES
+('click', '2024-01-01'),
+('click', '2024-01-15'),
+('view', '2024-01-20'),
+('click', '2024-02-01'),
+('click', '2024-02-10'),
+('view', '2024-02-20');
+
+CREATE USER {{user1}} WITH PASSWORD 'blah';
+
+CREATE USER {{user2}} WITH PASSWORD 'blah';
+
+COMMIT;
@@ -0,0 +1,31 @@
+BEGIN;
+
+CREATE SCHEMA test;
+
+CREATE TABLE test.articles (
+    id SERIAL PRIMARY KEY,
+    title VARCHAR(255) NOT NULL
+);
+
+CREATE TYPE test.floatrange AS RANGE (SUBTYPE = FLOAT8);
+
+REVOKE USAGE ON TYPE test.floatrange, test.floatmultirange FROM PUBLIC;
+
+CREATE USER {{user1}} WITH PASSWORD 'blah';
+
+CREATE USER {{user2}} WITH PASSWORD 'blah';
+
+-- Privileges granted outside of sqlauthz
+GRANT USAGE ON SCHEMA test TO {{user2}};
+
+GRANT USAGE, SELECT ON SEQUENCE test.articles_id_seq TO {{user2}};
+
+GRANT USAGE ON TYPE test.floatrange, test.floatmultirange TO {{user2}};
+
+DO $$
+begin
+    execute format('GRANT CREATE ON DATABASE %I TO {{user2}}', current_database());
+end;
+$$;
+
+COMMIT;
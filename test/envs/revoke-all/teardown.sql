@@ -0,0 +1,2 @@
+DROP ROLE {{user1}};
+DROP ROLE {{user2}};
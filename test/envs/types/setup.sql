@@ -0,0 +1,26 @@
+BEGIN;
+
+CREATE SCHEMA test;
+
+CREATE TYPE test.mood AS ENUM ('happy', 'sad');
+
+CREATE TYPE test.point2 AS (x FLOAT8, y FLOAT8);
+
+CREATE TYPE test.floatrange AS RANGE (SUBTYPE = FLOAT8);
+
+CREATE DOMAIN test.email AS TEXT CHECK (VALUE LIKE '%@%');
+
+CREATE DOMAIN test.positive AS INTEGER CHECK (VALUE > 0);
+
+CREATE TABLE test.articles (
+    id SERIAL PRIMARY KEY,
+    mood test.mood
+);
+
+REVOKE USAGE ON TYPE test.mood, test.point2, test.floatrange, test.floatmultirange FROM PUBLIC;
+
+REVOKE USAGE ON DOMAIN test.email, test.positive FROM PUBLIC;
+
+CREATE USER {{user1}} WITH PASSWORD 'blah';
+
+COMMIT;
@@ -0,0 +1,160 @@
+import assert from "node:assert";
+import { after, before, describe, it } from "node:test";
+import { CompilePermissionsSuccess, compilePermissions } from "../src/api.js";
+import { ExplainError, can, explain, whoCan } from "../src/explain.js";
+import {
+  TestEnv,
+  createEnv,
+  dbNameGenerator,
+  rulesFile,
+  userNameGenerator,
+} from "./utils.js";
+
+describe("explain", async () => {
+  const user1 = userNameGenerator();
+  const user2 = userNameGenerator();
+  const db = dbNameGenerator();
+  const path = rulesFile("basic-1");
+
+  let env: TestEnv;
+  let compiled: CompilePermissionsSuccess;
+
+  before(async () => {
+    env = await createEnv("basic", db, { user1, user2 });
+    const result = await compilePermissions({
+      backend: env.backend,
+      paths: [path],
+      vars: { user1, user2 },
+    });
+    assert.equal(result.type, "success");
+    compiled = result as CompilePermissionsSuccess;
+  });
+
+  after(async () => {
+    await env.teardown();
+  });
+
+  await it("lists actors with a privilege", () => {
+    const summaries = whoCan({
+      ...compiled,
+      privilege: "select",
+      object: "test.articles",
+    });
+    assert.equal(summaries.length, 1);
+    const [summary] = summaries;
+    assert.equal(summary?.actor.name, user1);
+    assert.equal(summary?.privilege, "SELECT");
+    assert.deepEqual(summary?.columns, ["id", "title"]);
+    assert.equal(summary?.rows, '"Author A" == author and id < 5');
+    assert.deepEqual(summary?.sources, [{ file: path, line: 4 }]);
+  });
+
+  await it("answers whether an actor has a privilege", () => {
+    const args = { ...compiled, object: "test.articles" };
+    assert.equal(
+      can({ ...args, actor: user1, privilege: "update" }).access,
+      "partial",
+    );
+    assert.equal(
+      can({ ...args, actor: user1, privilege: "truncate" }).access,
+      "no",
+    );
+    assert.equal(
+      can({ ...args, actor: user2, privilege: "select" }).access,
+      "no",
+    );
+    assert.equal(
+      can({ ...compiled, actor: user1, privilege: "usage", object: "test" })
+        .access,
+      "yes",
+    );
+  });
+
+  await it("lists the privileges of an actor", () => {
+    const summaries = explain({ ...compiled, actor: user1 });
+    assert.deepEqual(
+      summaries.map((summary) => `${summary.privilege} ${summary.object.type}`),
+      [
+        "USAGE schema",
+        "DELETE table",
+        "INSERT table",
+        "SELECT table",
+        "UPDATE table",
+      ],
+    );
+    assert.deepEqual(explain({ ...compiled, actor: user2 }), []);
+  });
+
+  await it("rejects unknown privileges, objects and actors", () => {
+    assert.throws(
+      () => whoCan({ ...compiled, privilege: "fly", object: "test.articles" }),
+      ExplainError,
+    );
+    assert.throws(
+      () =>
+        whoCan({ ...compiled, privilege: "select", object: "test.missing" }),
+      ExplainError,
+    );
+    assert.throws(
+      () => explain({ ...compiled, actor: "nobody_at_all" }),
+      ExplainError,
+    );
+  });
+});
+
+describe("explain with groups", async () => {
+  const user1 = userNameGenerator();
+  const user2 = userNameGenerator();
+  const user3 = userNameGenerator();
+  const db = dbNameGenerator();
+  const path = rulesFile("group-1");
+
+  let env: TestEnv;
+  let compiled: CompilePermissionsSuccess;
+
+  before(async () => {
+    env = await createEnv("group", db, { user1, user2, user3 });
+    const result = await compilePermissions({
+      backend: env.backend,
+      paths: [path],
+      vars: { user1, user2, user3 },
+    });
+    assert.equal(result.type, "success");
+    compiled = result as CompilePermissionsSuccess;
+  });
+
+  after(async () => {
+    await env.teardown();
+  });
+
+  await it("includes privileges inherited from groups", () => {
+    const summaries = whoCan({
+      ...compiled,
+      privilege: "select",
+      object: "test.articles",
+    });
+    assert.deepEqual(
+      summaries.map((summary) => [
+        summary.actor.name,
+        summary.inheritedFrom?.name ?? null,
+      ]),
+      [
+        [user1, user3],
+        [user2, user3],
+        [user3, null],
+      ],
+    );
+
+    const result = can({
+      ...compiled,
+      actor: user1,
+      privilege: "select",
+      object: "test.articles",
+    });
+    assert.equal(result.access, "yes");
+    assert.deepEqual(
+      result.permissions.map((summary) => summary.inheritedFrom?.name),
+      [user3],
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import assert from "node:assert";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { checkPermissions } from "../src/api.js";
+import { importRules } from "../src/import.js";
+import {
+  TestEnv,
+  createEnv,
+  dbNameGenerator,
+  userNameGenerator,
+} from "./utils.js";
+
+describe(importRules.name, async () => {
+  const user1 = userNameGenerator();
+  const user2 = userNameGenerator();
+  const db = dbNameGenerator();
+
+  let env: TestEnv;
+  let tmpDir: string;
+
+  before(async () => {
+    env = await createEnv("basic", db, { user1, user2 });
+    tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "sqlauthz-"));
+  });
+
+  after(async () => {
+    await env.teardown();
+    await fs.promises.rm(tmpDir, { recursive: true });
+  });
+
+  await it("reproduces existing grants", async () => {
+    await env.client.query(`
+      CREATE TABLE test.comments (id INT, article_id INT);
+      GRANT USAGE ON SCHEMA test TO ${user1}, ${user2};
+      GRANT SELECT, INSERT ON ALL TABLES IN SCHEMA test TO ${user1};
+      ALTER DEFAULT PRIVILEGES IN SCHEMA test
+        GRANT SELECT, INSERT ON TABLES TO ${user1};
+      GRANT SELECT (id, title) ON test.articles TO ${user2};
+      GRANT USAGE ON SEQUENCE test.articles_id_seq TO ${user1};
+      GRANT pg_monitor TO ${user2} WITH INHERIT FALSE;
+      ALTER ROLE ${user1} SET search_path TO test, "$user";
+    `);
+
+    const result = await importRules({ backend: env.backend });
+    assert.deepEqual(result.warnings, []);
+    assert.ok(
+      result.rules.includes(
+        [
+          `member("${user2}", group)`,
+          `    if group == "pg_monitor"`,
+          "    and group.inherit == false;",
+        ].join("\n"),
+      ),
+    );
+    assert.ok(
+      result.rules.includes(
+        `setting("${user1}", "search_path", ["test", "$user"]);`,
+      ),
+    );
+    assert.match(
+      result.rules,
+      /if resource\.type in \["table", "view", "materialized_view", "foreign_table"\]\n {4}and resource\.schema == "test"/,
+    );
+    assert.match(result.rules, /resource\.col in \["id", "title"\]/);
+
+    const rulesPath = path.join(tmpDir, "grants.polar");
+    await fs.promises.writeFile(rulesPath, result.rules);
+
+    const check = await checkPermissions({
+      backend: env.backend,
+      paths: [rulesPath],
+      userRevokePolicy: { type: "users", users: [user1, user2] },
+    });
+    assert.deepEqual(check, { type: "success", changes: [] });
+  });
+
+  await it("ignores the privileges of owners", async () => {
+    await env.client.query(`
+      CREATE TABLE test.notes (id INT);
+      ALTER TABLE test.notes OWNER TO ${user1};
+      GRANT SELECT ON test.notes TO ${user2};
+    `);
+
+    const result = await importRules({ backend: env.backend });
+    assert.deepEqual(result.warnings, []);
+    const rulesPath = path.join(tmpDir, "owners.polar");
+    await fs.promises.writeFile(rulesPath, result.rules);
+
+    const check = await checkPermissions({
+      backend: env.backend,
+      paths: [rulesPath],
+      userRevokePolicy: { type: "users", users: [user1, user2] },
+    });
+    assert.deepEqual(check, { type: "success", changes: [] });
+  });
+
+  await it("translates row-level security policies", async () => {
+    await env.client.query(`
+      REVOKE ALL ON test.comments FROM ${user1};
+      ALTER DEFAULT PRIVILEGES IN SCHEMA test
+        REVOKE ALL ON TABLES FROM ${user1};
+      GRANT SELECT ON test.comments TO ${user2};
+      ALTER TABLE test.comments ENABLE ROW LEVEL SECURITY;
+      CREATE POLICY comments_select ON test.comments FOR SELECT TO ${user2}
+        USING (article_id = 1 OR id < 10);
+    `);
+
+    const result = await importRules({ backend: env.backend });
+    assert.deepEqual(result.warnings, []);
+    assert.ok(
+      result.rules.includes(
+        [
+          `allow("${user2}", "select", resource)`,
+          `    if resource == "test.comments"`,
+          "    and (resource.row.article_id == 1 or resource.row.id < 10);",
+        ].join("\n"),
+      ),
+    );
+  });
+
+  await it("comments out policies that cannot be translated", async () => {
+    await env.client.query(`
+      CREATE POLICY comments_restrict ON test.comments AS RESTRICTIVE
+        FOR SELECT TO ${user2} USING (article_id IS NOT NULL);
+    `);
+
+    const result = await importRules({ backend: env.backend });
+    assert.equal(result.warnings.length, 1);
+    assert.ok(
+      result.rules.includes(`# allow("${user2}", "select", "test.comments");`),
+    );
+  });
+
+  await it("distinguishes overloaded functions", async () => {
+    await env.client.query(`
+      CREATE FUNCTION test.article_count() RETURNS bigint
+        AS $$ SELECT count(*) FROM test.articles $$ LANGUAGE SQL;
+      CREATE FUNCTION test.article_count(min_id integer) RETURNS bigint
+        AS $$ SELECT count(*) FROM test.articles WHERE id >= min_id $$
+        LANGUAGE SQL;
+      REVOKE ALL ON ALL FUNCTIONS IN SCHEMA test FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION test.article_count(integer) TO ${user1};
+    `);
+
+    const result = await importRules({ backend: env.backend });
+    assert.ok(
+      result.rules.includes(
+        [
+          `allow("${user1}", "execute", resource)`,
+          `    if resource == "test.article_count"`,
+          `    and resource.signature == "article_count(integer)";`,
+        ].join("\n"),
+      ),
+    );
+    assert.ok(!result.rules.includes("article_count()"));
+  });
+});
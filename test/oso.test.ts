@@ -0,0 +1,165 @@
+import assert from "node:assert";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { compileQuery } from "../src/api.js";
+import {
+  InstrumentedMemberRuleName,
+  InstrumentedRuleName,
+  InstrumentedSettingRuleName,
+  OsoError,
+  createOso,
+  instrumentRules,
+} from "../src/oso.js";
+import {
+  TestEnv,
+  createEnv,
+  dbNameGenerator,
+  rulesFile,
+  userNameGenerator,
+} from "./utils.js";
+
+describe(instrumentRules.name, async () => {
+  await it("rewrites top-level allow rules", () => {
+    const source = [
+      "# allow(actor, action, resource);",
+      'allow("bob", "usage", "test");',
+      "",
+      "isDev(actor) if actor in [",
+      '  "allow("',
+      "];",
+      "allow(actor, action, resource)",
+      '    if isDev(actor) and allow("bob", action, resource);',
+    ].join("\n");
+
+    const result = instrumentRules(source, 3);
+    assert.deepEqual(result.lines, [2, 7]);
+    assert.equal(
+      result.source,
+      [
+        "# allow(actor, action, resource);",
+        `${InstrumentedRuleName}(3, "bob", "usage", "test");`,
+        "",
+        "isDev(actor) if actor in [",
+        '  "allow("',
+        "];",
+        `${InstrumentedRuleName}(4, actor, action, resource)`,
+        '    if isDev(actor) and allow("bob", action, resource);',
+      ].join("\n"),
+    );
+  });
+
+  await it("rewrites top-level member rules", () => {
+    const source = [
+      'member("bob", "devs");',
+      'allow("devs", "usage", "test");',
+      'member(actor, group) if actor == "alice" and group == "devs";',
+    ].join("\n");
+
+    const result = instrumentRules(source, 0, 5);
+    assert.deepEqual(result.lines, [2]);
+    assert.deepEqual(result.memberLines, [1, 3]);
+    assert.equal(
+      result.source,
+      [
+        `${InstrumentedMemberRuleName}(5, "bob", "devs");`,
+        `${InstrumentedRuleName}(0, "devs", "usage", "test");`,
+        `${InstrumentedMemberRuleName}(6, actor, group) if actor == "alice" and group == "devs";`,
+      ].join("\n"),
+    );
+  });
+
+  await it("rewrites top-level setting rules", () => {
+    const source = [
+      'setting("bob", "statement_timeout", "5s");',
+      'member("bob", "devs");',
+    ].join("\n");
+
+    const result = instrumentRules(source, 0, 0, 2);
+    assert.deepEqual(result.settingLines, [1]);
+    assert.equal(
+      result.source,
+      [
+        `${InstrumentedSettingRuleName}(2, "bob", "statement_timeout", "5s");`,
+        `${InstrumentedMemberRuleName}(0, "bob", "devs");`,
+      ].join("\n"),
+    );
+  });
+});
+
+describe("rule sources", async () => {
+  const user1 = userNameGenerator();
+  const user2 = userNameGenerator();
+  const db = dbNameGenerator();
+
+  let env: TestEnv;
+
+  before(async () => {
+    env = await createEnv("basic", db, { user1, user2 });
+  });
+
+  after(async () => {
+    await env.teardown();
+  });
+
+  await it("tracks the rule that granted each permission", async () => {
+    const path = rulesFile("basic-1");
+    const result = await compileQuery({
+      backend: env.backend,
+      paths: [path],
+      vars: { user1, user2 },
+      includeSetupAndTeardown: false,
+      includeTransaction: false,
+    });
+    assert.equal(result.type, "success");
+    if (result.type !== "success") {
+      return;
+    }
+
+    const sources = Object.fromEntries(
+      result.permissions.map((permission) => [
+        `${permission.type}:${permission.privilege}`,
+        permission.sources,
+      ]),
+    );
+    assert.deepEqual(sources["schema:USAGE"], [{ file: path, line: 2 }]);
+    assert.deepEqual(sources["table:DELETE"], [{ file: path, line: 4 }]);
+
+    assert.ok(result.query.includes(`-- ${path}:4\nGRANT DELETE`));
+  });
+});
+
+describe(createOso.name, async () => {
+  let tmpDir: string;
+
+  before(async () => {
+    tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "rules-"));
+  });
+
+  after(async () => {
+    await fs.promises.rm(tmpDir, { recursive: true });
+  });
+
+  await it("loads rules from every file", async () => {
+    const paths = [path.join(tmpDir, "a.polar"), path.join(tmpDir, "b.polar")];
+    await fs.promises.writeFile(paths[0]!, 'allow("a", "usage", "test");');
+    await fs.promises.writeFile(paths[1]!, 'allow("b", "usage", "test");');
+
+    const result = await createOso({ paths, functions: [] });
+    assert.deepEqual(result.rules, [
+      { file: paths[0], line: 1 },
+      { file: paths[1], line: 1 },
+    ]);
+  });
+
+  await it("reports errors with the original file names", async () => {
+    const rulesPath = path.join(tmpDir, "invalid.polar");
+    await fs.promises.writeFile(rulesPath, 'allow("a", "usage", "test")');
+
+    await assert.rejects(
+      createOso({ paths: [rulesPath], functions: [] }),
+      (error) => error instanceof OsoError && error.message.includes(rulesPath),
+    );
+  });
+});
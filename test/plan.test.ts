@@ -0,0 +1,183 @@
+import assert from "node:assert";
+import { after, before, describe, it } from "node:test";
+import { SQLEntities } from "../src/backend.js";
+import {
+  PlanError,
+  applyPlan,
+  createPlan,
+  fingerprintEntities,
+  parsePlan,
+  verifyPlan,
+} from "../src/plan.js";
+import {
+  TestEnv,
+  createEnv,
+  dbClientGenerator,
+  dbNameGenerator,
+  dbUrl,
+  rulesFile,
+  userNameGenerator,
+} from "./utils.js";
+
+describe(fingerprintEntities.name, async () => {
+  const entities: SQLEntities = {
+    users: [
+      { type: "user", name: "a" },
+      { type: "user", name: "b" },
+    ],
+    groups: [],
+    predefinedRoles: [],
+    roles: [],
+    schemas: [{ type: "schema", name: "test" }],
+    tables: [
+      {
+        type: "table-metadata",
+        table: { type: "table", schema: "test", name: "t" },
+        rlsEnabled: false,
+        columns: ["id", "name"],
+        partitionOf: null,
+      },
+    ],
+    views: [],
+    materializedViews: [],
+    rlsPolicies: [
+      {
+        type: "rls-policy",
+        name: "p",
+        table: { type: "table", schema: "test", name: "t" },
+        permissive: "PERMISSIVE",
+        privileges: new Set(["SELECT", "UPDATE"]),
+        isDefault: false,
+        users: [],
+        groups: [],
+        using: null,
+        withCheck: null,
+        comment: null,
+      },
+    ],
+    functions: [],
+    procedures: [],
+    aggregates: [],
+    sequences: [],
+    types: [],
+    domains: [],
+    foreignDataWrappers: [],
+    foreignServers: [],
+    foreignTables: [],
+    databases: [],
+    parameters: [],
+    tablespaces: [],
+    languages: [],
+    largeObjects: [],
+    grants: [],
+    defaultPrivileges: [],
+    memberships: [],
+    settings: [],
+    currentUser: "postgres",
+    sessionUser: "postgres",
+  };
+
+  await it("does not depend on ordering", () => {
+    const reordered: SQLEntities = {
+      ...entities,
+      users: [...entities.users].reverse(),
+      tables: [{ ...entities.tables[0]!, columns: ["name", "id"] }],
+      rlsPolicies: [
+        {
+          ...entities.rlsPolicies[0]!,
+          privileges: new Set(["UPDATE", "SELECT"]),
+        },
+      ],
+    };
+    assert.equal(fingerprintEntities(reordered), fingerprintEntities(entities));
+  });
+
+  await it("changes when entities change", () => {
+    const changed: SQLEntities = {
+      ...entities,
+      users: [...entities.users, { type: "user", name: "c" }],
+    };
+    assert.notEqual(
+      fingerprintEntities(changed),
+      fingerprintEntities(entities),
+    );
+  });
+});
+
+describe(parsePlan.name, async () => {
+  await it("rejects invalid JSON", () => {
+    assert.throws(() => parsePlan("{"), PlanError);
+  });
+
+  await it("rejects missing fields", () => {
+    assert.throws(() => parsePlan(JSON.stringify({ query: "" })), {
+      message: "Invalid plan file: missing 'version'",
+    });
+  });
+});
+
+describe("plan-apply", async () => {
+  const user1 = userNameGenerator();
+  const user2 = userNameGenerator();
+  const db = dbNameGenerator();
+  const useClient = dbClientGenerator(dbUrl(user1, "blah", db));
+
+  let env: TestEnv;
+
+  before(async () => {
+    env = await createEnv("basic", db, { user1, user2 });
+  });
+
+  after(async () => {
+    await env.teardown();
+  });
+
+  await it("applies a plan when nothing has changed", async () => {
+    const result = await createPlan({
+      backend: env.backend,
+      paths: [rulesFile("basic-1")],
+      vars: { user1, user2 },
+    });
+    assert.equal(result.type, "success");
+    if (result.type !== "success") {
+      return;
+    }
+
+    const plan = parsePlan(JSON.stringify(result.plan));
+    assert.doesNotMatch(plan.query, /^BEGIN;/m);
+    await applyPlan({ client: env.client, plan });
+
+    await useClient(async (client) => {
+      const result = await client.query("SELECT id, title FROM test.articles");
+      assert.equal(result.rowCount, 2);
+    });
+  });
+
+  await it("rejects a plan when entities have changed", async () => {
+    const result = await createPlan({
+      backend: env.backend,
+      paths: [rulesFile("basic-1")],
+      vars: { user1, user2 },
+    });
+    assert.equal(result.type, "success");
+    if (result.type !== "success") {
+      return;
+    }
+
+    await env.client.query("CREATE TABLE test.new_table (id INT)");
+
+    await assert.rejects(
+      verifyPlan({ backend: env.backend, plan: result.plan }),
+      PlanError,
+    );
+    await assert.rejects(
+      applyPlan({ client: env.client, plan: result.plan }),
+      PlanError,
+    );
+    // The transaction that the plan was verified in was rolled back
+    const isolation = await env.client.query(
+      "SELECT current_setting('transaction_isolation') as level",
+    );
+    assert.equal(isolation.rows[0]?.level, "read committed");
+  });
+});
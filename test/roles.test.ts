@@ -0,0 +1,322 @@
+import assert from "node:assert";
+import { after, before, describe, it } from "node:test";
+import { checkPermissions, compileQuery } from "../src/api.js";
+import { SQLEntities } from "../src/backend.js";
+import {
+  RolesError,
+  parseRolesFile,
+  parseValidUntil,
+  planRoles,
+} from "../src/roles.js";
+import {
+  TestEnv,
+  createEnv,
+  dbNameGenerator,
+  rulesFile,
+  userNameGenerator,
+} from "./utils.js";
+
+const entities: SQLEntities = {
+  users: [{ type: "user", name: "bob" }],
+  groups: [
+    { type: "group", name: "readers", users: [{ type: "user", name: "bob" }] },
+  ],
+  predefinedRoles: [],
+  roles: [
+    {
+      type: "role",
+      name: "postgres",
+      superuser: true,
+      login: true,
+      connectionLimit: -1,
+      validUntil: null,
+      bypassRls: true,
+      createDb: true,
+    },
+    {
+      type: "role",
+      name: "bob",
+      superuser: false,
+      login: true,
+      connectionLimit: 10,
+      validUntil: null,
+      bypassRls: false,
+      createDb: false,
+    },
+    {
+      type: "role",
+      name: "readers",
+      superuser: false,
+      login: false,
+      connectionLimit: -1,
+      validUntil: null,
+      bypassRls: false,
+      createDb: false,
+    },
+  ],
+  schemas: [],
+  tables: [],
+  views: [],
+  materializedViews: [],
+  rlsPolicies: [],
+  functions: [],
+  procedures: [],
+  aggregates: [],
+  sequences: [],
+  types: [],
+  domains: [],
+  foreignDataWrappers: [],
+  foreignServers: [],
+  foreignTables: [],
+  databases: [],
+  parameters: [],
+  tablespaces: [],
+  languages: [],
+  largeObjects: [],
+  grants: [],
+  defaultPrivileges: [],
+  memberships: [
+    {
+      type: "role-membership",
+      role: "readers",
+      member: "bob",
+      admin: false,
+      inherit: true,
+      set: true,
+    },
+  ],
+  settings: [],
+  currentUser: "postgres",
+  sessionUser: "postgres",
+};
+
+describe(parseRolesFile.name, async () => {
+  await it("reads role attributes", () => {
+    const roles = parseRolesFile(
+      JSON.stringify({
+        app: { login: true, connectionLimit: 5, passwordEnv: "APP_PASSWORD" },
+        readers: { validUntil: null },
+      }),
+    );
+    assert.deepEqual(roles, [
+      {
+        name: "app",
+        login: true,
+        connectionLimit: 5,
+        passwordEnv: "APP_PASSWORD",
+      },
+      { name: "readers", validUntil: null },
+    ]);
+  });
+
+  await it("rejects invalid roles files", () => {
+    assert.throws(() => parseRolesFile("[]"), RolesError);
+    assert.throws(
+      () => parseRolesFile(JSON.stringify({ app: { superuser: true } })),
+      /unknown attribute 'superuser'/,
+    );
+    assert.throws(
+      () => parseRolesFile(JSON.stringify({ app: { login: "yes" } })),
+      /'login' for role 'app' must be a boolean/,
+    );
+  });
+
+  await it("normalizes timestamps", () => {
+    assert.equal(parseValidUntil("infinity"), null);
+    assert.equal(
+      parseValidUntil("2030-01-01 12:00:00+02"),
+      "2030-01-01T10:00:00.000Z",
+    );
+    assert.equal(parseValidUntil("tomorrow"), undefined);
+  });
+});
+
+describe(planRoles.name, async () => {
+  await it("creates missing roles and alters attributes that differ", () => {
+    const result = planRoles({
+      roles: [
+        { name: "app", login: true, passwordEnv: "APP_PASSWORD" },
+        { name: "bob", login: true, connectionLimit: 5 },
+        { name: "readers" },
+      ],
+      entities,
+      env: { APP_PASSWORD: "secret" },
+    });
+    assert.equal(result.type, "success");
+    if (result.type !== "success") {
+      return;
+    }
+
+    assert.deepEqual(result.changes, [
+      {
+        type: "create",
+        name: "app",
+        attributes: { login: true },
+        password: "secret",
+      },
+      {
+        type: "alter",
+        name: "bob",
+        attributes: { connectionLimit: 5 },
+        password: undefined,
+      },
+    ]);
+    assert.deepEqual(
+      result.entities.users.map((user) => user.name),
+      ["bob", "app"],
+    );
+    assert.equal(entities.users.length, 1);
+  });
+
+  await it("drops unmanaged roles", () => {
+    const result = planRoles({
+      roles: [{ name: "readers" }],
+      entities,
+      dropUnmanagedRoles: true,
+    });
+    assert.equal(result.type, "success");
+    if (result.type !== "success") {
+      return;
+    }
+
+    assert.deepEqual(result.changes, [
+      { type: "drop", name: "bob", attributes: {} },
+    ]);
+    assert.deepEqual(result.entities.users, []);
+    assert.deepEqual(result.entities.groups[0]?.users, []);
+    assert.deepEqual(result.entities.memberships, []);
+  });
+
+  await it("does not drop the roles it is running as", () => {
+    for (const session of [
+      { currentUser: "bob", sessionUser: "postgres" },
+      { currentUser: "postgres", sessionUser: "bob" },
+    ]) {
+      const result = planRoles({
+        roles: [{ name: "readers" }],
+        entities: { ...entities, ...session },
+        dropUnmanagedRoles: true,
+      });
+      assert.deepEqual(result.type === "success" && result.changes, []);
+    }
+  });
+
+  await it("only sets passwords of existing roles when requested", () => {
+    const args = {
+      roles: [{ name: "bob", passwordEnv: "BOB_PASSWORD" }],
+      entities,
+      env: { BOB_PASSWORD: "secret" },
+    };
+    const incremental = planRoles(args);
+    assert.deepEqual(incremental.type === "success" && incremental.changes, []);
+
+    const full = planRoles({ ...args, setPasswords: true });
+    assert.deepEqual(full.type === "success" && full.changes, [
+      { type: "alter", name: "bob", attributes: {}, password: "secret" },
+    ]);
+  });
+
+  await it("reports invalid roles", () => {
+    const result = planRoles({
+      roles: [
+        { name: "postgres", createDb: false },
+        { name: "pg_monitor" },
+        { name: "app", passwordEnv: "APP_PASSWORD" },
+        { name: "temp", validUntil: "tomorrow" },
+      ],
+      entities,
+      env: {},
+    });
+    assert.deepEqual(result, {
+      type: "error",
+      errors: [
+        "Unable to manage superuser role: postgres",
+        "Role names starting with pg_ are reserved: pg_monitor",
+        "Environment variable APP_PASSWORD for the password of role app is not set",
+        "Invalid VALID UNTIL timestamp for role temp: tomorrow",
+      ],
+    });
+  });
+});
+
+describe("roles", async () => {
+  const user1 = userNameGenerator();
+  const user2 = userNameGenerator();
+  const user3 = userNameGenerator();
+  const db = dbNameGenerator();
+  const args = {
+    paths: [rulesFile("basic-1")],
+    vars: { user1, user2 },
+  };
+
+  let env: TestEnv;
+
+  before(async () => {
+    env = await createEnv("basic", db, { user1, user2 });
+  });
+
+  after(async () => {
+    await env.client.query(`DROP ROLE IF EXISTS ${user3}`);
+    await env.teardown();
+  });
+
+  await it("creates roles before granting permissions", async () => {
+    const roles = [
+      {
+        name: user3,
+        login: true,
+        connectionLimit: 3,
+        validUntil: "2100-01-01T00:00:00Z",
+        passwordEnv: "SQLAUTHZ_TEST_PASSWORD",
+      },
+    ];
+    process.env.SQLAUTHZ_TEST_PASSWORD = "secret";
+    const query = await compileQuery({ backend: env.backend, roles, ...args });
+    assert.equal(query.type, "success");
+    if (query.type !== "success") {
+      return;
+    }
+    await env.client.query(query.query);
+
+    const result = await env.client.query(
+      `
+        SELECT rolcanlogin, rolconnlimit, rolvaliduntil, rolpassword
+        FROM pg_catalog.pg_authid WHERE rolname = $1
+      `,
+      [user3],
+    );
+    assert.equal(result.rows[0].rolcanlogin, true);
+    assert.equal(result.rows[0].rolconnlimit, 3);
+    assert.equal(
+      result.rows[0].rolvaliduntil.toISOString(),
+      "2100-01-01T00:00:00.000Z",
+    );
+    assert.ok(result.rows[0].rolpassword.startsWith("SCRAM-SHA-256$4096:"));
+
+    const check = await checkPermissions({
+      backend: env.backend,
+      roles,
+      ...args,
+    });
+    assert.deepEqual(check, { type: "success", changes: [] });
+  });
+
+  await it("alters attributes that differ", async () => {
+    const roles = [{ name: user3, connectionLimit: 5 }];
+    const check = await checkPermissions({
+      backend: env.backend,
+      roles,
+      ...args,
+    });
+    assert.deepEqual(check, {
+      type: "success",
+      changes: [
+        {
+          type: "alter-role",
+          description: `"${user3}" CONNECTION LIMIT 5`,
+          queries: [`ALTER ROLE "${user3}" WITH CONNECTION LIMIT 5;`],
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import assert from "node:assert";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { checkPermissions, compileQuery } from "../src/api.js";
+import { fingerprintEntities } from "../src/plan.js";
+import {
+  SnapshotBackend,
+  SnapshotError,
+  createSnapshot,
+  parseSnapshot,
+  serializeSnapshot,
+} from "../src/snapshot.js";
+import {
+  TestEnv,
+  createEnv,
+  dbNameGenerator,
+  rulesFile,
+  userNameGenerator,
+} from "./utils.js";
+
+describe(SnapshotBackend.name, async () => {
+  const user1 = userNameGenerator();
+  const user2 = userNameGenerator();
+  const db = dbNameGenerator();
+
+  let env: TestEnv;
+  let tmpDir: string;
+  let snapshotPath: string;
+
+  before(async () => {
+    env = await createEnv("basic", db, { user1, user2 });
+    tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "sqlauthz-"));
+    snapshotPath = path.join(tmpDir, "entities.json");
+
+    await env.client.query(`
+      ALTER TABLE test.articles ENABLE ROW LEVEL SECURITY;
+      CREATE POLICY articles_select ON test.articles FOR SELECT TO ${user2}
+        USING (true);
+    `);
+    const snapshot = await createSnapshot({ backend: env.backend });
+    await fs.promises.writeFile(snapshotPath, serializeSnapshot(snapshot));
+  });
+
+  after(async () => {
+    await env.teardown();
+    await fs.promises.rm(tmpDir, { recursive: true });
+  });
+
+  await it("reads the same entities as the database", async () => {
+    const backend = new SnapshotBackend(snapshotPath);
+    const entities = await backend.fetchEntities();
+    assert.ok(entities.rlsPolicies.length > 0);
+    assert.ok(entities.rlsPolicies[0]?.privileges instanceof Set);
+    assert.equal(
+      fingerprintEntities(entities),
+      fingerprintEntities(await env.backend.fetchEntities()),
+    );
+  });
+
+  await it("compiles rules without a connection", async () => {
+    const args = {
+      paths: [rulesFile("basic-1")],
+      vars: { user1, user2 },
+      includeSetupAndTeardown: false,
+      includeTransaction: false,
+    };
+    const offline = await compileQuery({
+      backend: new SnapshotBackend(snapshotPath),
+      ...args,
+    });
+    const online = await compileQuery({ backend: env.backend, ...args });
+    assert.equal(offline.type, "success");
+    assert.deepEqual(offline, online);
+
+    const check = await checkPermissions({
+      backend: new SnapshotBackend(snapshotPath),
+      ...args,
+    });
+    assert.equal(check.type, "success");
+    assert.ok(check.type === "success" && check.changes.length > 0);
+  });
+
+  await it("rejects invalid snapshot files", async () => {
+    assert.throws(() => parseSnapshot("not json"), SnapshotError);
+    assert.throws(
+      () =>
+        parseSnapshot(
+          JSON.stringify({ version: "1", createdAt: "now", entities: {} }),
+        ),
+      SnapshotError,
+    );
+    await assert.rejects(
+      new SnapshotBackend(path.join(tmpDir, "missing.json")).fetchEntities(),
+      SnapshotError,
+    );
+  });
+});
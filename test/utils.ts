@@ -82,16 +82,17 @@ export function dbClientGenerator(url: string) {
   };
 }
 
-export async function setupEnv(
+export interface TestEnv {
+  client: pg.Client;
+  backend: PostgresBackend;
+  teardown: () => Promise<void>;
+}
+
+export async function createEnv(
   env: string,
-  rules: string,
   db: string,
   vars: Record<string, string>,
-  opts?: Omit<CompileQueryArgs, keyof CreateOsoArgs | "backend">,
-  iterations?: number,
-): Promise<() => Promise<void>> {
-  const numIterations = iterations ?? 1;
-
+): Promise<TestEnv> {
   const [setup, teardown] = await loadEnv(env, vars);
 
   const client = new pg.Client(rootDbUrl);
@@ -135,7 +136,30 @@ export async function setupEnv(
     ]);
     teardowns.push(["Close backend client", () => backendClient.end()]);
 
-    const backend = new PostgresBackend(backendClient);
+    return {
+      client: backendClient,
+      backend: new PostgresBackend(backendClient),
+      teardown: teardownFunc,
+    };
+  } catch (error) {
+    await teardownFunc();
+    throw error;
+  }
+}
+
+export async function setupEnv(
+  env: string,
+  rules: string,
+  db: string,
+  vars: Record<string, string>,
+  opts?: Omit<CompileQueryArgs, keyof CreateOsoArgs | "backend">,
+  iterations?: number,
+): Promise<() => Promise<void>> {
+  const numIterations = iterations ?? 1;
+
+  const { client, backend, teardown } = await createEnv(env, db, vars);
+
+  try {
     for (let i = 0; i < numIterations; i++) {
       const result = await compileQuery({
         backend,
@@ -150,12 +174,12 @@ export async function setupEnv(
         );
       }
 
-      await backendClient.query(result.query);
+      await client.query(result.query);
     }
 
-    return teardownFunc;
+    return teardown;
   } catch (error) {
-    await teardownFunc();
+    await teardown();
     throw error;
   }
 }